@@ -14,6 +14,7 @@ import com.amazonaws.ivs.broadcast.ImageDevice
 import com.amazonaws.ivs.broadcast.ImageDeviceFrame
 import com.amazonaws.ivs.broadcast.ImagePreviewSurfaceView
 import expo.modules.kotlin.AppContext
+import expo.modules.kotlin.viewevent.EventDispatcher
 import expo.modules.kotlin.views.ExpoView
 
 @RequiresApi(Build.VERSION_CODES.P)
@@ -29,12 +30,53 @@ class ExpoIVSRemoteStreamView(context: Context, appContext: AppContext) : ExpoVi
     private val maxRetries = 10
     private val retryDelayMs = 200L
 
-    // The only state this view knows is what it's currently showing
+    // What this view is currently showing
     var currentRenderedDeviceUrn: String? = null
         private set
+    private var currentRenderedParticipantId: String? = null
+
+    private val onStreamAttached by EventDispatcher()
+    private val onStreamDetached by EventDispatcher()
+    private val onFirstFrameRendered by EventDispatcher()
 
     // Props
     private var scaleMode: String = "fill"
+
+    // Optional binding props. When either is set, the manager only gives this view the matching video stream.
+    private var participantId: String? = null
+    private var deviceUrn: String? = null
+
+    /** Whether this view renders a specific stream rather than whatever the manager hands out */
+    val isBound: Boolean
+        get() = participantId != null || deviceUrn != null
+
+    fun matches(participantId: String, deviceUrn: String): Boolean {
+        if (this.participantId != null && this.participantId != participantId) return false
+        if (this.deviceUrn != null && this.deviceUrn != deviceUrn) return false
+        return true
+    }
+
+    fun setParticipantId(id: String?) {
+        if (id == participantId) return
+        participantId = id
+        bindingDidChange()
+    }
+
+    fun setDeviceUrn(urn: String?) {
+        if (urn == deviceUrn) return
+        deviceUrn = urn
+        bindingDidChange()
+    }
+
+    private fun bindingDidChange() {
+        // Drop a stream that no longer matches the props, then let the manager pick the right one
+        val urn = currentRenderedDeviceUrn
+        val renderedParticipantId = currentRenderedParticipantId
+        if (urn != null && renderedParticipantId != null && isBound && !matches(renderedParticipantId, urn)) {
+            cleanupStreamView()
+        }
+        stageManager?.requestStreamAssignment()
+    }
     
     // PiP registration flag
     private var isRegisteredForPiP = false
@@ -81,15 +123,16 @@ class ExpoIVSRemoteStreamView(context: Context, appContext: AppContext) : ExpoVi
     private fun refreshStream() {
         val device = currentImageDevice as? Device
         val urn = currentRenderedDeviceUrn
+        val participantId = currentRenderedParticipantId
         
-        if (device != null && urn != null) {
+        if (device != null && urn != null && participantId != null) {
             Log.i("ExpoIVSRemoteStreamView", "🔄 Refreshing stream for device: $urn")
             
             // Clear current URN to force re-render
             currentRenderedDeviceUrn = null
             
             // Re-render the stream
-            renderStream(device)
+            renderStream(device, participantId)
         } else {
             Log.w("ExpoIVSRemoteStreamView", "🔄 Cannot refresh - no device or URN available")
         }
@@ -126,9 +169,20 @@ class ExpoIVSRemoteStreamView(context: Context, appContext: AppContext) : ExpoVi
      * Set up frame callback to monitor frame flow
      */
     private fun setupFrameCallback(imageDevice: ImageDevice) {
+        val urn = imageDevice.descriptor.urn
+        val participantId = currentRenderedParticipantId
         imageDevice.setOnFrameCallback { frame: ImageDeviceFrame ->
             frameCount++
             lastFrameTime = System.currentTimeMillis()
+
+            if (frameCount == 1L) {
+                mainHandler.post {
+                    // Ignore frames from a stream this view has since let go of
+                    if (currentRenderedDeviceUrn == urn) {
+                        onFirstFrameRendered(mapOf("participantId" to participantId, "deviceUrn" to urn))
+                    }
+                }
+            }
             
             // Log frame info periodically (every 60 frames ~2 seconds at 30fps)
             if (frameCount % 60 == 0L) {
@@ -168,10 +222,10 @@ class ExpoIVSRemoteStreamView(context: Context, appContext: AppContext) : ExpoVi
     }
 
     // This is the command the manager will issue to this view
-    fun renderStream(device: Device) {
+    fun renderStream(device: Device, participantId: String) {
         // Ensure we're on the main thread for UI operations
         if (Looper.myLooper() != Looper.getMainLooper()) {
-            mainHandler.post { renderStream(device) }
+            mainHandler.post { renderStream(device, participantId) }
             return
         }
         
@@ -220,6 +274,7 @@ class ExpoIVSRemoteStreamView(context: Context, appContext: AppContext) : ExpoVi
                 this.ivsSurfaceView = newSurfaceView
                 this.currentImageDevice = imageDevice
                 this.currentRenderedDeviceUrn = device.descriptor.urn
+                this.currentRenderedParticipantId = participantId
                 addView(newSurfaceView)
                 
                 // Set up frame callback for monitoring
@@ -227,6 +282,8 @@ class ExpoIVSRemoteStreamView(context: Context, appContext: AppContext) : ExpoVi
                 
                 // Register as PiP source view
                 registerForPiP()
+
+                onStreamAttached(mapOf("participantId" to participantId, "deviceUrn" to device.descriptor.urn))
                 
                 Log.i("ExpoIVSRemoteStreamView", "✅ Successfully rendering stream with SurfaceView for device: ${device.descriptor.urn}")
             } else {
@@ -255,8 +312,12 @@ class ExpoIVSRemoteStreamView(context: Context, appContext: AppContext) : ExpoVi
             removeView(ivsSurfaceView)
             ivsSurfaceView = null
         }
+        currentRenderedDeviceUrn?.let { urn ->
+            onStreamDetached(mapOf("participantId" to currentRenderedParticipantId, "deviceUrn" to urn))
+        }
         currentImageDevice = null
         currentRenderedDeviceUrn = null
+        currentRenderedParticipantId = null
         frameCount = 0
         lastFrameTime = 0
     }
@@ -8,9 +8,16 @@ import android.util.Rational
 import androidx.annotation.RequiresApi
 import androidx.core.content.ContextCompat
 import android.util.Log
+import android.os.Handler
+import android.os.Looper
+import expo.modules.kotlin.Promise
 import expo.modules.kotlin.modules.Module
 import expo.modules.kotlin.modules.ModuleDefinition
 import expo.modules.kotlin.exception.Exceptions
+import expo.modules.kotlin.functions.Queues
+import com.amazonaws.ivs.broadcast.BroadcastConfiguration
+import com.amazonaws.ivs.broadcast.StageAudioConfiguration
+import com.amazonaws.ivs.broadcast.StageVideoConfiguration
 
 class ExpoRealtimeIvsBroadcastModule : Module(), IVSStageManagerDelegate, PictureInPictureDelegate {
     
@@ -33,13 +40,16 @@ class ExpoRealtimeIvsBroadcastModule : Module(), IVSStageManagerDelegate, Pictur
             "onParticipantLeft",
             "onParticipantStreamsAdded",
             "onParticipantStreamsRemoved",
+            "onParticipantStreamsMutedChanged",
+            "onAudioLevels",
             "onPublishStateChanged",
             "onStageError",
             "onPiPStateChanged",
             "onPiPError",
             "onCameraMuteStateChanged",
             "onCameraSwapped",
-            "onCameraSwapError"
+            "onCameraSwapError",
+            "onDevicesChanged"
         )
 
         OnCreate {
@@ -69,13 +79,25 @@ class ExpoRealtimeIvsBroadcastModule : Module(), IVSStageManagerDelegate, Pictur
         }
 
         AsyncFunction("initializeStage") { audioConfig: Map<String, Any>?, videoConfig: Map<String, Any>? ->
-            // TODO: Add audioConfig and videoConfig
-            IVSStageManager.instance?.initializeStage(audioConfig = null, videoConfig = null)
+            val audio = parseAudioConfig(audioConfig)
+            IVSStageManager.instance?.initializeStage(
+                audioConfig = audio?.first,
+                audioProcessing = audio?.second,
+                videoConfig = parseVideoConfig(videoConfig),
+                videoEnabled = videoConfig?.get("enabled") as? Boolean
+            )
         }
 
         AsyncFunction("initializeLocalStreams") { audioConfig: Map<String, Any>?, videoConfig: Map<String, Any>? ->
-            // TODO: Add audioConfig and videoConfig
-            IVSStageManager.instance?.initializeLocalStreams()
+            val audio = parseAudioConfig(audioConfig)
+            val manager = IVSStageManager.instance
+            manager?.initializeLocalStreams(
+                audioConfig = audio?.first,
+                audioProcessing = audio?.second,
+                videoConfig = parseVideoConfig(videoConfig),
+                videoEnabled = videoConfig?.get("enabled") as? Boolean
+            )
+            return@AsyncFunction manager?.effectiveStreamsConfiguration() ?: mapOf("audio" to null, "video" to null)
         }
 
         AsyncFunction("joinStage") { token: String, options: Map<String, Any>? ->
@@ -91,6 +113,47 @@ class ExpoRealtimeIvsBroadcastModule : Module(), IVSStageManagerDelegate, Pictur
             IVSStageManager.instance?.setStreamsPublished(published)
         }
 
+        AsyncFunction("setPublishedMedia") { media: Map<String, Boolean> ->
+            IVSStageManager.instance?.setPublishedMedia(media["audio"] ?: true, media["video"] ?: true)
+        }
+
+        AsyncFunction("getPublishedMedia") {
+            return@AsyncFunction IVSStageManager.instance?.publishedMedia() ?: mapOf("audio" to true, "video" to true)
+        }
+
+        AsyncFunction("listDevices") {
+            IVSStageManager.instance?.listDevices() ?: emptyList()
+        }
+
+        AsyncFunction("selectCamera") { urn: String ->
+            IVSStageManager.instance?.selectCamera(urn)
+        }.runOnQueue(Queues.MAIN)
+
+        AsyncFunction("selectMicrophone") { urn: String ->
+            IVSStageManager.instance?.selectMicrophone(urn)
+        }.runOnQueue(Queues.MAIN)
+
+        AsyncFunction("getCameraCapabilities") {
+            val manager = IVSStageManager.instance ?: throw NoActiveCameraException()
+            manager.cameraCapabilities()
+        }
+
+        AsyncFunction("setZoom") { _: Double ->
+            IVSStageManager.instance?.rejectCameraControl("zoom")
+        }
+
+        AsyncFunction("setTorch") { _: Boolean ->
+            IVSStageManager.instance?.rejectCameraControl("torch")
+        }
+
+        AsyncFunction("setFocusPoint") { _: Double, _: Double ->
+            IVSStageManager.instance?.rejectCameraControl("focus")
+        }
+
+        AsyncFunction("setExposureBias") { _: Double ->
+            IVSStageManager.instance?.rejectCameraControl("exposure")
+        }
+
         AsyncFunction("swapCamera") {
             IVSStageManager.instance?.swapCamera()
         }
@@ -109,11 +172,41 @@ class ExpoRealtimeIvsBroadcastModule : Module(), IVSStageManagerDelegate, Pictur
             ))
         }
 
+        AsyncFunction("setPlaceholderOptions") { _: Map<String, Any?> ->
+            // No placeholder frames until camera mute is implemented on Android
+            throw PlaceholderUnsupportedException()
+        }
+
         AsyncFunction("isCameraMuted") {
             // TODO: Implement actual camera mute state tracking on Android
             return@AsyncFunction false
         }
 
+        AsyncFunction("getParticipants") {
+            return@AsyncFunction IVSStageManager.instance?.participantsSnapshot() ?: emptyList<Map<String, Any?>>()
+        }
+
+        AsyncFunction("getStreamStats") { participantId: String?, deviceUrn: String?, promise: Promise ->
+            val manager = IVSStageManager.instance
+            if (manager == null) {
+                promise.resolve(emptyList<Map<String, Any?>>())
+                return@AsyncFunction
+            }
+            Handler(Looper.getMainLooper()).post {
+                manager.requestStreamStats(participantId, deviceUrn) { stats -> promise.resolve(stats) }
+            }
+        }
+
+        AsyncFunction("setAudioLevelsInterval") { intervalMs: Double? ->
+            Handler(Looper.getMainLooper()).post {
+                IVSStageManager.instance?.setAudioLevelsInterval(intervalMs?.toLong())
+            }
+        }
+
+        AsyncFunction("setSubscribeStrategy") { defaultType: String, overrides: Map<String, String> ->
+            IVSStageManager.instance?.setSubscribeStrategy(defaultType, overrides)
+        }
+
         // --- Picture-in-Picture Methods ---
         
         AsyncFunction("enablePictureInPicture") { options: Map<String, Any>? ->
@@ -192,11 +285,78 @@ class ExpoRealtimeIvsBroadcastModule : Module(), IVSStageManagerDelegate, Pictur
         }
 
         View(ExpoIVSRemoteStreamView::class) {
-            // This view is "dumb" and managed by the IVSStageManager.
-            // It only needs a scaleMode prop for visual configuration.
+            // Streams are handed out by the IVSStageManager. Views without binding props
+            // get whichever video stream is free; bound views get the stream they select.
+            Events("onStreamAttached", "onStreamDetached", "onFirstFrameRendered")
+
             Prop("scaleMode") { view: ExpoIVSRemoteStreamView, scaleMode: String ->
                 view.setScaleMode(scaleMode)
             }
+            Prop("participantId") { view: ExpoIVSRemoteStreamView, participantId: String? ->
+                view.setParticipantId(participantId)
+            }
+            Prop("deviceUrn") { view: ExpoIVSRemoteStreamView, deviceUrn: String? ->
+                view.setDeviceUrn(deviceUrn)
+            }
+        }
+    }
+
+    // --- Config Parsing ---
+
+    /**
+     * Builds a StageAudioConfiguration plus the session-level processing options from the JS `LocalAudioConfig` map.
+     * Returns null for an absent or empty map so the manager keeps its current configuration.
+     */
+    private fun parseAudioConfig(map: Map<String, Any>?): Pair<StageAudioConfiguration, LocalAudioProcessing>? {
+        if (map.isNullOrEmpty()) return null
+
+        val processing = LocalAudioProcessing(
+            echoCancellation = map["echoCancellation"] as? Boolean ?: true,
+            autoGainControl = map["autoGainControl"] as? Boolean ?: true,
+            noiseSuppression = map["noiseSuppression"] as? Boolean ?: true
+        )
+        val config = StageAudioConfiguration().apply {
+            (map["bitrate"] as? Number)?.let { maxBitrate = it.toInt() }
+            setEnableNoiseSuppression(processing.noiseSuppression)
+        }
+        return Pair(config, processing)
+    }
+
+    /**
+     * Builds a StageVideoConfiguration from the JS `LocalVideoConfig` map.
+     * Returns null for an absent or empty map so the manager keeps its current configuration.
+     * Values are validated in JS; the SDK setters throw if anything slips through.
+     */
+    private fun parseVideoConfig(map: Map<String, Any>?): StageVideoConfiguration? {
+        if (map.isNullOrEmpty()) return null
+
+        return StageVideoConfiguration().apply {
+            val width = (map["width"] as? Number)?.toFloat() ?: 720F
+            val height = (map["height"] as? Number)?.toFloat() ?: 1280F
+            setSize(BroadcastConfiguration.Vec2(width, height))
+
+            (map["targetFramerate"] as? Number)?.let { targetFramerate = it.toInt() }
+            // The SDK checks each bound against the other's current value, so apply them in an order that never crosses:
+            // a range above the current max raises the max first, anything else lowers the min first
+            val newMaxBitrate = (map["maxBitrate"] as? Number)?.toInt() ?: maxBitrate
+            val newMinBitrate = (map["minBitrate"] as? Number)?.toInt() ?: minBitrate
+            if (newMinBitrate > maxBitrate) {
+                maxBitrate = newMaxBitrate
+                minBitrate = newMinBitrate
+            } else {
+                minBitrate = newMinBitrate
+                maxBitrate = newMaxBitrate
+            }
+
+            degradationPreference = when (map["degradationPreference"] as? String) {
+                "maintain_framerate" -> StageVideoConfiguration.DegradationPreference.MAINTAIN_FRAMERATE
+                "maintain_resolution" -> StageVideoConfiguration.DegradationPreference.MAINTAIN_RESOLUTION
+                else -> StageVideoConfiguration.DegradationPreference.BALANCED
+            }
+
+            ((map["simulcast"] as? Map<*, *>)?.get("enabled") as? Boolean)?.let {
+                simulcast.setEnabled(it)
+            }
         }
     }
 
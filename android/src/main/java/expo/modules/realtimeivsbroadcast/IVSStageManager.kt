@@ -1,16 +1,46 @@
 package expo.modules.realtimeivsbroadcast
 
 import android.content.Context
+import android.media.AudioDeviceCallback
+import android.media.AudioDeviceInfo
+import android.media.AudioManager
 import android.os.Build
 import android.os.Handler
 import android.os.Looper
 import com.amazonaws.ivs.broadcast.*
 import android.util.Log
 import androidx.annotation.RequiresApi
+import expo.modules.kotlin.exception.CodedException
 import java.lang.ref.WeakReference
 
+class DeviceNotFoundException(type: String, urn: String) : CodedException("No $type device found with URN $urn")
+
+// Mapped to CameraControlUnsupportedError in JS
+class CameraControlUnsupportedException(control: String) : CodedException("The active camera does not support $control")
+
+class NoActiveCameraException : CodedException("No camera is active. Initialize local streams with video enabled first.")
+
+// Mapped to PlaceholderUnsupportedError in JS
+class PlaceholderUnsupportedException : CodedException("Camera-muted placeholders are not supported on Android yet")
+
 // Custom class to hold combined state, mirroring the Swift version
-class StageParticipant(val info: ParticipantInfo, var streams: MutableList<StageStream> = mutableListOf())
+class StageParticipant(
+    val info: ParticipantInfo,
+    var streams: MutableList<StageStream> = mutableListOf(),
+    // When this client saw the participant join; the SDK does not report it
+    val joinedAt: Long = System.currentTimeMillis()
+)
+
+// Audio processing is applied through StageAudioManager presets rather than per-stream configuration
+data class LocalAudioProcessing(
+    val echoCancellation: Boolean = true,
+    val autoGainControl: Boolean = true,
+    val noiseSuppression: Boolean = true
+) {
+    // The VIDEO_CHAT preset enables echo cancellation and gain control together (and captures mono);
+    // STUDIO captures stereo, so the preset alone decides the channel count
+    val usesVoiceProcessing: Boolean get() = echoCancellation || autoGainControl
+}
 
 // Delegate for emitting events back to the module
 interface IVSStageManagerDelegate {
@@ -26,14 +56,55 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
     private var cameraStream: ImageLocalStageStream? = null
     private var microphoneStream: AudioLocalStageStream? = null
     private var stageConfiguration: StageConfiguration = StageConfiguration()
+    private var audioProcessing = LocalAudioProcessing()
+    // false = audio-only, no camera stream is created
+    private var isVideoEnabled: Boolean = true
     private val mainHandler = Handler(Looper.getMainLooper())
 
     // To keep track of available cameras for swapping
     private var availableCameras: List<Device> = emptyList()
+    // Reused so devices listed by listDevices() are the same instances the streams use
+    private val deviceDiscovery by lazy { DeviceDiscovery(context) }
+
+    // Reports microphones (Bluetooth, USB, wired) being connected or disconnected
+    private val audioDeviceCallback = object : AudioDeviceCallback() {
+        override fun onAudioDevicesAdded(addedDevices: Array<out AudioDeviceInfo>) {
+            if (addedDevices.any { it.isSource }) emitDevicesChanged()
+        }
+
+        override fun onAudioDevicesRemoved(removedDevices: Array<out AudioDeviceInfo>) {
+            if (removedDevices.any { it.isSource }) emitDevicesChanged()
+        }
+    }
 
     var delegate: IVSStageManagerDelegate? = null
 
     private var isPublishingActive: Boolean = false
+    // Media kinds to publish while publishing is active, set through setPublishedMedia
+    private var publishAudio: Boolean = true
+    private var publishVideo: Boolean = true
+    // Last publish state reported by the SDK, so media changes can be re-reported without a state change
+    private var localPublishState: Stage.PublishState = Stage.PublishState.NOT_PUBLISHED
+    // Our own participant ID on the current stage, reported through onParticipantJoined
+    private var localParticipantId: String? = null
+    // Callbacks waiting for a stream's RTC stats, keyed by device URN. Only touched on the main thread.
+    private val pendingStatsRequests = mutableMapOf<String, MutableList<(Map<String, Map<String, String>>) -> Unit>>()
+    // Audio level reporting, enabled through setAudioLevelsInterval
+    private var audioLevelsIntervalMs: Long? = null
+    private val audioLevelsTick = object : Runnable {
+        override fun run() {
+            emitAudioLevels()
+            audioLevelsIntervalMs?.let { mainHandler.postDelayed(this, it) }
+        }
+    }
+    // Loudest RMS (dBFS) per device URN since the last report. Written from audio callback threads.
+    private val audioLevelPeaks = mutableMapOf<String, Float>()
+    // Devices with a stats callback attached, keyed by URN. Only touched on the main thread.
+    private var audioLevelDevices = mapOf<String, AudioDevice>()
+
+    // Subscribe strategy set from JS; overrides are keyed by participant ID
+    private var defaultSubscribeType: Stage.SubscribeType = Stage.SubscribeType.AUDIO_VIDEO
+    private var subscribeTypeOverrides: Map<String, Stage.SubscribeType> = emptyMap()
 
     // State management properties
     val participants = mutableListOf<StageParticipant>()
@@ -42,6 +113,11 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
     private var targetParticipantId: String? = null
 
     companion object {
+        // How long to wait for streams to answer a stats request
+        private const val STATS_TIMEOUT_MS = 2000L
+        // RMS at or below this maps to level 0
+        private const val AUDIO_LEVEL_FLOOR_DB = -60f
+
         @JvmStatic
         var instance: IVSStageManager? = null
             private set
@@ -49,11 +125,11 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
 
     init {
         instance = this
+        (context.getSystemService(Context.AUDIO_SERVICE) as AudioManager).registerAudioDeviceCallback(audioDeviceCallback, mainHandler)
         Log.i("ExpoIVSStageManager", "✅ IVSStageManager singleton instance created")
     }
 
     private fun discoverDevices() {
-        val deviceDiscovery = DeviceDiscovery(context)
         val devices = deviceDiscovery.listLocalDevices()
         Log.i("ExpoIVSStageManager", "Discovered devices: ${devices.joinToString { it.descriptor.friendlyName }}")
 
@@ -81,10 +157,30 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
         return localCamera?.descriptor?.position == Device.Descriptor.Position.FRONT
     }
 
-    fun initializeLocalStreams() {
+    fun initializeLocalStreams(
+        audioConfig: StageAudioConfiguration? = null,
+        audioProcessing: LocalAudioProcessing? = null,
+        videoConfig: StageVideoConfiguration? = null,
+        videoEnabled: Boolean? = null
+    ) {
         discoverDevices()
+        audioProcessing?.let { applyAudioProcessing(it) }
+        videoEnabled?.let { isVideoEnabled = it }
 
-        if (cameraStream == null && localCamera != null) {
+        // Configs passed here override the ones stored by initializeStage, so rebuild the affected streams
+        audioConfig?.let {
+            stageConfiguration.audioConfiguration = it
+            microphoneStream = null
+        }
+        videoConfig?.let {
+            stageConfiguration.videoConfiguration = it
+            cameraStream = null
+        }
+
+        if (!isVideoEnabled) {
+            Log.i("ExpoIVSStageManager", "📸 Video disabled - skipping camera stream (audio-only)")
+            cameraStream = null
+        } else if (cameraStream == null && localCamera != null) {
             cameraStream = ImageLocalStageStream(localCamera!!, this.stageConfiguration.videoConfiguration)
         }
         if (microphoneStream == null && localMicrophone != null) {
@@ -94,23 +190,62 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
         Log.i("ExpoIVSStageManager", "✅ IVSStageManager: Local streams initialized.")
     }
 
-    fun initializeStage(audioConfig: StageAudioConfiguration? = null, videoConfig: StageVideoConfiguration? = null) {
-        // Setup audio configuration
-        val audioConfiguration = StageAudioConfiguration()
-        val finalAudioConfig = audioConfig ?: audioConfiguration
-        finalAudioConfig.maxBitrate?.let { (it as? Number)?.toInt()?.let { br -> finalAudioConfig.maxBitrate = br } }
-
-        // Setup video configuration
-        val videoConfiguration = StageVideoConfiguration()
-        val finalVideoConfig = videoConfig ?: videoConfiguration
-        finalVideoConfig.targetFramerate?.let { (it as? Number)?.toInt()?.let { fr -> finalVideoConfig.targetFramerate = fr } }
-        finalVideoConfig.maxBitrate?.let { (it as? Number)?.toInt()?.let { br -> finalVideoConfig.maxBitrate = br } }
-        finalVideoConfig.minBitrate?.let { (it as? Number)?.toInt()?.let { br -> finalVideoConfig.minBitrate = br } }
-        finalVideoConfig.setSize(
-            BroadcastConfiguration.Vec2(
-                720F, 1280F
+    /**
+     * Reports the configuration applied to the local streams, mirroring `LocalStreamsConfiguration` in JS
+     */
+    fun effectiveStreamsConfiguration(): Map<String, Any?> {
+        val audio = if (microphoneStream != null) {
+            val voiceProcessing = audioProcessing.usesVoiceProcessing
+            mapOf(
+                "bitrate" to stageConfiguration.audioConfiguration.maxBitrate,
+                "channels" to if (voiceProcessing) 1 else 2,
+                "echoCancellation" to voiceProcessing,
+                "autoGainControl" to voiceProcessing,
+                "noiseSuppression" to audioProcessing.noiseSuppression
             )
-        )
+        } else null
+
+        val video = if (cameraStream != null) {
+            val config = stageConfiguration.videoConfiguration
+            mapOf(
+                "width" to config.size.x.toInt(),
+                "height" to config.size.y.toInt(),
+                "targetFramerate" to config.targetFramerate,
+                "minBitrate" to config.minBitrate,
+                "maxBitrate" to config.maxBitrate
+            )
+        } else null
+
+        return mapOf("audio" to audio, "video" to video)
+    }
+
+    private fun applyAudioProcessing(processing: LocalAudioProcessing) {
+        audioProcessing = processing
+        val preset = if (processing.usesVoiceProcessing) {
+            StageAudioManager.UseCasePreset.VIDEO_CHAT
+        } else {
+            StageAudioManager.UseCasePreset.STUDIO
+        }
+        StageAudioManager.getInstance(context).setPreset(preset)
+        Log.i("ExpoIVSStageManager", "✅ IVSStageManager: Audio preset set to ${preset.name}")
+    }
+
+    fun initializeStage(
+        audioConfig: StageAudioConfiguration? = null,
+        audioProcessing: LocalAudioProcessing? = null,
+        videoConfig: StageVideoConfiguration? = null,
+        videoEnabled: Boolean? = null
+    ) {
+        audioProcessing?.let { applyAudioProcessing(it) }
+        videoEnabled?.let { isVideoEnabled = it }
+
+        // Setup audio configuration
+        val finalAudioConfig = audioConfig ?: StageAudioConfiguration()
+
+        // Setup video configuration (720p portrait unless JS provided one)
+        val finalVideoConfig = videoConfig ?: StageVideoConfiguration().apply {
+            setSize(BroadcastConfiguration.Vec2(720F, 1280F))
+        }
 
         this.stageConfiguration.audioConfiguration = finalAudioConfig
         this.stageConfiguration.videoConfiguration = finalVideoConfig
@@ -130,7 +265,12 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
                 Log.i("ExpoIVSStageManager", "✅ IVSStageManager: Stage join() method called on main thread.")
             } catch (e: BroadcastException) {
                 Log.e("ExpoIVSStageManager", "❌ Error joining stage: ${e.message}")
-                delegate?.stageManagerDidEmitEvent("onStageError", mapOf("description" to "Failed to join stage: ${e.message}"))
+                delegate?.stageManagerDidEmitEvent("onStageError", mapOf(
+                    "code" to e.code,
+                    "description" to "Failed to join stage: ${e.message}",
+                    "source" to "IVSStageManager.joinStage",
+                    "isFatal" to true
+                ))
             }
         }
     }
@@ -150,6 +290,43 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
         Log.i("ExpoIVSStageManager", "✅ IVSStageManager: Publishing state set to $published. Refreshing strategy.")
     }
     
+    fun setPublishedMedia(audio: Boolean, video: Boolean) {
+        publishAudio = audio
+        publishVideo = video
+        stage?.refreshStrategy()
+        Log.i("ExpoIVSStageManager", "✅ Published media set to audio=$audio, video=$video. Refreshing strategy.")
+        // The publish state itself does not change, so report the new media explicitly
+        if (localPublishState == Stage.PublishState.PUBLISHED) {
+            delegate?.stageManagerDidEmitEvent("onPublishStateChanged", publishStatePayload(localPublishState))
+        }
+    }
+
+    fun publishedMedia(): Map<String, Boolean> = mapOf("audio" to publishAudio, "video" to publishVideo)
+
+    private fun publishStatePayload(state: Stage.PublishState): Map<String, Any?> {
+        val live = state == Stage.PublishState.PUBLISHED
+        return mapOf(
+            "state" to state.name.lowercase(),
+            "media" to mapOf(
+                "audio" to (live && publishAudio && microphoneStream != null),
+                "video" to (live && publishVideo && cameraStream != null)
+            )
+        )
+    }
+
+    fun setSubscribeStrategy(defaultType: String, overrides: Map<String, String>) {
+        defaultSubscribeType = subscribeType(defaultType)
+        subscribeTypeOverrides = overrides.mapValues { subscribeType(it.value) }
+        stage?.refreshStrategy()
+        Log.i("ExpoIVSStageManager", "✅ Subscribe strategy set to $defaultType with ${overrides.size} override(s). Refreshing strategy.")
+    }
+
+    private fun subscribeType(value: String): Stage.SubscribeType = when (value) {
+        "audio_only" -> Stage.SubscribeType.AUDIO_ONLY
+        "none" -> Stage.SubscribeType.NONE
+        else -> Stage.SubscribeType.AUDIO_VIDEO
+    }
+
     fun setMicrophoneMuted(muted: Boolean) {
         microphoneStream?.muted = muted
         Log.i("ExpoIVSStageManager", "✅ Microphone muted: $muted")
@@ -170,7 +347,71 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
         }
         
         Log.i("ExpoIVSStageManager", "🔄 Swapping camera from ${currentDevice.descriptor.friendlyName} to ${newCamera.descriptor.friendlyName}")
-        
+        switchCamera(newCamera)
+    }
+
+    fun selectCamera(urn: String) {
+        val camera = deviceDiscovery.listLocalDevices().firstOrNull {
+            it.descriptor.type == Device.Descriptor.DeviceType.CAMERA && it.descriptor.urn == urn
+        } ?: throw DeviceNotFoundException("camera", urn)
+
+        if (cameraStream == null) {
+            // Picked up when the local streams are created
+            localCamera = camera
+            Log.i("ExpoIVSStageManager", "✅ Camera selected: ${camera.descriptor.friendlyName}")
+            return
+        }
+        if (localCamera?.descriptor?.urn == urn) return
+        switchCamera(camera)
+    }
+
+    fun selectMicrophone(urn: String) {
+        val microphone = deviceDiscovery.listLocalDevices().firstOrNull {
+            it.descriptor.type == Device.Descriptor.DeviceType.MICROPHONE && it.descriptor.urn == urn
+        } ?: throw DeviceNotFoundException("microphone", urn)
+
+        localMicrophone = microphone
+        val oldStream = microphoneStream ?: run {
+            Log.i("ExpoIVSStageManager", "✅ Microphone selected: ${microphone.descriptor.friendlyName}")
+            return
+        }
+        if (oldStream.device.descriptor.urn == urn) return
+        microphoneStream = AudioLocalStageStream(microphone, this.stageConfiguration.audioConfiguration).apply {
+            muted = oldStream.muted
+        }
+        stage?.refreshStrategy()
+        Log.i("ExpoIVSStageManager", "✅ Microphone switched to: ${microphone.descriptor.friendlyName}")
+    }
+
+    // Cameras and microphones the app can select, mirroring `MediaDevice` in JS
+    fun listDevices(): List<Map<String, Any?>> {
+        return deviceDiscovery.listLocalDevices()
+            .filter {
+                it.descriptor.type == Device.Descriptor.DeviceType.CAMERA ||
+                    it.descriptor.type == Device.Descriptor.DeviceType.MICROPHONE
+            }
+            .map { devicePayload(it.descriptor) }
+    }
+
+    private fun devicePayload(descriptor: Device.Descriptor): Map<String, Any?> {
+        val position = when (descriptor.position) {
+            Device.Descriptor.Position.FRONT -> "front"
+            Device.Descriptor.Position.BACK -> "back"
+            Device.Descriptor.Position.BLUETOOTH -> "bluetooth"
+            Device.Descriptor.Position.USB -> "usb"
+            Device.Descriptor.Position.AUXILIARY -> "auxiliary"
+            else -> "other"
+        }
+        val type = if (descriptor.type == Device.Descriptor.DeviceType.CAMERA) "camera" else "microphone"
+        return mapOf("urn" to descriptor.urn, "name" to descriptor.friendlyName, "type" to type, "position" to position)
+    }
+
+    private fun emitDevicesChanged() {
+        delegate?.stageManagerDidEmitEvent("onDevicesChanged", mapOf("devices" to listDevices()))
+    }
+
+    private fun switchCamera(newCamera: Device) {
+
         // First, notify preview views to clear their current preview
         // This releases the old camera's preview before we switch
         previewViews.mapNotNull { it.get() }.forEach { view ->
@@ -195,6 +436,11 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
         stage?.refreshStrategy()
         
         Log.i("ExpoIVSStageManager", "✅ Camera swapped to: ${newCamera.descriptor.friendlyName}, URN: ${newCamera.descriptor.urn}")
+        delegate?.stageManagerDidEmitEvent("onCameraSwapped", mapOf(
+            "device" to devicePayload(newCamera.descriptor),
+            "newCameraURN" to newCamera.descriptor.urn,
+            "newCameraName" to newCamera.descriptor.friendlyName
+        ))
         
         // Delay the preview refresh to allow the new camera stream to fully initialize
         // The back camera especially needs more time to warm up
@@ -281,9 +527,12 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
         
         // Clean up null weak references
         remoteViews.removeAll { it.get() == null }
+
+        // Views with participantId/deviceUrn props render exactly the stream they select
+        assignBoundViews()
         
         val renderedUrns = remoteViews.mapNotNull { it.get()?.currentRenderedDeviceUrn }.toSet()
-        val availableViews = remoteViews.mapNotNull { it.get() }.filter { it.currentRenderedDeviceUrn == null }
+        val availableViews = remoteViews.mapNotNull { it.get() }.filter { !it.isBound && it.currentRenderedDeviceUrn == null }
 
         Log.i("ExpoIVSStageManager", "🧠 [MANAGER] Rendered URNs: $renderedUrns")
         Log.i("ExpoIVSStageManager", "🧠 [MANAGER] Available views count: ${availableViews.size}")
@@ -312,7 +561,39 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
 
         availableViews.zip(availableStreams).forEach { (view, streamInfo) ->
             Log.i("ExpoIVSStageManager", "🧠 [MANAGER] Assigning stream ${streamInfo.second.device.descriptor.urn} to a view.")
-            view.renderStream(device = streamInfo.second.device)
+            view.renderStream(device = streamInfo.second.device, participantId = streamInfo.first)
+        }
+    }
+
+    // Re-run stream assignment, e.g. after a view's binding props changed
+    fun requestStreamAssignment() {
+        mainHandler.post { assignStreamsToAvailableViews() }
+    }
+
+    private fun assignBoundViews() {
+        val views = remoteViews.mapNotNull { it.get() }
+        views.filter { it.isBound }.forEach { view ->
+            val target = participants.firstNotNullOfOrNull { p ->
+                p.streams
+                    .firstOrNull { it.streamType == StageStream.Type.VIDEO && view.matches(p.info.participantId, it.device.descriptor.urn) }
+                    ?.let { Pair(p.info.participantId, it) }
+            }
+
+            if (target == null) {
+                if (view.currentRenderedDeviceUrn != null) {
+                    Log.i("ExpoIVSStageManager", "🧠 [MANAGER] Bound view has no matching stream, clearing it")
+                    view.clearStream()
+                }
+                return@forEach
+            }
+
+            val urn = target.second.device.descriptor.urn
+            if (view.currentRenderedDeviceUrn == urn) return@forEach
+
+            // Take the stream back from any unbound view that picked it up first
+            views.filter { !it.isBound && it.currentRenderedDeviceUrn == urn }.forEach { it.clearStream() }
+            Log.i("ExpoIVSStageManager", "🧠 [MANAGER] Assigning bound stream $urn to a view.")
+            view.renderStream(device = target.second.device, participantId = target.first)
         }
     }
 
@@ -321,8 +602,8 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
         if (!isPublishingActive) return mutableListOf()
 
         val streams = mutableListOf<LocalStageStream>()
-        cameraStream?.let { streams.add(it) }
-        microphoneStream?.let { streams.add(it) }
+        if (publishVideo) cameraStream?.let { streams.add(it) }
+        if (publishAudio) microphoneStream?.let { streams.add(it) }
         return streams
     }
 
@@ -331,7 +612,8 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
     }
 
     override fun shouldSubscribeToParticipant(stage: Stage, participantInfo: ParticipantInfo): Stage.SubscribeType {
-        return if (participantInfo.isLocal) Stage.SubscribeType.NONE else Stage.SubscribeType.AUDIO_VIDEO
+        if (participantInfo.isLocal) return Stage.SubscribeType.NONE
+        return subscribeTypeOverrides[participantInfo.participantId] ?: defaultSubscribeType
     }
 
     // MARK: - Stage.Renderer Implementation
@@ -346,15 +628,22 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
 
         if (state == Stage.ConnectionState.DISCONNECTED) {
             this.isPublishingActive = false
+            this.localPublishState = Stage.PublishState.NOT_PUBLISHED
+            this.localParticipantId = null
             this.stage = null
             this.participants.clear()
         }
     }
 
     override fun onParticipantJoined(stage: Stage, participantInfo: ParticipantInfo) {
-        if (participantInfo.isLocal) return
-        participants.add(StageParticipant(info = participantInfo))
-        delegate?.stageManagerDidEmitEvent("onParticipantJoined", mapOf("participantId" to participantInfo.participantId))
+        if (participantInfo.isLocal) {
+            localParticipantId = participantInfo.participantId
+            return
+        }
+        // The SDK can report the same participant twice across reconnects; keep one entry per ID
+        val participant = participants.firstOrNull { it.info.participantId == participantInfo.participantId }
+            ?: StageParticipant(info = participantInfo).also { participants.add(it) }
+        delegate?.stageManagerDidEmitEvent("onParticipantJoined", participantPayload(participantInfo, participant.joinedAt))
         Log.i("ExpoIVSStageManager", "✅ Renderer: Participant joined: ${participantInfo.participantId}")
     }
 
@@ -373,7 +662,7 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
         }
 
         participants.removeAll { it.info.participantId == participantInfo.participantId }
-        delegate?.stageManagerDidEmitEvent("onParticipantLeft", mapOf("participantId" to participantInfo.participantId))
+        delegate?.stageManagerDidEmitEvent("onParticipantLeft", participantPayload(participantInfo, leavingParticipant?.joinedAt ?: System.currentTimeMillis()))
         Log.i("ExpoIVSStageManager", "✅ Renderer: Participant left: ${participantInfo.participantId}")
     }
 
@@ -381,16 +670,12 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
         if (participantInfo.isLocal) return
 
         val participant = participants.firstOrNull { it.info.participantId == participantInfo.participantId }
-        participant?.streams?.addAll(streams)
-
-        val streamDicts = streams.map { stream ->
-            val mediaType = when (stream.streamType) {
-                StageStream.Type.AUDIO -> "audio"
-                StageStream.Type.VIDEO -> "video"
-                else -> "unknown"
-            }
-            mapOf("deviceUrn" to stream.device.descriptor.urn, "mediaType" to mediaType)
+        participant?.let { p ->
+            val knownUrns = p.streams.map { it.device.descriptor.urn }.toSet()
+            p.streams.addAll(streams.filter { it.device.descriptor.urn !in knownUrns })
         }
+
+        val streamDicts = streams.map { streamPayload(it) }
         delegate?.stageManagerDidEmitEvent("onParticipantStreamsAdded", mapOf("participantId" to participantInfo.participantId, "streams" to streamDicts))
         
         if (streams.any { it.streamType == StageStream.Type.VIDEO }) {
@@ -399,6 +684,198 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
         Log.i("ExpoIVSStageManager", "✅ Renderer: ${streams.size} streams added for ${participantInfo.participantId}")
     }
 
+    // MARK: - RTC Stats
+
+    // Collects RTC stats for the local and remote streams matching the filters. Must be called on the main thread.
+    fun requestStreamStats(participantId: String?, deviceUrn: String?, completion: (List<Map<String, Any?>>) -> Unit) {
+        if (stage == null) {
+            completion(emptyList())
+            return
+        }
+
+        val targets = mutableListOf<Triple<String, Boolean, StageStream>>()
+        if (participantId == null || participantId == localParticipantId) {
+            listOfNotNull<StageStream>(cameraStream, microphoneStream).forEach { targets.add(Triple(localParticipantId ?: "", true, it)) }
+        }
+        participants.filter { participantId == null || it.info.participantId == participantId }.forEach { participant ->
+            participant.streams.forEach { targets.add(Triple(participant.info.participantId, false, it)) }
+        }
+        if (deviceUrn != null) {
+            targets.removeAll { it.third.device.descriptor.urn != deviceUrn }
+        }
+        if (targets.isEmpty()) {
+            completion(emptyList())
+            return
+        }
+
+        val results = mutableListOf<Map<String, Any?>>()
+        var remaining = targets.size
+        var finished = false
+        val finish = {
+            if (!finished) {
+                finished = true
+                completion(results)
+            }
+        }
+
+        for ((targetParticipantId, isLocal, stream) in targets) {
+            val urn = stream.device.descriptor.urn
+            pendingStatsRequests.getOrPut(urn) { mutableListOf() }.add { reports ->
+                results.add(streamPayload(stream) + mapOf("participantId" to targetParticipantId, "isLocal" to isLocal, "reports" to reports))
+                remaining -= 1
+                if (remaining == 0) finish()
+            }
+            try {
+                // The listener is not told which stream answered, so each stream gets its own
+                stream.setListener(object : StageStream.Listener {
+                    override fun onMutedChanged(muted: Boolean) {}
+
+                    override fun onRTCStats(statsMap: Map<String, Map<String, String>>) {
+                        mainHandler.post { pendingStatsRequests.remove(urn)?.forEach { it(statsMap) } }
+                    }
+                })
+                stream.requestRTCStats()
+            } catch (e: Exception) {
+                Log.w("ExpoIVSStageManager", "⚠️ Failed to request RTC stats for $urn: ${e.message}")
+                pendingStatsRequests[urn]?.removeLastOrNull()
+                remaining -= 1
+            }
+        }
+        if (remaining == 0) {
+            finish()
+            return
+        }
+
+        // Streams that are not flowing yet may never answer
+        mainHandler.postDelayed({
+            if (!finished) {
+                targets.forEach { pendingStatsRequests.remove(it.third.device.descriptor.urn) }
+                finish()
+            }
+        }, STATS_TIMEOUT_MS)
+    }
+
+    // MARK: - Camera Controls
+
+    // The SDK opens and drives the camera itself and exposes no zoom, torch, focus or exposure controls,
+    // so every control is reported as unsupported
+    fun cameraCapabilities(): Map<String, Any?> {
+        if (cameraStream == null) throw NoActiveCameraException()
+        return mapOf(
+            "minZoom" to 1.0,
+            "maxZoom" to 1.0,
+            "zoom" to 1.0,
+            "hasTorch" to false,
+            "torch" to false,
+            "supportsFocusPoint" to false,
+            "minExposureBias" to 0.0,
+            "maxExposureBias" to 0.0,
+            "exposureBias" to 0.0
+        )
+    }
+
+    fun rejectCameraControl(control: String) {
+        if (cameraStream == null) throw NoActiveCameraException()
+        throw CameraControlUnsupportedException(control)
+    }
+
+    // MARK: - Audio Levels
+
+    // Start emitting onAudioLevels every intervalMs, or stop when null. Must be called on the main thread.
+    fun setAudioLevelsInterval(intervalMs: Long?) {
+        mainHandler.removeCallbacks(audioLevelsTick)
+        audioLevelsIntervalMs = intervalMs?.takeIf { it > 0 }
+        val interval = audioLevelsIntervalMs
+        if (interval == null) {
+            detachAudioLevelCallbacks()
+            return
+        }
+        mainHandler.postDelayed(audioLevelsTick, interval)
+        Log.i("ExpoIVSStageManager", "✅ Reporting audio levels every ${interval}ms")
+    }
+
+    // Audio streams to report, as (participantId, isLocal, device)
+    private fun audioLevelSources(): List<Triple<String, Boolean, AudioDevice>> {
+        if (stage == null) return emptyList()
+        val sources = mutableListOf<Triple<String, Boolean, AudioDevice>>()
+        (microphoneStream?.device as? AudioDevice)?.let { sources.add(Triple(localParticipantId ?: "", true, it)) }
+        participants.forEach { participant ->
+            participant.streams.mapNotNull { it.device as? AudioDevice }.forEach {
+                sources.add(Triple(participant.info.participantId, false, it))
+            }
+        }
+        return sources
+    }
+
+    private fun emitAudioLevels() {
+        val sources = audioLevelSources()
+        val peaks = synchronized(audioLevelPeaks) {
+            audioLevelPeaks.toMap().also { audioLevelPeaks.clear() }
+        }
+
+        // Streams come and go between reports; attach to new ones and let go of departed ones
+        val currentUrns = sources.map { it.third.descriptor.urn }.toSet()
+        audioLevelDevices.filterKeys { it !in currentUrns }.values.forEach { it.setStatsCallback(null) }
+        audioLevelDevices = sources.associate { (_, _, device) ->
+            val urn = device.descriptor.urn
+            if (!audioLevelDevices.containsKey(urn)) {
+                device.setStatsCallback { _, rms ->
+                    synchronized(audioLevelPeaks) {
+                        audioLevelPeaks[urn] = maxOf(audioLevelPeaks[urn] ?: Float.NEGATIVE_INFINITY, rms)
+                    }
+                }
+            }
+            urn to device
+        }
+
+        if (sources.isEmpty()) return
+        val levels = sources.map { (participantId, isLocal, device) ->
+            val urn = device.descriptor.urn
+            val rms = peaks[urn] ?: Float.NEGATIVE_INFINITY
+            val level = ((rms - AUDIO_LEVEL_FLOOR_DB) / -AUDIO_LEVEL_FLOOR_DB).coerceIn(0f, 1f)
+            mapOf("participantId" to participantId, "deviceUrn" to urn, "isLocal" to isLocal, "level" to level.toDouble())
+        }
+        delegate?.stageManagerDidEmitEvent("onAudioLevels", mapOf("levels" to levels))
+    }
+
+    private fun detachAudioLevelCallbacks() {
+        audioLevelDevices.values.forEach { it.setStatsCallback(null) }
+        audioLevelDevices = emptyMap()
+        synchronized(audioLevelPeaks) { audioLevelPeaks.clear() }
+    }
+
+    // Payload for a remote stream, shared by stream events and participantsSnapshot()
+    private fun streamPayload(stream: StageStream): Map<String, Any?> {
+        val mediaType = when (stream.streamType) {
+            StageStream.Type.AUDIO -> "audio"
+            StageStream.Type.VIDEO -> "video"
+            else -> "unknown"
+        }
+        return mapOf("deviceUrn" to stream.device.descriptor.urn, "mediaType" to mediaType, "muted" to stream.muted)
+    }
+
+    // Payload describing a participant, shared by participant events and participantsSnapshot()
+    private fun participantPayload(info: ParticipantInfo, joinedAt: Long): Map<String, Any?> {
+        val payload = mutableMapOf<String, Any?>(
+            "participantId" to info.participantId,
+            "attributes" to info.attributes,
+            "isLocal" to info.isLocal,
+            "joinedAt" to joinedAt.toDouble()
+        )
+        info.userId?.takeIf { it.isNotEmpty() }?.let { payload["userId"] = it }
+        return payload
+    }
+
+    // Remote participants currently on the stage, in the same shape as `Participant` in JS
+    fun participantsSnapshot(): List<Map<String, Any?>> {
+        return participants.map { participant ->
+            val entry = participantPayload(participant.info, participant.joinedAt).toMutableMap()
+            entry["id"] = entry.remove("participantId")
+            entry["streams"] = participant.streams.map { streamPayload(it) }
+            entry
+        }
+    }
+
     override fun onStreamsRemoved(stage: Stage, participantInfo: ParticipantInfo, streams: MutableList<StageStream>) {
         if (participantInfo.isLocal) return
 
@@ -420,17 +897,25 @@ class IVSStageManager(private val context: Context) : Stage.Strategy, StageRende
     
     override fun onParticipantPublishStateChanged(stage: Stage, participantInfo: ParticipantInfo, state: Stage.PublishState) {
         if (!participantInfo.isLocal) return
-        val stateStr = state.name.lowercase()
-        delegate?.stageManagerDidEmitEvent("onPublishStateChanged", mapOf("state" to stateStr))
-        Log.i("ExpoIVSStageManager", "✅ Renderer: Local participant publish state changed to $stateStr")
+        localPublishState = state
+        delegate?.stageManagerDidEmitEvent("onPublishStateChanged", publishStatePayload(state))
+        Log.i("ExpoIVSStageManager", "✅ Renderer: Local participant publish state changed to ${state.name.lowercase()}")
     }
     
     override fun onStreamsMutedChanged(stage: Stage, participantInfo: ParticipantInfo, streams: MutableList<StageStream>) {
-        // Not implemented in a meaningful way in iOS version, but can be added here if needed
+        if (participantInfo.isLocal) return
+        val streamDicts = streams.map { streamPayload(it) }
+        delegate?.stageManagerDidEmitEvent("onParticipantStreamsMutedChanged", mapOf("participantId" to participantInfo.participantId, "streams" to streamDicts))
+        Log.i("ExpoIVSStageManager", "✅ Renderer: ${streams.size} streams changed mute state for ${participantInfo.participantId}")
     }
     
     override fun onError(exception: BroadcastException) {
-        delegate?.stageManagerDidEmitEvent("onStageError", mapOf("description" to exception.localizedMessage))
+        delegate?.stageManagerDidEmitEvent("onStageError", mapOf(
+            "code" to exception.code,
+            "description" to exception.localizedMessage,
+            "source" to exception.source,
+            "isFatal" to exception.isFatal
+        ))
         Log.e("ExpoIVSStageManager", "❌ Renderer: Received error: ${exception.localizedMessage}")
     }
 }
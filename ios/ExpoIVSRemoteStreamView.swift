@@ -8,13 +8,36 @@ class ExpoIVSRemoteStreamView: ExpoView {
     private var ivsImagePreviewView: IVSImagePreviewView?
     private weak var stageManager: IVSStageManager?
     
-    // This is the only state this view needs: what is it currently rendering?
+    // What is this view currently rendering?
     private(set) var currentRenderedDeviceUrn: String?
+    private(set) var currentRenderedParticipantId: String?
+
+    let onStreamAttached = EventDispatcher()
+    let onStreamDetached = EventDispatcher()
+    let onFirstFrameRendered = EventDispatcher()
+
+    // Optional binding props. When either is set, the manager only gives this view the matching video stream.
+    var participantId: String? {
+        didSet { if participantId != oldValue { bindingDidChange() } }
+    }
+    var deviceUrn: String? {
+        didSet { if deviceUrn != oldValue { bindingDidChange() } }
+    }
 
-    // No more participantId or deviceUrn props!
     var scaleMode: String = "fill" {
         didSet { updateScaleMode() }
     }
+
+    /// Whether this view renders a specific stream rather than whatever the manager hands out
+    var isBound: Bool {
+        return participantId != nil || deviceUrn != nil
+    }
+
+    func matches(participantId: String, deviceUrn: String) -> Bool {
+        if let boundParticipantId = self.participantId, boundParticipantId != participantId { return false }
+        if let boundDeviceUrn = self.deviceUrn, boundDeviceUrn != deviceUrn { return false }
+        return true
+    }
     
     /// Returns the actual IVS preview view for PiP capture
     /// This is the view that actually displays the video content
@@ -95,6 +118,7 @@ class ExpoIVSRemoteStreamView: ExpoView {
             
             self.ivsImagePreviewView = newPreview
             self.currentRenderedDeviceUrn = deviceUrn
+            self.currentRenderedParticipantId = participantId
             addSubview(newPreview)
 
             newPreview.translatesAutoresizingMaskIntoConstraints = false
@@ -107,6 +131,13 @@ class ExpoIVSRemoteStreamView: ExpoView {
 
             updateScaleMode()
             print("✅ [REMOTE VIEW] Manager commanded me to render URN: \(deviceUrn)")
+
+            onStreamAttached(["participantId": participantId, "deviceUrn": deviceUrn])
+            manager.observeFirstFrame(of: imageDevice) { [weak self] in
+                // Ignore frames from a stream this view has since let go of
+                guard let self = self, self.currentRenderedDeviceUrn == deviceUrn else { return }
+                self.onFirstFrameRendered(["participantId": participantId, "deviceUrn": deviceUrn])
+            }
             
             // Notify the stage manager that a stream started rendering (for PiP)
             // Use a longer delay to ensure the view hierarchy is fully set up
@@ -134,8 +165,22 @@ class ExpoIVSRemoteStreamView: ExpoView {
         if let oldPreview = self.ivsImagePreviewView {
             oldPreview.removeFromSuperview()
             self.ivsImagePreviewView = nil
+            if let urn = self.currentRenderedDeviceUrn {
+                onStreamDetached(["participantId": self.currentRenderedParticipantId ?? "", "deviceUrn": urn])
+            }
             self.currentRenderedDeviceUrn = nil
+            self.currentRenderedParticipantId = nil
+        }
+    }
+
+    private func bindingDidChange() {
+        // Drop a stream that no longer matches the props, then let the manager pick the right one
+        if let urn = currentRenderedDeviceUrn,
+           let renderedParticipantId = currentRenderedParticipantId,
+           isBound && !matches(participantId: renderedParticipantId, deviceUrn: urn) {
+            cleanupStreamView()
         }
+        stageManager?.requestStreamAssignment()
     }
 
     private func updateScaleMode() {
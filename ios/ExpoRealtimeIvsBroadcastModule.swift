@@ -16,7 +16,7 @@ public class ExpoRealtimeIvsBroadcastModule: Module, IVSStageManagerDelegate {
     // The module will be accessible from `requireNativeModule('ExpoRealtimeIvsBroadcast')` in JavaScript.
     Name("ExpoRealtimeIvsBroadcast")
     // Defines event names that the module can send to JavaScript.
-    Events("onStageConnectionStateChanged", "onPublishStateChanged", "onStageError", "onCameraSwapped", "onCameraSwapError", "onParticipantJoined", "onParticipantLeft", "onParticipantStreamsAdded", "onParticipantStreamsRemoved", "onPiPStateChanged", "onPiPError", "onCameraMuteStateChanged")
+    Events("onStageConnectionStateChanged", "onPublishStateChanged", "onStageError", "onCameraSwapped", "onCameraSwapError", "onParticipantJoined", "onParticipantLeft", "onParticipantStreamsAdded", "onParticipantStreamsRemoved", "onParticipantStreamsMutedChanged", "onAudioLevels", "onDevicesChanged", "onPiPStateChanged", "onPiPError", "onCameraMuteStateChanged")
 
     // Initialize the IVSStageManager when the module is created
     // and set self as its delegate.
@@ -28,13 +28,19 @@ public class ExpoRealtimeIvsBroadcastModule: Module, IVSStageManagerDelegate {
     // --- Methods Exposed to JS ---
 
     AsyncFunction("initializeStage") { (audioConfigMap: [String: Any]?, videoConfigMap: [String: Any]?) -> Void in
-      // For now, using nil, which will use default configurations in IVSStageManager
-      self.ivsStageManager?.initializeStage(audioConfig: nil, videoConfig: nil)
+      // Configs are validated in JS; the SDK setters throw if anything slips through
+      let audioConfig = try self.parseAudioConfig(audioConfigMap)
+      let videoConfig = try self.parseVideoConfig(videoConfigMap)
+      let videoEnabled = videoConfigMap?["enabled"] as? Bool
+      self.ivsStageManager?.initializeStage(audioConfig: audioConfig?.stream, audioProcessing: audioConfig?.processing, videoConfig: videoConfig, videoEnabled: videoEnabled)
     }
 
-    AsyncFunction("initializeLocalStreams") { (audioConfigMap: [String: Any]?, videoConfigMap: [String: Any]?) -> Void in
-        // For now, using nil, which will use default configurations in IVSStageManager
-        self.ivsStageManager?.initializeLocalStreams(audioConfig: nil, videoConfig: nil)
+    AsyncFunction("initializeLocalStreams") { (audioConfigMap: [String: Any]?, videoConfigMap: [String: Any]?) -> [String: Any] in
+        let audioConfig = try self.parseAudioConfig(audioConfigMap)
+        let videoConfig = try self.parseVideoConfig(videoConfigMap)
+        let videoEnabled = videoConfigMap?["enabled"] as? Bool
+        self.ivsStageManager?.initializeLocalStreams(audioConfig: audioConfig?.stream, audioProcessing: audioConfig?.processing, videoConfig: videoConfig, videoEnabled: videoEnabled)
+        return self.ivsStageManager?.effectiveStreamsConfiguration() ?? ["audio": NSNull(), "video": NSNull()]
     }
 
     AsyncFunction("joinStage") { (token: String, options: [String: Any]?) in
@@ -50,6 +56,47 @@ public class ExpoRealtimeIvsBroadcastModule: Module, IVSStageManagerDelegate {
       self.ivsStageManager?.setStreamsPublished(published: published)
     }
 
+    AsyncFunction("setPublishedMedia") { (media: [String: Bool]) in
+      self.ivsStageManager?.setPublishedMedia(audio: media["audio"] ?? true, video: media["video"] ?? true)
+    }
+
+    AsyncFunction("getPublishedMedia") { () -> [String: Bool] in
+      return self.ivsStageManager?.publishedMedia() ?? ["audio": true, "video": true]
+    }
+
+    AsyncFunction("listDevices") { () -> [[String: Any]] in
+      return self.ivsStageManager?.listDevices() ?? []
+    }
+
+    AsyncFunction("selectCamera") { (urn: String) in
+      try self.ivsStageManager?.selectCamera(urn: urn)
+    }.runOnQueue(.main)
+
+    AsyncFunction("selectMicrophone") { (urn: String) in
+      try self.ivsStageManager?.selectMicrophone(urn: urn)
+    }
+
+    AsyncFunction("getCameraCapabilities") { () -> [String: Any] in
+      guard let manager = self.ivsStageManager else { throw NoActiveCameraException() }
+      return try manager.cameraCapabilities()
+    }.runOnQueue(.main)
+
+    AsyncFunction("setZoom") { (factor: Double) in
+      try self.ivsStageManager?.setZoom(factor: factor)
+    }.runOnQueue(.main)
+
+    AsyncFunction("setTorch") { (on: Bool) in
+      try self.ivsStageManager?.setTorch(on: on)
+    }.runOnQueue(.main)
+
+    AsyncFunction("setFocusPoint") { (x: Double, y: Double) in
+      try self.ivsStageManager?.setFocusPoint(x: x, y: y)
+    }.runOnQueue(.main)
+
+    AsyncFunction("setExposureBias") { (value: Double) in
+      try self.ivsStageManager?.setExposureBias(value)
+    }.runOnQueue(.main)
+
     AsyncFunction("swapCamera") { 
       self.ivsStageManager?.swapCamera()
     }
@@ -62,10 +109,40 @@ public class ExpoRealtimeIvsBroadcastModule: Module, IVSStageManagerDelegate {
       self.ivsStageManager?.setCameraMuted(muted: muted, placeholderText: placeholderText)
     }
     
+    AsyncFunction("setPlaceholderOptions") { (options: [String: Any]) in
+      try self.ivsStageManager?.setPlaceholderOptions(options)
+    }.runOnQueue(.main)
+
     AsyncFunction("isCameraMuted") { () -> Bool in
       return self.ivsStageManager?.isCameraMuted() ?? false
     }
 
+    AsyncFunction("getParticipants") { () -> [[String: Any]] in
+      return self.ivsStageManager?.participantsSnapshot() ?? []
+    }
+
+    AsyncFunction("getStreamStats") { (participantId: String?, deviceUrn: String?, promise: Promise) in
+      DispatchQueue.main.async {
+        guard let manager = self.ivsStageManager else {
+          promise.resolve([])
+          return
+        }
+        manager.requestStreamStats(participantId: participantId, deviceUrn: deviceUrn) { stats in
+          promise.resolve(stats)
+        }
+      }
+    }
+
+    AsyncFunction("setAudioLevelsInterval") { (intervalMs: Double?) in
+      DispatchQueue.main.async {
+        self.ivsStageManager?.setAudioLevelsInterval(intervalMs.map { $0 / 1000 })
+      }
+    }
+
+    AsyncFunction("setSubscribeStrategy") { (defaultType: String, overrides: [String: String]) in
+      self.ivsStageManager?.setSubscribeStrategy(defaultType: defaultType, overrides: overrides)
+    }
+
     AsyncFunction("requestPermissions") { (promise: Promise) in
       var permissions: [String: String] = ["camera": "not-determined", "microphone": "not-determined"]
       let group = DispatchGroup()
@@ -145,9 +222,19 @@ public class ExpoRealtimeIvsBroadcastModule: Module, IVSStageManagerDelegate {
 
     // Expose the custom view for remote stream rendering
     View(ExpoIVSRemoteStreamView.self) {
+      Events("onStreamAttached", "onStreamDetached", "onFirstFrameRendered")
+
       Prop("scaleMode") { (view: ExpoIVSRemoteStreamView, scaleMode: String?) in
           view.scaleMode = scaleMode ?? "fit"
       }
+
+      Prop("participantId") { (view: ExpoIVSRemoteStreamView, participantId: String?) in
+          view.participantId = participantId
+      }
+
+      Prop("deviceUrn") { (view: ExpoIVSRemoteStreamView, deviceUrn: String?) in
+          view.deviceUrn = deviceUrn
+      }
     }
 
     // Cleanup when the module is destroyed
@@ -174,7 +261,73 @@ public class ExpoRealtimeIvsBroadcastModule: Module, IVSStageManagerDelegate {
     return nil
 }
 
-  // TODO: Helper functions to parse config maps into IVS SDK specific configuration objects if needed.
-  // func parseAudioConfig(_ map: [String: Any]?) -> IVSLocalStageStreamAudioConfiguration? { ... }
-  // func parseVideoConfig(_ map: [String: Any]?) -> IVSLocalStageStreamVideoConfiguration? { ... }
+  // MARK: - Config Parsing
+
+  /// Builds an IVS audio configuration plus the session-level processing options from the JS `LocalAudioConfig` map.
+  /// Returns nil for an absent or empty map so the manager keeps its current configuration.
+  private func parseAudioConfig(_ map: [String: Any]?) throws -> (stream: IVSLocalStageStreamAudioConfiguration, processing: LocalAudioProcessing)? {
+    guard let map = map, !map.isEmpty else { return nil }
+
+    let config = IVSLocalStageStreamAudioConfiguration()
+    if let bitrate = (map["bitrate"] as? NSNumber)?.intValue {
+      try config.setMaxBitrate(bitrate)
+    }
+    config.enableNoiseSuppression = map["noiseSuppression"] as? Bool ?? true
+
+    var processing = LocalAudioProcessing()
+    processing.echoCancellation = map["echoCancellation"] as? Bool ?? true
+    processing.autoGainControl = map["autoGainControl"] as? Bool ?? true
+
+    return (config, processing)
+  }
+
+  /// Builds an IVS video configuration from the JS `LocalVideoConfig` map.
+  /// Returns nil for an absent or empty map so the manager keeps its current configuration.
+  private func parseVideoConfig(_ map: [String: Any]?) throws -> IVSLocalStageStreamVideoConfiguration? {
+    guard let map = map, !map.isEmpty else { return nil }
+
+    let config = IVSLocalStageStreamVideoConfiguration()
+    let width = (map["width"] as? NSNumber)?.doubleValue ?? 720
+    let height = (map["height"] as? NSNumber)?.doubleValue ?? 1280
+    try config.setSize(CGSize(width: width, height: height))
+
+    if let framerate = (map["targetFramerate"] as? NSNumber)?.intValue {
+      try config.setTargetFramerate(framerate)
+    }
+    // The SDK checks each bound against the other's current value, so apply them in an order that never crosses
+    let maxBitrate = (map["maxBitrate"] as? NSNumber)?.intValue
+    if let minBitrate = (map["minBitrate"] as? NSNumber)?.intValue {
+      if minBitrate > config.maxBitrate {
+        // Only a min above the default max was given: raise the max to it first
+        try config.setMaxBitrate(maxBitrate ?? minBitrate)
+        try config.setMinBitrate(minBitrate)
+      } else {
+        try config.setMinBitrate(minBitrate)
+        if let maxBitrate = maxBitrate {
+          try config.setMaxBitrate(maxBitrate)
+        }
+      }
+    } else if let maxBitrate = maxBitrate {
+      // Likewise, only a max below the default min: lower the min to it first
+      if maxBitrate < config.minBitrate {
+        try config.setMinBitrate(maxBitrate)
+      }
+      try config.setMaxBitrate(maxBitrate)
+    }
+
+    switch map["degradationPreference"] as? String {
+    case "maintain_framerate":
+      config.degradationPreference = .maintainFramerate
+    case "maintain_resolution":
+      config.degradationPreference = .maintainResolution
+    default:
+      config.degradationPreference = .balanced
+    }
+
+    if let simulcast = map["simulcast"] as? [String: Any], let enabled = simulcast["enabled"] as? Bool {
+      config.simulcast.enabled = enabled
+    }
+
+    return config
+  }
 }
@@ -13,6 +13,40 @@ protocol PiPFrameSource: AnyObject {
     func didReceiveSampleBuffer(_ sampleBuffer: CMSampleBuffer)
 }
 
+// MARK: - Placeholder Style
+// What the camera-muted placeholder frame shows, mirroring `PlaceholderOptions` in JS
+
+struct PlaceholderStyle {
+    enum TextPosition: String {
+        case top, center, bottom
+    }
+
+    var text: String = "Host is away"
+    var backgroundColor: UIColor = UIColor(red: 0.15, green: 0.15, blue: 0.15, alpha: 1.0)
+    var textColor: UIColor = .white
+    var fontSize: CGFloat = 48
+    var image: UIImage?
+    var textPosition: TextPosition = .center
+}
+
+// Parses #RGB, #RRGGBB and #RRGGBBAA; the format is validated in JS
+func colorFromHex(_ hex: String) -> UIColor? {
+    var digits = hex.hasPrefix("#") ? String(hex.dropFirst()) : hex
+    if digits.count == 3 {
+        digits = digits.map { "\($0)\($0)" }.joined()
+    }
+    if digits.count == 6 {
+        digits += "FF"
+    }
+    guard digits.count == 8, let value = UInt32(digits, radix: 16) else { return nil }
+    return UIColor(
+        red: CGFloat((value >> 24) & 0xFF) / 255,
+        green: CGFloat((value >> 16) & 0xFF) / 255,
+        blue: CGFloat((value >> 8) & 0xFF) / 255,
+        alpha: CGFloat(value & 0xFF) / 255
+    )
+}
+
 // MARK: - Custom Camera Capture Manager
 // This class captures video from AVCaptureDevice and feeds it to IVS custom image source
 // Used to work around the IVS Stages SDK limitation where back camera isn't exposed
@@ -25,6 +59,8 @@ class CustomCameraCapture: NSObject, AVCaptureVideoDataOutputSampleBufferDelegat
     
     var customImageSource: IVSCustomImageSource?
     var currentPosition: AVCaptureDevice.Position = .front
+    // The camera feeding the session, for zoom, torch, focus and exposure
+    var captureDevice: AVCaptureDevice? { currentInput?.device }
     var previewLayer: AVCaptureVideoPreviewLayer?
     
     // PiP frame source delegate
@@ -37,7 +73,7 @@ class CustomCameraCapture: NSObject, AVCaptureVideoDataOutputSampleBufferDelegat
     private(set) var isCameraMuted: Bool = false
     private var placeholderTimer: Timer?
     private var placeholderPixelBuffer: CVPixelBuffer?
-    private var placeholderText: String = "Host is away"
+    private var placeholderStyle = PlaceholderStyle()
     private let placeholderWidth: Int = 720
     private let placeholderHeight: Int = 1280
     
@@ -213,9 +249,12 @@ class CustomCameraCapture: NSObject, AVCaptureVideoDataOutputSampleBufferDelegat
     func swapCamera() -> Bool {
         let newPosition: AVCaptureDevice.Position = (currentPosition == .front) ? .back : .front
         print("📸 [CustomCameraCapture] Swapping camera from \(currentPosition == .front ? "FRONT" : "BACK") to \(newPosition == .front ? "FRONT" : "BACK")")
-        
+        return switchCamera(to: newPosition)
+    }
+
+    func switchCamera(to position: AVCaptureDevice.Position) -> Bool {
         // Setup capture session for new position (this will swap the input while keeping session)
-        let success = setupCaptureSession(for: newPosition)
+        let success = setupCaptureSession(for: position)
         
         if success {
             // Ensure capture is running
@@ -265,7 +304,7 @@ class CustomCameraCapture: NSObject, AVCaptureVideoDataOutputSampleBufferDelegat
         isCameraMuted = muted
         
         if let text = placeholderText {
-            self.placeholderText = text
+            self.placeholderStyle.text = text
             // Regenerate placeholder with new text
             placeholderPixelBuffer = nil
         }
@@ -373,44 +412,77 @@ class CustomCameraCapture: NSObject, AVCaptureVideoDataOutputSampleBufferDelegat
             return nil
         }
         
-        // Fill with dark gray background
-        context.setFillColor(UIColor(red: 0.15, green: 0.15, blue: 0.15, alpha: 1.0).cgColor)
-        context.fill(CGRect(x: 0, y: 0, width: placeholderWidth, height: placeholderHeight))
-        
-        // Draw text
+        let style = placeholderStyle
+        let width = CGFloat(placeholderWidth)
+        let height = CGFloat(placeholderHeight)
+
+        context.setFillColor(style.backgroundColor.cgColor)
+        context.fill(CGRect(x: 0, y: 0, width: width, height: height))
+
         let paragraphStyle = NSMutableParagraphStyle()
         paragraphStyle.alignment = .center
-        
+
         let attributes: [NSAttributedString.Key: Any] = [
-            .font: UIFont.systemFont(ofSize: 48, weight: .medium),
-            .foregroundColor: UIColor.white,
+            .font: UIFont.systemFont(ofSize: style.fontSize, weight: .medium),
+            .foregroundColor: style.textColor,
             .paragraphStyle: paragraphStyle
         ]
-        
-        let textSize = (placeholderText as NSString).size(withAttributes: attributes)
-        let textRect = CGRect(
-            x: (CGFloat(placeholderWidth) - textSize.width) / 2,
-            y: (CGFloat(placeholderHeight) - textSize.height) / 2,
-            width: textSize.width,
-            height: textSize.height
-        )
-        
-        // Draw text using UIGraphics (CGContext text drawing is complex)
+
+        // Long text wraps within the frame margins
+        let maxTextWidth = width * 0.9
+        let textSize = (style.text as NSString).boundingRect(
+            with: CGSize(width: maxTextWidth, height: height),
+            options: [.usesLineFragmentOrigin],
+            attributes: attributes,
+            context: nil
+        ).size
+
+        // The image is centered, fitted into a square of 40% of the frame width
+        var imageRect: CGRect?
+        if let image = style.image, image.size.width > 0, image.size.height > 0 {
+            let box = width * 0.4
+            let scale = min(box / image.size.width, box / image.size.height)
+            let size = CGSize(width: image.size.width * scale, height: image.size.height * scale)
+            imageRect = CGRect(x: (width - size.width) / 2, y: (height - size.height) / 2, width: size.width, height: size.height)
+        }
+
+        let margin = height * 0.1
+        let textY: CGFloat
+        switch style.textPosition {
+        case .top:
+            textY = margin
+        case .bottom:
+            textY = height - margin - textSize.height
+        case .center:
+            // Below the image when there is one, otherwise in the middle
+            textY = imageRect.map { $0.maxY + 32 } ?? (height - textSize.height) / 2
+        }
+        let textRect = CGRect(x: (width - maxTextWidth) / 2, y: textY, width: maxTextWidth, height: ceil(textSize.height))
+
+        // Draw using UIKit coordinates (CGContext has flipped Y)
         UIGraphicsPushContext(context)
-        // Flip context for text (CGContext has flipped Y)
         context.saveGState()
-        context.translateBy(x: 0, y: CGFloat(placeholderHeight))
+        context.translateBy(x: 0, y: height)
         context.scaleBy(x: 1, y: -1)
-        (placeholderText as NSString).draw(in: textRect, withAttributes: attributes)
+        if let image = style.image, let rect = imageRect {
+            image.draw(in: rect)
+        }
+        (style.text as NSString).draw(in: textRect, withAttributes: attributes)
         context.restoreGState()
         UIGraphicsPopContext()
         
-        print("📸 [CustomCameraCapture] Created placeholder frame with text: '\(placeholderText)'")
+        print("📸 [CustomCameraCapture] Created placeholder frame with text: '\(style.text)'")
         return buffer
     }
     
     func updatePlaceholderText(_ text: String) {
-        placeholderText = text
+        var style = placeholderStyle
+        style.text = text
+        updatePlaceholderStyle(style)
+    }
+
+    func updatePlaceholderStyle(_ style: PlaceholderStyle) {
+        placeholderStyle = style
         placeholderPixelBuffer = nil // Will be regenerated on next frame
         if isCameraMuted {
             placeholderPixelBuffer = createPlaceholderPixelBuffer()
@@ -422,14 +494,55 @@ class CustomCameraCapture: NSObject, AVCaptureVideoDataOutputSampleBufferDelegat
     }
 }
 
+// Rejects selectCamera/selectMicrophone when the URN is not an available device
+final class DeviceNotFoundException: GenericException<(type: String, urn: String)> {
+    override var reason: String {
+        "No \(param.type) device found with URN \(param.urn)"
+    }
+}
+
+// Rejects camera controls the active camera lacks; mapped to CameraControlUnsupportedError in JS
+final class CameraControlUnsupportedException: GenericException<String> {
+    override var reason: String {
+        "The active camera does not support \(param)"
+    }
+}
+
+final class PlaceholderImageException: GenericException<String> {
+    override var reason: String {
+        "Could not load the placeholder image at \(param)"
+    }
+}
+
+final class NoActiveCameraException: Exception {
+    override var reason: String {
+        "No camera is active. Initialize local streams with video enabled first."
+    }
+}
+
 // A class to hold the combined state for a single participant
 class StageParticipant {
     let info: IVSParticipantInfo
     var streams: [IVSStageStream]
+    // When this client saw the participant join; the SDK does not report it
+    let joinedAt: Date
 
     init(info: IVSParticipantInfo) {
         self.info = info
         self.streams = []
+        self.joinedAt = Date()
+    }
+}
+
+// Audio processing is applied through IVSStageAudioManager presets rather than per-stream configuration
+struct LocalAudioProcessing {
+    var echoCancellation: Bool = true
+    var autoGainControl: Bool = true
+
+    // iOS voice processing enables echo cancellation and gain control as a single unit (and forces mono);
+    // without it the studio preset captures stereo, so the preset alone decides the channel count
+    var usesVoiceProcessing: Bool {
+        return echoCancellation || autoGainControl
     }
 }
 
@@ -455,11 +568,42 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
     private var customCameraCapture: CustomCameraCapture?
     private var customImageSource: IVSCustomImageSource?
     private var useCustomCameraCapture: Bool = false
+    // Kept here so the style survives the custom capture being recreated
+    private var placeholderStyle = PlaceholderStyle()
+    // Camera the custom capture starts with; set by selectCamera before local streams exist
+    private var preferredCameraPosition: AVCaptureDevice.Position = .front
 
     // Delegate for sending events back to the Module
     weak var delegate: IVSStageManagerDelegate?
 
     private var isPublishingActive: Bool = false // Added state for desired publishing status
+    // Media kinds to publish while publishing is active, set through setPublishedMedia
+    private var publishAudio: Bool = true
+    private var publishVideo: Bool = true
+    // Last publish state reported by the SDK, so media changes can be re-reported without a state change
+    private var localPublishState: String = "not_published"
+    // Our own participant ID on the current stage, reported through participantDidJoin
+    private var localParticipantId: String?
+    // Callbacks waiting for a stream's RTC stats, keyed by stream. Only touched on the main queue.
+    private var pendingStatsRequests: [ObjectIdentifier: [([String: [String: String]]) -> Void]] = [:]
+    // Audio level reporting, enabled through setAudioLevelsInterval
+    private var audioLevelTimer: Timer?
+    // Loudest RMS (dBFS) per device URN since the last report. Written from audio callback threads.
+    private let audioLevelLock = NSLock()
+    private var audioLevelPeaks: [String: Float] = [:]
+    // Devices with a stats callback attached, keyed by URN. Only touched on the main queue.
+    private var audioLevelDevices: [String: IVSAudioDevice] = [:]
+
+    // Subscribe strategy set from JS; overrides are keyed by participant ID
+    private var defaultSubscribeType: IVSStageSubscribeType = .audioVideo
+    private var subscribeTypeOverrides: [String: IVSStageSubscribeType] = [:]
+
+    // Stream configurations from JS (nil = SDK defaults / 720p portrait for video)
+    private var audioConfiguration: IVSLocalStageStreamAudioConfiguration?
+    private var audioProcessing = LocalAudioProcessing()
+    private var videoConfiguration: IVSLocalStageStreamVideoConfiguration?
+    // false = audio-only, no camera stream is created
+    private var isVideoEnabled: Bool = true
 
     // To maintain a queryable list of participants using our custom class
     public var participants: [StageParticipant] = []
@@ -468,6 +612,10 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
     private var remoteViews: [Weak<ExpoIVSRemoteStreamView>] = []
     // The specific participant we should prioritize rendering.
     private var targetParticipantId: String?
+    // Views waiting for the first frame of a device, keyed by device URN. Read from frame callback queues.
+    private let firstFrameLock = NSLock()
+    private var firstFrameObservers: [String: [() -> Void]] = [:]
+    private let firstFrameQueue = DispatchQueue(label: "com.ivs.remoteView.firstFrame", qos: .userInitiated)
     
     // MARK: - Picture-in-Picture Properties
     
@@ -498,6 +646,7 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         super.init()
         // Discover devices early if needed, or on demand
         setupAudioSession()
+        observeDeviceChanges()
     }
 
     private func discoverDevices() {
@@ -613,8 +762,10 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
             print("📸 [iOS Camera Discovery]   Camera \(index + 1): position=\(posStr), name=\(descriptor.friendlyName), urn=\(descriptor.urn)")
         }
 
-        // Select default camera (prefer front camera)
-        if let defaultCamera = self.availableCameras.first(where: { $0.descriptor().position == .front }) ?? self.availableCameras.first {
+        // Keep a camera chosen through selectCamera; otherwise select the default camera (prefer front camera)
+        if let selected = self.currentCameraDevice, self.availableCameras.contains(where: { $0.descriptor().urn == selected.descriptor().urn }) {
+            print("📸 [iOS Camera Discovery] ✅ Keeping selected camera: name=\(selected.descriptor().friendlyName)")
+        } else if let defaultCamera = self.availableCameras.first(where: { $0.descriptor().position == .front }) ?? self.availableCameras.first {
             self.currentCameraDevice = defaultCamera
             let posStr = defaultCamera.descriptor().position == .front ? "FRONT" : (defaultCamera.descriptor().position == .back ? "BACK" : "OTHER")
             print("📸 [iOS Camera Discovery] ✅ Selected default camera: position=\(posStr), name=\(defaultCamera.descriptor().friendlyName)")
@@ -626,38 +777,49 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
     private func setupAudioSession() {
         // It's crucial to prepare the audio session *before* joining a stage.
         // The IVSStageAudioManager handles this.
-        // We will set a preset suitable for video conferencing.
-        stageAudioManager.setPreset(.videoChat)
-        print("IVSStageAudioManager preset to .videoChat")
+        // Video conferencing by default; the studio preset skips voice processing for music-quality stereo.
+        if audioProcessing.usesVoiceProcessing {
+            stageAudioManager.setPreset(.videoChat)
+            print("IVSStageAudioManager preset to .videoChat")
+        } else {
+            stageAudioManager.setPreset(.studio)
+            print("IVSStageAudioManager preset to .studio")
+        }
         // Note: Error handling for setPreset is not explicitly shown in the IVS SDK docs,
         // but you might want to wrap in do-catch if issues arise, though it's a void func.
     }
 
     // MARK: - Public API (to be called from ExpoRealtimeIvsBroadcastModule)
 
-    func initializeLocalStreams(audioConfig: IVSLocalStageStreamAudioConfiguration? = nil, videoConfig: IVSLocalStageStreamVideoConfiguration? = nil) {
+    func initializeLocalStreams(audioConfig: IVSLocalStageStreamAudioConfiguration? = nil, audioProcessing: LocalAudioProcessing? = nil, videoConfig: IVSLocalStageStreamVideoConfiguration? = nil, videoEnabled: Bool? = nil) {
         print("IVSStageManager: Initializing local streams.")
 
+        // Configs passed here override the ones stored by initializeStage
+        if let audioConfig = audioConfig {
+            self.audioConfiguration = audioConfig
+        }
+        if let audioProcessing = audioProcessing {
+            self.audioProcessing = audioProcessing
+            setupAudioSession()
+        }
+        if let videoConfig = videoConfig {
+            self.videoConfiguration = videoConfig
+        }
+        if let videoEnabled = videoEnabled {
+            self.isVideoEnabled = videoEnabled
+        }
+
         discoverDevices()
 
-        // Check if we need to use custom camera capture (IVS SDK limitation workaround)
-        // We use custom capture if IVS SDK only provides front camera but AVFoundation has back camera
-        let avSession = AVCaptureDevice.DiscoverySession(
-            deviceTypes: [.builtInWideAngleCamera],
-            mediaType: .video,
-            position: .unspecified
-        )
-        let hasBackCameraInAVFoundation = avSession.devices.contains { $0.position == .back }
-        let hasBackCameraInIVS = self.availableCameras.contains { $0.descriptor().position == .back }
-        
-        self.useCustomCameraCapture = hasBackCameraInAVFoundation && !hasBackCameraInIVS
-        
-        if self.useCustomCameraCapture {
-            print("📸 [IVSStageManager] Using CUSTOM camera capture (IVS SDK limitation workaround)")
-            setupCustomCameraCapture(videoConfig: videoConfig)
+        if !self.isVideoEnabled {
+            print("📸 [IVSStageManager] Video disabled - skipping camera setup (audio-only)")
+            self.customCameraCapture?.stopCapture()
+            self.customCameraCapture = nil
+            self.customImageSource = nil
+            self.useCustomCameraCapture = false
+            self.cameraStream = nil
         } else {
-            print("📸 [IVSStageManager] Using NATIVE IVS camera")
-            setupNativeCameraStream(videoConfig: videoConfig)
+            setupCameraStream()
         }
 
         // Create microphone stream (same for both modes)
@@ -666,7 +828,7 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         let micDevice = localDevicesForMic.first { $0.descriptor().type == IVSDeviceType.microphone }
 
         if let microphoneDevice = micDevice as? IVSMicrophone {
-            let finalAudioConfig: IVSLocalStageStreamAudioConfiguration = audioConfig ?? IVSLocalStageStreamAudioConfiguration()
+            let finalAudioConfig: IVSLocalStageStreamAudioConfiguration = self.audioConfiguration ?? IVSLocalStageStreamAudioConfiguration()
 
             let streamConfig = IVSLocalStageStreamConfiguration()
             streamConfig.audio = finalAudioConfig
@@ -679,18 +841,32 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         }
     }
     
+    private func setupCameraStream() {
+        // Check if we need to use custom camera capture (IVS SDK limitation workaround)
+        // We use custom capture if IVS SDK only provides front camera but AVFoundation has back camera
+        let avSession = AVCaptureDevice.DiscoverySession(
+            deviceTypes: [.builtInWideAngleCamera],
+            mediaType: .video,
+            position: .unspecified
+        )
+        let hasBackCameraInAVFoundation = avSession.devices.contains { $0.position == .back }
+        let hasBackCameraInIVS = self.availableCameras.contains { $0.descriptor().position == .back }
+        
+        self.useCustomCameraCapture = hasBackCameraInAVFoundation && !hasBackCameraInIVS
+        
+        if self.useCustomCameraCapture {
+            print("📸 [IVSStageManager] Using CUSTOM camera capture (IVS SDK limitation workaround)")
+            setupCustomCameraCapture(videoConfig: self.videoConfiguration)
+        } else {
+            print("📸 [IVSStageManager] Using NATIVE IVS camera")
+            setupNativeCameraStream(videoConfig: self.videoConfiguration)
+        }
+    }
+
     private func setupNativeCameraStream(videoConfig: IVSLocalStageStreamVideoConfiguration?) {
         // Use native IVS camera (original approach)
         if let camera = currentCameraDevice as? IVSCamera {
-            let finalVideoConfig: IVSLocalStageStreamVideoConfiguration = videoConfig ?? {
-                let config = IVSLocalStageStreamVideoConfiguration()
-                do {
-                    try config.setSize(CGSize(width: 720, height: 1280)) // 720p Portrait
-                } catch {
-                    print("Error setting default video configuration size: \(error). Using IVS defaults for size.")
-                }
-                return config
-            }()
+            let finalVideoConfig: IVSLocalStageStreamVideoConfiguration = videoConfig ?? makeDefaultVideoConfig()
 
             let streamConfig = IVSLocalStageStreamConfiguration()
             streamConfig.video = finalVideoConfig
@@ -709,9 +885,10 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         
         // Initialize custom capture manager
         customCameraCapture = CustomCameraCapture()
+        customCameraCapture?.updatePlaceholderStyle(placeholderStyle)
         
         // Setup capture session for front camera initially
-        guard customCameraCapture?.setupCaptureSession(for: .front) == true else {
+        guard customCameraCapture?.setupCaptureSession(for: self.preferredCameraPosition) == true else {
             print("📸 [IVSStageManager] ❌ Failed to setup custom capture session")
             return
         }
@@ -720,8 +897,9 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         // The custom image source will be used with the stage
         let broadcastConfig = IVSBroadcastConfiguration()
         do {
-            try broadcastConfig.video.setSize(CGSize(width: 720, height: 1280))
-            try broadcastConfig.video.setTargetFramerate(30)
+            // Match the image source to the stage stream so frames are not rescaled twice
+            try broadcastConfig.video.setSize(videoConfig?.size ?? CGSize(width: 720, height: 1280))
+            try broadcastConfig.video.setTargetFramerate(videoConfig?.targetFramerate ?? 30)
         } catch {
             print("📸 [IVSStageManager] Error configuring broadcast: \(error)")
         }
@@ -735,15 +913,7 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
             self.customCameraCapture?.customImageSource = imageSource
             
             // Create local stage stream with the custom image source
-            let finalVideoConfig: IVSLocalStageStreamVideoConfiguration = videoConfig ?? {
-                let config = IVSLocalStageStreamVideoConfiguration()
-                do {
-                    try config.setSize(CGSize(width: 720, height: 1280))
-                } catch {
-                    print("Error setting video config: \(error)")
-                }
-                return config
-            }()
+            let finalVideoConfig: IVSLocalStageStreamVideoConfiguration = videoConfig ?? makeDefaultVideoConfig()
             
             let streamConfig = IVSLocalStageStreamConfiguration()
             streamConfig.video = finalVideoConfig
@@ -760,12 +930,63 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         }
     }
 
-    func initializeStage(audioConfig: IVSLocalStageStreamAudioConfiguration? = nil, videoConfig: IVSLocalStageStreamVideoConfiguration? = nil) {
-        // This method is now primarily for setting up non-device-related configurations if any were to be added.
-        // For now, it's a placeholder to maintain API consistency.
+    func initializeStage(audioConfig: IVSLocalStageStreamAudioConfiguration? = nil, audioProcessing: LocalAudioProcessing? = nil, videoConfig: IVSLocalStageStreamVideoConfiguration? = nil, videoEnabled: Bool? = nil) {
+        // Non-device setup only: remember the configurations for when local streams are created.
+        if let audioConfig = audioConfig {
+            self.audioConfiguration = audioConfig
+        }
+        if let audioProcessing = audioProcessing {
+            self.audioProcessing = audioProcessing
+            setupAudioSession()
+        }
+        if let videoConfig = videoConfig {
+            self.videoConfiguration = videoConfig
+        }
+        if let videoEnabled = videoEnabled {
+            self.isVideoEnabled = videoEnabled
+        }
         print("IVSStageManager: Stage initialized (configuration settings).")
     }
 
+    /// Reports the configuration applied to the local streams, mirroring `LocalStreamsConfiguration` in JS
+    func effectiveStreamsConfiguration() -> [String: Any] {
+        var result: [String: Any] = ["audio": NSNull(), "video": NSNull()]
+
+        if let audio = microphoneStream?.configuration.audio {
+            let voiceProcessing = audioProcessing.usesVoiceProcessing
+            result["audio"] = [
+                "bitrate": audio.maxBitrate,
+                "channels": voiceProcessing ? 1 : 2,
+                "echoCancellation": voiceProcessing,
+                "autoGainControl": voiceProcessing,
+                "noiseSuppression": audio.enableNoiseSuppression
+            ]
+        }
+
+        if let video = cameraStream?.configuration.video {
+            result["video"] = [
+                "width": Int(video.size.width),
+                "height": Int(video.size.height),
+                "targetFramerate": video.targetFramerate,
+                "minBitrate": video.minBitrate,
+                "maxBitrate": video.maxBitrate
+            ]
+        }
+
+        return result
+    }
+
+    /// 720p portrait, used whenever JS did not provide a video configuration
+    private func makeDefaultVideoConfig() -> IVSLocalStageStreamVideoConfiguration {
+        let config = IVSLocalStageStreamVideoConfiguration()
+        do {
+            try config.setSize(CGSize(width: 720, height: 1280)) // 720p Portrait
+        } catch {
+            print("Error setting default video configuration size: \(error). Using IVS defaults for size.")
+        }
+        return config
+    }
+
     func joinStage(token: String, targetParticipantId: String? = nil) {
         self.targetParticipantId = targetParticipantId
 
@@ -833,6 +1054,45 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         self.stage?.refreshStrategy() // Tell the stage to re-evaluate its strategy
     }
 
+    func setSubscribeStrategy(defaultType: String, overrides: [String: String]) {
+        self.defaultSubscribeType = subscribeType(from: defaultType)
+        self.subscribeTypeOverrides = overrides.mapValues { subscribeType(from: $0) }
+        print("IVSStageManager: Subscribe strategy set to \(defaultType) with \(overrides.count) override(s). Refreshing strategy.")
+        self.stage?.refreshStrategy()
+    }
+
+    private func subscribeType(from value: String) -> IVSStageSubscribeType {
+        switch value {
+        case "audio_only": return .audioOnly
+        case "none": return .none
+        default: return .audioVideo
+        }
+    }
+
+    func setPublishedMedia(audio: Bool, video: Bool) {
+        self.publishAudio = audio
+        self.publishVideo = video
+        print("IVSStageManager: Published media set to audio=\(audio), video=\(video). Refreshing strategy.")
+        self.stage?.refreshStrategy()
+        // The publish state itself does not change, so report the new media explicitly
+        if self.localPublishState == "published" {
+            delegate?.stageManagerDidEmitEvent(eventName: "onPublishStateChanged", body: publishStatePayload(localPublishState))
+        }
+    }
+
+    func publishedMedia() -> [String: Bool] {
+        return ["audio": publishAudio, "video": publishVideo]
+    }
+
+    private func publishStatePayload(_ state: String) -> [String: Any] {
+        let live = state == "published"
+        let media: [String: Bool] = [
+            "audio": live && publishAudio && microphoneStream != nil,
+            "video": live && publishVideo && cameraStream != nil
+        ]
+        return ["state": state, "media": media]
+    }
+
     func swapCamera() {
         print("📸 [iOS Camera Swap] swapCamera() called")
         print("📸 [iOS Camera Swap] Using custom camera capture: \(self.useCustomCameraCapture)")
@@ -862,7 +1122,7 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         if capture.swapCamera() {
             let newPos = capture.currentPosition == .front ? "FRONT" : "BACK"
             print("📸 [iOS Camera Swap] ✅ Custom camera swapped to: \(newPos)")
-            delegate?.stageManagerDidEmitEvent(eventName: "onCameraSwapped", body: ["newCameraPosition": newPos])
+            emitCameraSwapped(position: capture.currentPosition)
         } else {
             print("📸 [iOS Camera Swap] ❌ Failed to swap custom camera")
             delegate?.stageManagerDidEmitEvent(eventName: "onCameraSwapError", body: ["reason": "Failed to swap camera."])
@@ -912,25 +1172,17 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         
         let newPositionString = newCamera.descriptor().position == .front ? "FRONT" : (newCamera.descriptor().position == .back ? "BACK" : "UNSPECIFIED")
         print("📸 [iOS Camera Swap] Attempting to swap from \(currentPositionString) (\(currentCamDevice.descriptor().friendlyName)) to \(newPositionString) (\(newCamera.descriptor().friendlyName))")
+        switchNativeCamera(to: newCamera)
+    }
 
-        // 1. Create a default video configuration (consistent with initializeStage)
-        let defaultVideoConfig: IVSLocalStageStreamVideoConfiguration = {
-            let config = IVSLocalStageStreamVideoConfiguration()
-            do {
-                try config.setSize(CGSize(width: 720, height: 1280)) // 720p Portrait
-                // Add other default parameters like bitrate or framerate if desired
-                // try config.setMaxBitrate(1_500_000)
-                // try config.setTargetFramerate(30)
-            } catch {
-                print("IVSStageManager: Error setting default video config for camera swap: \\(error). Using IVS defaults for size.")
-                // Consider emitting an error or using a fallback
-            }
-            return config
-        }()
+    private func switchNativeCamera(to newCamera: IVSCamera) {
+
+        // 1. Reuse the configured video settings so the swap doesn't change resolution or bitrate
+        let videoConfig: IVSLocalStageStreamVideoConfiguration = self.videoConfiguration ?? makeDefaultVideoConfig()
 
         // 2. Create the general stream configuration
         let streamConfig = IVSLocalStageStreamConfiguration()
-        streamConfig.video = defaultVideoConfig
+        streamConfig.video = videoConfig
         // If your camera stream could potentially have audio, you'd set streamConfig.audio here as well.
         // For a typical setup, the camera stream is video-only and microphone is a separate stream.
 
@@ -945,7 +1197,7 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         self.stage?.refreshStrategy()
 
         print("IVSStageManager: Camera swapped successfully to \(newCamera.descriptor().friendlyName).")
-        delegate?.stageManagerDidEmitEvent(eventName: "onCameraSwapped", body: ["newCameraURN": newCamera.descriptor().urn, "newCameraName": newCamera.descriptor().friendlyName])
+        emitCameraSwapped(descriptor: newCamera.descriptor())
     }
 
      // --- NEW VIEW MANAGEMENT API ---
@@ -1028,6 +1280,9 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
             }
         }
         
+        // Views with participantId/deviceUrn props render exactly the stream they select
+        assignBoundViews()
+
         // Get a set of all streams that are already being rendered by VALID views
         let renderedUrns = Set(self.remoteViews.compactMap { wrapper -> String? in
             guard let view = wrapper.value,
@@ -1041,7 +1296,7 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         
         // Find all views that are not currently rendering anything AND are in a window
         let availableViews = self.remoteViews.compactMap { $0.value }.filter { 
-            $0.currentRenderedDeviceUrn == nil && $0.window != nil 
+            !$0.isBound && $0.currentRenderedDeviceUrn == nil && $0.window != nil 
         }
         
         // Log all views and their state
@@ -1117,6 +1372,81 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         }
         print("🧠 [MANAGER] ========== assignStreamsToAvailableViews complete ==========")
     }
+
+    /// Re-run stream assignment, e.g. after a view's binding props changed
+    func requestStreamAssignment() {
+        DispatchQueue.main.async { [weak self] in
+            self?.assignStreamsToAvailableViews()
+        }
+    }
+
+    private func assignBoundViews() {
+        let views = self.remoteViews.compactMap { $0.value }
+        for view in views where view.isBound && view.window != nil {
+            var target: (participantId: String, stream: IVSStageStream)?
+            for p in self.participants {
+                guard let participantId = p.info.participantId else { continue }
+                if let stream = p.streams.first(where: {
+                    $0.device.descriptor().type == IVSDeviceType(rawValue: 5) &&
+                        view.matches(participantId: participantId, deviceUrn: $0.device.descriptor().urn)
+                }) {
+                    target = (participantId, stream)
+                    break
+                }
+            }
+
+            guard let target = target else {
+                if view.currentRenderedDeviceUrn != nil {
+                    print("🧠 [MANAGER] Bound view has no matching stream, clearing it")
+                    view.clearStream()
+                }
+                continue
+            }
+
+            let urn = target.stream.device.descriptor().urn
+            if view.currentRenderedDeviceUrn == urn { continue }
+
+            // Take the stream back from any unbound view that picked it up first
+            for other in views where !other.isBound && other.currentRenderedDeviceUrn == urn {
+                other.clearStream()
+            }
+            print("🧠 [MANAGER] ✅ Assigning bound stream \(urn) to view")
+            view.renderStream(participantId: target.participantId, deviceUrn: urn)
+        }
+    }
+
+    /// Call `handler` on the main thread once `device` delivers its next frame
+    func observeFirstFrame(of device: IVSImageDevice, handler: @escaping () -> Void) {
+        let urn = device.descriptor().urn
+        firstFrameLock.lock()
+        firstFrameObservers[urn, default: []].append(handler)
+        firstFrameLock.unlock()
+
+        // The PiP frame callback already forwards frames for its device
+        if currentPiPDevice === device { return }
+
+        device.setOnFrameCallbackQueue(firstFrameQueue, includePixelBuffer: false) { [weak self, weak device] _ in
+            guard let self = self, self.deliverFirstFrame(forUrn: urn) else { return }
+            DispatchQueue.main.async {
+                // Release the callback unless PiP has taken the device over meanwhile
+                if let device = device, self.currentPiPDevice !== device {
+                    device.setOnFrameCallback(nil)
+                }
+            }
+        }
+    }
+
+    @discardableResult
+    private func deliverFirstFrame(forUrn urn: String) -> Bool {
+        firstFrameLock.lock()
+        let handlers = firstFrameObservers.removeValue(forKey: urn) ?? []
+        firstFrameLock.unlock()
+        guard !handlers.isEmpty else { return false }
+        DispatchQueue.main.async {
+            handlers.forEach { $0() }
+        }
+        return true
+    }
     // --- END NEW VIEW MANAGEMENT API ---
 
 
@@ -1126,6 +1456,9 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
     }
     
     func setCameraMuted(muted: Bool, placeholderText: String?) {
+        if let text = placeholderText {
+            placeholderStyle.text = text
+        }
         // For custom camera capture, we send placeholder frames
         if useCustomCameraCapture, let customCapture = customCameraCapture {
             customCapture.setCameraMuted(muted, placeholderText: placeholderText)
@@ -1142,6 +1475,38 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         ])
     }
     
+    /// Replaces the placeholder style; fields missing from `options` go back to their defaults.
+    /// Applies to the frame being sent when the camera is already muted.
+    func setPlaceholderOptions(_ options: [String: Any]) throws {
+        var style = PlaceholderStyle()
+        if let text = options["text"] as? String {
+            style.text = text
+        }
+        if let hex = options["backgroundColor"] as? String, let color = colorFromHex(hex) {
+            style.backgroundColor = color
+        }
+        if let hex = options["textColor"] as? String, let color = colorFromHex(hex) {
+            style.textColor = color
+        }
+        if let fontSize = options["fontSize"] as? Double {
+            style.fontSize = CGFloat(fontSize)
+        }
+        if let position = options["textPosition"] as? String, let textPosition = PlaceholderStyle.TextPosition(rawValue: position) {
+            style.textPosition = textPosition
+        }
+        if let uri = options["imageUri"] as? String {
+            let path = URL(string: uri).flatMap { $0.isFileURL ? $0.path : nil } ?? uri
+            guard let image = UIImage(contentsOfFile: path) else {
+                throw PlaceholderImageException(uri)
+            }
+            style.image = image
+        }
+
+        placeholderStyle = style
+        customCameraCapture?.updatePlaceholderStyle(style)
+        print("📸 [IVSStageManager] Placeholder updated: text='\(style.text)', image=\(style.image != nil)")
+    }
+
     func isCameraMuted() -> Bool {
         if useCustomCameraCapture, let customCapture = customCameraCapture {
             return customCapture.isCameraMuted
@@ -1336,9 +1701,12 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         // Track frame count for debugging
         var deviceFrameCount = 0
         
+        let deviceUrn = device.descriptor().urn
         device.setOnFrameCallbackQueue(frameQueue, includePixelBuffer: true) { [weak self] frame in
             guard let self = self else { return }
-            
+            // PiP owns this device's frame callback, so it also serves first-frame observers
+            self.deliverFirstFrame(forUrn: deviceUrn)
+
             deviceFrameCount += 1
             
             // Log periodically to track if frames are coming
@@ -1444,9 +1812,11 @@ class IVSStageManager: NSObject, IVSStageStreamDelegate, IVSStageStrategy, IVSSt
         
         // Set frame callback to receive CVPixelBuffers (only if not already set on this device)
         let frameQueue = DispatchQueue(label: "com.ivs.pip.frameCallback", qos: .userInteractive)
+        let deviceUrn = device.descriptor().urn
         device.setOnFrameCallbackQueue(frameQueue, includePixelBuffer: true) { [weak self] frame in
             guard let self = self else { return }
-            
+            self.deliverFirstFrame(forUrn: deviceUrn)
+
             if let pixelBuffer = frame.pixelBuffer {
                 self.pipController.enqueueFrame(pixelBuffer)
             }
@@ -1646,10 +2016,10 @@ extension IVSStageManager {
         if participant.isLocal {
             if self.isPublishingActive {
                 var streams: [IVSLocalStageStream] = []
-                if let cameraStream = self.cameraStream {
+                if self.publishVideo, let cameraStream = self.cameraStream {
                     streams.append(cameraStream)
                 }
-                if let microphoneStream = self.microphoneStream {
+                if self.publishAudio, let microphoneStream = self.microphoneStream {
                     streams.append(microphoneStream)
                 }
                 print("IVSStageManager Strategy: Providing \(streams.count) streams to publish for local participant (publishing active).")
@@ -1677,14 +2047,15 @@ extension IVSStageManager {
     }
 
     func stage(_ stage: IVSStage, shouldSubscribeToParticipant participant: IVSParticipantInfo) -> IVSStageSubscribeType {
-        // For remote participants, we usually want to subscribe to both audio and video.
+        // Remote participants use the strategy set through setSubscribeStrategy (audio and video by default).
         // For the local participant, we don't subscribe to ourselves.
         if participant.isLocal {
             print("IVSStageManager Strategy: Participant \(participant.participantId ?? "N/A") is local, subscribing with .none")
             return .none
         } else {
-            print("IVSStageManager Strategy: Participant \(participant.participantId ?? "N/A") is remote, subscribing with .audioVideo")
-            return .audioVideo
+            let type = participant.participantId.flatMap { subscribeTypeOverrides[$0] } ?? defaultSubscribeType
+            print("IVSStageManager Strategy: Participant \(participant.participantId ?? "N/A") is remote, subscribing with \(type.rawValue)")
+            return type
         }
     }
     
@@ -1764,6 +2135,8 @@ extension IVSStageManager {
         // If disconnected, we should clean up our local state
         if connectionState == .disconnected {
             self.isPublishingActive = false
+            self.localPublishState = "not_published"
+            self.localParticipantId = nil
             self.stage = nil
             self.participants.removeAll()
         }
@@ -1782,8 +2155,8 @@ extension IVSStageManager {
             stateString = "unknown_publish_state"
         }
         
-        let body: [String: Any] = ["state": stateString]
-        delegate?.stageManagerDidEmitEvent(eventName: "onPublishStateChanged", body: body)
+        self.localPublishState = stateString
+        delegate?.stageManagerDidEmitEvent(eventName: "onPublishStateChanged", body: publishStatePayload(stateString))
         print("IVSStageManager Renderer: Local participant publish state changed to \(stateString)")
     }
 
@@ -1791,19 +2164,29 @@ extension IVSStageManager {
         print("✅ [DEBUG] Participant Joined - ID: \(participant.participantId ?? "N/A")")
         print("✅ [DEBUG] Participant Attributes: \(participant.attributes)")
 
-        if participant.isLocal { return }
-        
-        let newParticipant = StageParticipant(info: participant)
-        self.participants.append(newParticipant)
+        if participant.isLocal {
+            self.localParticipantId = participant.participantId
+            return
+        }
+
+        // The SDK can report the same participant twice across reconnects; keep one entry per ID
+        let stageParticipant: StageParticipant
+        if let existing = self.participants.first(where: { $0.info.participantId == participant.participantId }) {
+            stageParticipant = existing
+        } else {
+            stageParticipant = StageParticipant(info: participant)
+            self.participants.append(stageParticipant)
+        }
 
-        delegate?.stageManagerDidEmitEvent(eventName: "onParticipantJoined", body: ["participantId": participant.participantId])
+        delegate?.stageManagerDidEmitEvent(eventName: "onParticipantJoined", body: participantPayload(participant, joinedAt: stageParticipant.joinedAt))
     }
 
     func stage(_ stage: IVSStage, participantDidLeave participant: IVSParticipantInfo) {
         print("IVSStageManager Renderer: Participant left: \(participant.participantId ?? "N/A")")
         if participant.isLocal { return }
 
-        if let leavingParticipant = self.participants.first(where: { $0.info.participantId == participant.participantId }) {
+        let leavingParticipant = self.participants.first(where: { $0.info.participantId == participant.participantId })
+        if let leavingParticipant = leavingParticipant {
             let removedUrns = leavingParticipant.streams.map { $0.device.descriptor().urn }
             for viewWrapper in self.remoteViews {
                 if let view = viewWrapper.value, let renderedUrn = view.currentRenderedDeviceUrn, removedUrns.contains(renderedUrn) {
@@ -1817,7 +2200,7 @@ extension IVSStageManager {
         self.participants.removeAll { $0.info.participantId == participant.participantId }
 
         // Emit event to JS
-        delegate?.stageManagerDidEmitEvent(eventName: "onParticipantLeft", body: ["participantId": participant.participantId])
+        delegate?.stageManagerDidEmitEvent(eventName: "onParticipantLeft", body: participantPayload(participant, joinedAt: leavingParticipant?.joinedAt ?? Date()))
     }
 
     func stage(_ stage: IVSStage, participant: IVSParticipantInfo, didAdd streams: [IVSStageStream]) {
@@ -1836,24 +2219,12 @@ extension IVSStageManager {
             return
         }
 
-        stageParticipant.streams.append(contentsOf: streams)
+        let knownUrns = Set(stageParticipant.streams.map { $0.device.descriptor().urn })
+        stageParticipant.streams.append(contentsOf: streams.filter { !knownUrns.contains($0.device.descriptor().urn) })
+        // Needed to receive RTC stats for remote streams
+        streams.forEach { $0.delegate = self }
 
-        let streamDicts = streams.map { stream -> [String: Any] in
-            print("✅ [DEBUG] Steam Device Type: \(stream.device.descriptor().type)")
-            var mediaType: String
-            switch stream.device.descriptor().type {
-            case IVSDeviceType(rawValue: 5):
-                mediaType = "video"
-            case IVSDeviceType(rawValue: 6):
-                mediaType = "audio"
-            default:
-                mediaType = "unknown"
-            }
-            return [
-                "deviceUrn": stream.device.descriptor().urn,
-                "mediaType": mediaType
-            ]
-        }
+        let streamDicts = streams.map { streamPayload($0) }
 
         let body: [String: Any] = [
             "participantId": participant.participantId ?? "",
@@ -1873,6 +2244,49 @@ extension IVSStageManager {
         delegate?.stageManagerDidEmitEvent(eventName: "onParticipantStreamsAdded", body: body)
     }
 
+    /// Payload for a remote stream, shared by stream events and `participantsSnapshot()`
+    func streamPayload(_ stream: IVSStageStream) -> [String: Any] {
+        var mediaType: String
+        switch stream.device.descriptor().type {
+        case IVSDeviceType(rawValue: 5):
+            mediaType = "video"
+        case IVSDeviceType(rawValue: 6):
+            mediaType = "audio"
+        default:
+            mediaType = "unknown"
+        }
+        return [
+            "deviceUrn": stream.device.descriptor().urn,
+            "mediaType": mediaType,
+            "muted": stream.isMuted
+        ]
+    }
+
+    /// Payload describing a participant, shared by participant events and `participantsSnapshot()`
+    func participantPayload(_ info: IVSParticipantInfo, joinedAt: Date) -> [String: Any] {
+        var payload: [String: Any] = [
+            "participantId": info.participantId ?? "",
+            "attributes": info.attributes,
+            "isLocal": info.isLocal,
+            "joinedAt": joinedAt.timeIntervalSince1970 * 1000
+        ]
+        let userId: String? = info.userId
+        if let userId = userId, !userId.isEmpty {
+            payload["userId"] = userId
+        }
+        return payload
+    }
+
+    /// Remote participants currently on the stage, in the same shape as `Participant` in JS
+    func participantsSnapshot() -> [[String: Any]] {
+        return self.participants.map { participant in
+            var entry = participantPayload(participant.info, joinedAt: participant.joinedAt)
+            entry["id"] = entry.removeValue(forKey: "participantId")
+            entry["streams"] = participant.streams.map { streamPayload($0) }
+            return entry
+        }
+    }
+
     func stage(_ stage: IVSStage, participant: IVSParticipantInfo, didRemove streams: [IVSStageStream]) {
         print("IVSStageManager Renderer: Participant \(participant.participantId ?? "N/A") removed \(streams.count) streams.")
 
@@ -1915,8 +2329,12 @@ extension IVSStageManager {
     
     func stage(_ stage: IVSStage, participant: IVSParticipantInfo, didChangeMutedStreams streams: [IVSStageStream]) {
         if participant.isLocal { return }
-        // This is useful for knowing if a remote participant muted.
-        // We can emit an event for this if needed.
+
+        let body: [String: Any] = [
+            "participantId": participant.participantId ?? "",
+            "streams": streams.map { streamPayload($0) }
+        ]
+        delegate?.stageManagerDidEmitEvent(eventName: "onParticipantStreamsMutedChanged", body: body)
     }
 }
 
@@ -1924,6 +2342,363 @@ extension IVSStageManager {
 // would be implemented here. The current IVS SDK for Stage might rely more on completion handlers
 // and direct state checking for some of these, or specific delegates for participants/streams. 
 
+// MARK: - RTC Stats
+extension IVSStageManager {
+    // How long to wait for streams to answer; streams that are not flowing yet may never report
+    private static let statsTimeout: TimeInterval = 2
+
+    /// Collects RTC stats for the local and remote streams matching the filters. Must be called on the main queue.
+    func requestStreamStats(participantId: String?, deviceUrn: String?, completion: @escaping ([[String: Any]]) -> Void) {
+        guard self.stage != nil else {
+            completion([])
+            return
+        }
+
+        var targets: [(participantId: String, isLocal: Bool, stream: IVSStageStream)] = []
+        if participantId == nil || participantId == self.localParticipantId {
+            let localStreams: [IVSStageStream] = [self.cameraStream, self.microphoneStream].compactMap { $0 }
+            targets += localStreams.map { (self.localParticipantId ?? "", true, $0) }
+        }
+        for participant in self.participants where participantId == nil || participant.info.participantId == participantId {
+            targets += participant.streams.map { (participant.info.participantId ?? "", false, $0) }
+        }
+        if let deviceUrn = deviceUrn {
+            targets = targets.filter { $0.stream.device.descriptor().urn == deviceUrn }
+        }
+        guard !targets.isEmpty else {
+            completion([])
+            return
+        }
+
+        var results: [[String: Any]] = []
+        var remaining = targets.count
+        var finished = false
+        let finish = {
+            guard !finished else { return }
+            finished = true
+            completion(results)
+        }
+
+        for target in targets {
+            let key = ObjectIdentifier(target.stream)
+            self.pendingStatsRequests[key, default: []].append { reports in
+                var entry = self.streamPayload(target.stream)
+                entry["participantId"] = target.participantId
+                entry["isLocal"] = target.isLocal
+                entry["reports"] = reports
+                results.append(entry)
+                remaining -= 1
+                if remaining == 0 { finish() }
+            }
+            do {
+                try target.stream.requestRTCStats()
+            } catch {
+                print("IVSStageManager: Failed to request RTC stats for \(target.stream.device.descriptor().urn): \(error)")
+                self.pendingStatsRequests[key]?.removeLast()
+                remaining -= 1
+            }
+        }
+        if remaining == 0 {
+            finish()
+            return
+        }
+
+        DispatchQueue.main.asyncAfter(deadline: .now() + IVSStageManager.statsTimeout) {
+            guard !finished else { return }
+            for target in targets {
+                self.pendingStatsRequests.removeValue(forKey: ObjectIdentifier(target.stream))
+            }
+            finish()
+        }
+    }
+}
+
+// MARK: - Devices
+extension IVSStageManager {
+    /// Cameras and microphones the app can select, mirroring `MediaDevice` in JS
+    func listDevices() -> [[String: Any]] {
+        let cameras = IVSBroadcastSession.listAvailableDevices().filter { $0.type == .camera }.map { cameraPayload($0) }
+        let microphones = (AVAudioSession.sharedInstance().availableInputs ?? []).map { microphonePayload($0) }
+        return cameras + microphones
+    }
+
+    func selectCamera(urn: String) throws {
+        guard let descriptor = IVSBroadcastSession.listAvailableDevices().first(where: { $0.type == .camera && $0.urn == urn }) else {
+            throw DeviceNotFoundException((type: "camera", urn: urn))
+        }
+        let position: AVCaptureDevice.Position = descriptor.position == .back ? .back : .front
+        print("📸 [iOS Camera Select] Selecting \(descriptor.friendlyName)")
+
+        if self.useCustomCameraCapture, let capture = self.customCameraCapture {
+            if capture.switchCamera(to: position) {
+                emitCameraSwapped(position: position)
+            } else {
+                delegate?.stageManagerDidEmitEvent(eventName: "onCameraSwapError", body: ["reason": "Failed to switch to \(descriptor.friendlyName)."])
+            }
+            return
+        }
+
+        let camera = self.availableCameras.first(where: { $0.descriptor().urn == urn })
+            ?? IVSDeviceDiscovery().listLocalDevices().first(where: { $0.descriptor().urn == urn }) as? IVSCamera
+        guard self.cameraStream != nil else {
+            // Picked up when the local streams are created
+            self.preferredCameraPosition = position
+            if let camera = camera {
+                self.currentCameraDevice = camera
+            }
+            return
+        }
+        guard let camera = camera else {
+            throw DeviceNotFoundException((type: "camera", urn: urn))
+        }
+        if self.currentCameraDevice?.descriptor().urn == urn { return }
+        switchNativeCamera(to: camera)
+    }
+
+    func selectMicrophone(urn: String) throws {
+        let session = AVAudioSession.sharedInstance()
+        guard let input = session.availableInputs?.first(where: { $0.uid == urn }) else {
+            throw DeviceNotFoundException((type: "microphone", urn: urn))
+        }
+        // The microphone stream follows the audio session's input route
+        try session.setPreferredInput(input)
+        print("🎙️ [IVSStageManager] Preferred microphone set to \(input.portName)")
+    }
+
+    private func cameraPayload(_ descriptor: IVSDeviceDescriptor) -> [String: Any] {
+        let position: String
+        switch descriptor.position {
+        case .front: position = "front"
+        case .back: position = "back"
+        default: position = "other"
+        }
+        return ["urn": descriptor.urn, "name": descriptor.friendlyName, "type": "camera", "position": position]
+    }
+
+    private func microphonePayload(_ port: AVAudioSessionPortDescription) -> [String: Any] {
+        let position: String
+        switch port.portType {
+        case .bluetoothHFP, .bluetoothLE, .bluetoothA2DP: position = "bluetooth"
+        case .usbAudio: position = "usb"
+        case .headsetMic, .lineIn: position = "auxiliary"
+        default: position = "other"
+        }
+        return ["urn": port.uid, "name": port.portName, "type": "microphone", "position": position]
+    }
+
+    private func emitCameraSwapped(descriptor: IVSDeviceDescriptor) {
+        delegate?.stageManagerDidEmitEvent(eventName: "onCameraSwapped", body: [
+            "device": cameraPayload(descriptor),
+            "newCameraURN": descriptor.urn,
+            "newCameraName": descriptor.friendlyName
+        ])
+    }
+
+    // The custom capture switches by position; report the matching camera
+    private func emitCameraSwapped(position: AVCaptureDevice.Position) {
+        let ivsPosition: IVSDevicePosition = position == .back ? .back : .front
+        if let descriptor = IVSBroadcastSession.listAvailableDevices().first(where: { $0.type == .camera && $0.position == ivsPosition }) {
+            emitCameraSwapped(descriptor: descriptor)
+        }
+    }
+
+    func observeDeviceChanges() {
+        let center = NotificationCenter.default
+        center.addObserver(self, selector: #selector(audioRouteDidChange(_:)), name: AVAudioSession.routeChangeNotification, object: nil)
+        center.addObserver(self, selector: #selector(captureDevicesDidChange(_:)), name: .AVCaptureDeviceWasConnected, object: nil)
+        center.addObserver(self, selector: #selector(captureDevicesDidChange(_:)), name: .AVCaptureDeviceWasDisconnected, object: nil)
+    }
+
+    @objc private func audioRouteDidChange(_ notification: Notification) {
+        guard let rawReason = notification.userInfo?[AVAudioSessionRouteChangeReasonKey] as? UInt,
+              let reason = AVAudioSession.RouteChangeReason(rawValue: rawReason),
+              reason == .newDeviceAvailable || reason == .oldDeviceUnavailable else { return }
+        emitDevicesChanged()
+    }
+
+    @objc private func captureDevicesDidChange(_ notification: Notification) {
+        emitDevicesChanged()
+    }
+
+    private func emitDevicesChanged() {
+        DispatchQueue.main.async {
+            self.delegate?.stageManagerDidEmitEvent(eventName: "onDevicesChanged", body: ["devices": self.listDevices()])
+        }
+    }
+}
+
+// MARK: - Camera Controls
+extension IVSStageManager {
+    // The custom capture owns its device; with the SDK's camera, the descriptor's deviceId is the AVCaptureDevice uniqueID
+    private func activeCaptureDevice() throws -> AVCaptureDevice {
+        if self.useCustomCameraCapture, let device = self.customCameraCapture?.captureDevice {
+            return device
+        }
+        if self.cameraStream != nil, let camera = self.currentCameraDevice,
+           let device = AVCaptureDevice(uniqueID: camera.descriptor().deviceId) {
+            return device
+        }
+        throw NoActiveCameraException()
+    }
+
+    private func configure(_ device: AVCaptureDevice, _ changes: (AVCaptureDevice) throws -> Void) throws {
+        try device.lockForConfiguration()
+        defer { device.unlockForConfiguration() }
+        try changes(device)
+    }
+
+    /// Mirrors `CameraCapabilities` in JS
+    func cameraCapabilities() throws -> [String: Any] {
+        let device = try activeCaptureDevice()
+        return [
+            "minZoom": Double(device.minAvailableVideoZoomFactor),
+            "maxZoom": Double(device.maxAvailableVideoZoomFactor),
+            "zoom": Double(device.videoZoomFactor),
+            "hasTorch": device.hasTorch && device.isTorchAvailable,
+            "torch": device.torchMode == .on,
+            "supportsFocusPoint": device.isFocusPointOfInterestSupported,
+            "minExposureBias": Double(device.minExposureTargetBias),
+            "maxExposureBias": Double(device.maxExposureTargetBias),
+            "exposureBias": Double(device.exposureTargetBias)
+        ]
+    }
+
+    func setZoom(factor: Double) throws {
+        let device = try activeCaptureDevice()
+        guard device.maxAvailableVideoZoomFactor > device.minAvailableVideoZoomFactor else {
+            throw CameraControlUnsupportedException("zoom")
+        }
+        let clamped = min(max(CGFloat(factor), device.minAvailableVideoZoomFactor), device.maxAvailableVideoZoomFactor)
+        try configure(device) { $0.videoZoomFactor = clamped }
+    }
+
+    func setTorch(on: Bool) throws {
+        let device = try activeCaptureDevice()
+        guard device.hasTorch, device.isTorchAvailable else {
+            throw CameraControlUnsupportedException("torch")
+        }
+        try configure(device) { $0.torchMode = on ? .on : .off }
+        print("📸 [IVSStageManager] Torch \(on ? "on" : "off")")
+    }
+
+    /// `x` and `y` are 0...1 across the portrait preview as shown (mirrored for the front camera)
+    func setFocusPoint(x: Double, y: Double) throws {
+        let device = try activeCaptureDevice()
+        guard device.isFocusPointOfInterestSupported else {
+            throw CameraControlUnsupportedException("focus")
+        }
+        // Device points are in the sensor's landscape orientation
+        let viewX = min(max(x, 0), 1)
+        let viewY = min(max(y, 0), 1)
+        let point = CGPoint(x: viewY, y: device.position == .front ? viewX : 1 - viewX)
+        try configure(device) { device in
+            device.focusPointOfInterest = point
+            if device.isFocusModeSupported(.autoFocus) {
+                device.focusMode = .autoFocus
+            }
+            if device.isExposurePointOfInterestSupported {
+                device.exposurePointOfInterest = point
+                if device.isExposureModeSupported(.autoExpose) {
+                    device.exposureMode = .autoExpose
+                }
+            }
+        }
+    }
+
+    func setExposureBias(_ value: Double) throws {
+        let device = try activeCaptureDevice()
+        guard device.maxExposureTargetBias > device.minExposureTargetBias else {
+            throw CameraControlUnsupportedException("exposure")
+        }
+        let clamped = min(max(Float(value), device.minExposureTargetBias), device.maxExposureTargetBias)
+        try configure(device) { $0.setExposureTargetBias(clamped, completionHandler: nil) }
+    }
+}
+
+// MARK: - Audio Levels
+extension IVSStageManager {
+    // RMS at or below this maps to level 0
+    private static let audioLevelFloorDb: Float = -60
+
+    /// Start emitting onAudioLevels every `interval` seconds, or stop when nil
+    func setAudioLevelsInterval(_ interval: TimeInterval?) {
+        self.audioLevelTimer?.invalidate()
+        self.audioLevelTimer = nil
+        guard let interval = interval, interval > 0 else {
+            detachAudioLevelCallbacks()
+            return
+        }
+        self.audioLevelTimer = Timer.scheduledTimer(withTimeInterval: interval, repeats: true) { [weak self] _ in
+            self?.emitAudioLevels()
+        }
+        print("IVSStageManager: Reporting audio levels every \(interval)s")
+    }
+
+    // Audio streams to report, as (participantId, isLocal, device)
+    private func audioLevelSources() -> [(String, Bool, IVSAudioDevice)] {
+        guard self.stage != nil else { return [] }
+        var sources: [(String, Bool, IVSAudioDevice)] = []
+        if let microphone = self.microphoneStream?.device as? IVSAudioDevice {
+            sources.append((self.localParticipantId ?? "", true, microphone))
+        }
+        for participant in self.participants {
+            for stream in participant.streams {
+                if let audioDevice = stream.device as? IVSAudioDevice {
+                    sources.append((participant.info.participantId ?? "", false, audioDevice))
+                }
+            }
+        }
+        return sources
+    }
+
+    private func emitAudioLevels() {
+        let sources = audioLevelSources()
+
+        audioLevelLock.lock()
+        let peaks = self.audioLevelPeaks
+        self.audioLevelPeaks = [:]
+        audioLevelLock.unlock()
+        let attached = self.audioLevelDevices
+
+        // Streams come and go between reports; attach to new ones and let go of departed ones
+        let currentUrns = Set(sources.map { $0.2.descriptor().urn })
+        for (urn, device) in attached where !currentUrns.contains(urn) {
+            device.setStatsCallback(nil)
+        }
+        var devices: [String: IVSAudioDevice] = [:]
+        for (_, _, device) in sources {
+            let urn = device.descriptor().urn
+            if attached[urn] == nil {
+                device.setStatsCallback { [weak self] stats in
+                    guard let self = self else { return }
+                    self.audioLevelLock.lock()
+                    self.audioLevelPeaks[urn] = max(self.audioLevelPeaks[urn] ?? -Float.infinity, stats.rms)
+                    self.audioLevelLock.unlock()
+                }
+            }
+            devices[urn] = device
+        }
+        self.audioLevelDevices = devices
+
+        guard !sources.isEmpty else { return }
+        let levels: [[String: Any]] = sources.map { participantId, isLocal, device in
+            let urn = device.descriptor().urn
+            let rms = peaks[urn] ?? -Float.infinity
+            let level = min(max((rms - IVSStageManager.audioLevelFloorDb) / -IVSStageManager.audioLevelFloorDb, 0), 1)
+            return ["participantId": participantId, "deviceUrn": urn, "isLocal": isLocal, "level": Double(level)]
+        }
+        delegate?.stageManagerDidEmitEvent(eventName: "onAudioLevels", body: ["levels": levels])
+    }
+
+    private func detachAudioLevelCallbacks() {
+        self.audioLevelDevices.values.forEach { $0.setStatsCallback(nil) }
+        self.audioLevelDevices = [:]
+        audioLevelLock.lock()
+        self.audioLevelPeaks = [:]
+        audioLevelLock.unlock()
+    }
+}
+
 // MARK: - IVSStageStreamDelegate
 extension IVSStageManager {
     func stream(_ stream: IVSStageStream, didChangeMuted muted: Bool) {
@@ -1931,6 +2706,13 @@ extension IVSStageManager {
         // We could emit an event if JS needs to know our own mute state changed.
         print("IVSStageManager: Stream \(stream.device.descriptor().urn) mute state changed to \(muted)")
     }
+
+    func stream(_ stream: IVSStageStream, didGenerateRTCStats stats: [String: [String: String]]) {
+        DispatchQueue.main.async {
+            let callbacks = self.pendingStatsRequests.removeValue(forKey: ObjectIdentifier(stream)) ?? []
+            callbacks.forEach { $0(stats) }
+        }
+    }
 }
 
 // A simple weak reference class to avoid memory leaks.
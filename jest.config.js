@@ -0,0 +1,7 @@
+const preset = require('expo-module-scripts/jest-preset');
+
+// The module's iOS, Android, web and Node projects, plus the config plugin's tests
+module.exports = {
+  ...preset,
+  projects: [...preset.projects, '<rootDir>/plugin'],
+};
@@ -0,0 +1,126 @@
+import { AndroidConfig, ExportedConfig, Mod, XML } from 'expo/config-plugins';
+
+import withExpoRealtimeIvsBroadcast, { ExpoRealtimeIvsBroadcastPluginProps } from '..';
+
+type ModPlatform = 'ios' | 'android';
+
+// Runs one mod the plugin registered, the way `expo prebuild` would, on the given file contents
+async function runMod<T>(config: ExportedConfig, platform: ModPlatform, mod: string, modResults: T): Promise<T> {
+  const action = (config.mods?.[platform] as Record<string, Mod<T>> | undefined)?.[mod];
+  if (!action) {
+    return modResults;
+  }
+  const result = await action({
+    ...config,
+    modResults,
+    modRawConfig: { name: config.name, slug: config.slug },
+    modRequest: {
+      projectRoot: '/app',
+      platformProjectRoot: `/app/${platform}`,
+      platform,
+      modName: mod,
+      introspect: true,
+    },
+  });
+  return result.modResults;
+}
+
+function androidManifest(): AndroidConfig.Manifest.AndroidManifest {
+  return {
+    manifest: {
+      $: { 'xmlns:android': 'http://schemas.android.com/apk/res/android' },
+      'uses-permission': [{ $: { 'android:name': 'android.permission.INTERNET' } }],
+      queries: [],
+      application: [
+        {
+          $: { 'android:name': '.MainApplication' },
+          activity: [
+            {
+              $: {
+                'android:name': '.MainActivity',
+                'android:configChanges': 'keyboard|keyboardHidden|orientation|screenSize|uiMode',
+              },
+            },
+          ],
+        },
+      ],
+    },
+  };
+}
+
+function gradleProperties(minSdkVersion?: string): AndroidConfig.Properties.PropertiesItem[] {
+  const properties = 'org.gradle.jvmargs=-Xmx2048m\nhermesEnabled=true\n';
+  return AndroidConfig.Properties.parsePropertiesFile(
+    minSdkVersion ? `${properties}android.minSdkVersion=${minSdkVersion}\n` : properties
+  );
+}
+
+async function prebuild(
+  props?: ExpoRealtimeIvsBroadcastPluginProps,
+  files: {
+    infoPlist?: Record<string, unknown>;
+    gradleProperties?: AndroidConfig.Properties.PropertiesItem[];
+  } = {}
+) {
+  const config = withExpoRealtimeIvsBroadcast({ name: 'app', slug: 'app' }, props) as ExportedConfig;
+  const infoPlist = await runMod(config, 'ios', 'infoPlist', { CFBundleName: 'app', ...files.infoPlist });
+  const manifest = await runMod(config, 'android', 'manifest', androidManifest());
+  const properties = await runMod(config, 'android', 'gradleProperties', files.gradleProperties ?? gradleProperties());
+  return {
+    infoPlist,
+    androidManifest: XML.format(manifest),
+    gradleProperties: AndroidConfig.Properties.propertiesListToString(properties),
+  };
+}
+
+describe('withExpoRealtimeIvsBroadcast', () => {
+  it('adds the default usage descriptions and minSdkVersion without props', async () => {
+    expect(await prebuild()).toMatchSnapshot();
+  });
+
+  it('uses custom usage descriptions', async () => {
+    expect(
+      await prebuild({
+        cameraPermission: 'Go live with your camera',
+        microphonePermission: 'Go live with your microphone',
+      })
+    ).toMatchSnapshot();
+  });
+
+  it('keeps usage descriptions already in the Info.plist', async () => {
+    const { infoPlist } = await prebuild(undefined, {
+      infoPlist: { NSCameraUsageDescription: 'Scan QR codes', NSMicrophoneUsageDescription: 'Record voice notes' },
+    });
+    expect(infoPlist).toMatchSnapshot();
+  });
+
+  it('removes the camera and microphone permissions that are set to false', async () => {
+    expect(await prebuild({ cameraPermission: false, microphonePermission: false })).toMatchSnapshot();
+  });
+
+  it('configures Picture-in-Picture on both platforms', async () => {
+    expect(await prebuild({ enablePiP: true })).toMatchSnapshot();
+  });
+
+  it('adds only the iOS audio background mode for backgroundAudio', async () => {
+    expect(await prebuild({ backgroundAudio: true })).toMatchSnapshot();
+  });
+
+  it('adds the audio background mode once with enablePiP and backgroundAudio', async () => {
+    const { infoPlist } = await prebuild(
+      { enablePiP: true, backgroundAudio: true },
+      { infoPlist: { UIBackgroundModes: ['voip', 'audio'] } }
+    );
+    expect(infoPlist).toMatchSnapshot();
+  });
+
+  it('raises a lower android.minSdkVersion to 28', async () => {
+    const { gradleProperties: properties } = await prebuild(undefined, { gradleProperties: gradleProperties('24') });
+    expect(properties).toMatchSnapshot();
+  });
+
+  it('keeps an android.minSdkVersion above 28', async () => {
+    const { gradleProperties: properties } = await prebuild(undefined, { gradleProperties: gradleProperties('31') });
+    expect(properties).toMatchSnapshot();
+  });
+});
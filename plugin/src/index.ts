@@ -0,0 +1,113 @@
+import {
+  AndroidConfig,
+  ConfigPlugin,
+  createRunOncePlugin,
+  withAndroidManifest,
+  withGradleProperties,
+  withInfoPlist,
+} from 'expo/config-plugins';
+
+const pkg = require('../../package.json');
+
+export type ExpoRealtimeIvsBroadcastPluginProps = {
+  /**
+   * `NSCameraUsageDescription` on iOS. `false` leaves it out on iOS and removes the `CAMERA`
+   * permission on Android, for apps that only watch.
+   * @default 'Allow $(PRODUCT_NAME) to use your camera to broadcast video.'
+   */
+  cameraPermission?: string | false;
+  /**
+   * `NSMicrophoneUsageDescription` on iOS. `false` leaves it out on iOS and removes the `RECORD_AUDIO`
+   * permission on Android.
+   * @default 'Allow $(PRODUCT_NAME) to use your microphone to broadcast audio.'
+   */
+  microphonePermission?: string | false;
+  /**
+   * Picture-in-Picture: the `audio` background mode on iOS, `supportsPictureInPicture` and the
+   * matching `configChanges` on the Android main activity
+   * @default false
+   */
+  enablePiP?: boolean;
+  /**
+   * Keep stage audio running in the background: the `audio` background mode on iOS. iOS only;
+   * on Android the module has no foreground service, so audio stops with the activity either way
+   * @default false
+   */
+  backgroundAudio?: boolean;
+};
+
+const CAMERA_USAGE = 'Allow $(PRODUCT_NAME) to use your camera to broadcast video.';
+const MICROPHONE_USAGE = 'Allow $(PRODUCT_NAME) to use your microphone to broadcast audio.';
+
+// IVSStageManager needs API 28; Expo apps default to a lower minSdkVersion
+const MIN_SDK_VERSION = 28;
+
+// PiP resizes the activity; without these it is recreated on entering and leaving PiP
+const PIP_CONFIG_CHANGES = ['screenSize', 'smallestScreenSize', 'screenLayout', 'orientation'];
+
+const withIosConfig: ConfigPlugin<ExpoRealtimeIvsBroadcastPluginProps> = (config, props) =>
+  withInfoPlist(config, (config) => {
+    const infoPlist = config.modResults;
+    // An existing description set by the app or another plugin wins over the default
+    if (props.cameraPermission !== false) {
+      infoPlist.NSCameraUsageDescription = props.cameraPermission ?? infoPlist.NSCameraUsageDescription ?? CAMERA_USAGE;
+    }
+    if (props.microphonePermission !== false) {
+      infoPlist.NSMicrophoneUsageDescription =
+        props.microphonePermission ?? infoPlist.NSMicrophoneUsageDescription ?? MICROPHONE_USAGE;
+    }
+    if (props.enablePiP || props.backgroundAudio) {
+      const modes: string[] = infoPlist.UIBackgroundModes ?? [];
+      infoPlist.UIBackgroundModes = modes.includes('audio') ? modes : [...modes, 'audio'];
+    }
+    return config;
+  });
+
+const withAndroidManifestConfig: ConfigPlugin<ExpoRealtimeIvsBroadcastPluginProps> = (config, props) =>
+  withAndroidManifest(config, (config) => {
+    const manifest = config.modResults;
+    if (props.enablePiP) {
+      const activity = AndroidConfig.Manifest.getMainActivityOrThrow(manifest);
+      activity.$['android:supportsPictureInPicture'] = 'true';
+      const configChanges = (activity.$['android:configChanges'] ?? '').split('|').filter(Boolean);
+      activity.$['android:configChanges'] = [
+        ...configChanges,
+        ...PIP_CONFIG_CHANGES.filter((change) => !configChanges.includes(change)),
+      ].join('|');
+    }
+    return config;
+  });
+
+const withMinSdkVersion: ConfigPlugin = (config) =>
+  withGradleProperties(config, (config) => {
+    const properties = config.modResults;
+    const existing = properties.find(
+      (item): item is Extract<typeof item, { type: 'property' }> =>
+        item.type === 'property' && item.key === 'android.minSdkVersion'
+    );
+    if (!existing) {
+      properties.push({ type: 'property', key: 'android.minSdkVersion', value: String(MIN_SDK_VERSION) });
+    } else if (!(Number(existing.value) >= MIN_SDK_VERSION)) {
+      existing.value = String(MIN_SDK_VERSION);
+    }
+    return config;
+  });
+
+const withExpoRealtimeIvsBroadcast: ConfigPlugin<ExpoRealtimeIvsBroadcastPluginProps | void> = (config, props) => {
+  const options = props ?? {};
+  config = withIosConfig(config, options);
+  config = withAndroidManifestConfig(config, options);
+  config = withMinSdkVersion(config);
+
+  // The library manifest requests both; drop the ones the app opted out of
+  const blocked = [
+    options.cameraPermission === false && 'android.permission.CAMERA',
+    options.microphonePermission === false && 'android.permission.RECORD_AUDIO',
+  ].filter((permission): permission is string => !!permission);
+  if (blocked.length > 0) {
+    config = AndroidConfig.Permissions.withBlockedPermissions(config, blocked);
+  }
+  return config;
+};
+
+export default createRunOncePlugin(withExpoRealtimeIvsBroadcast, pkg.name, pkg.version);
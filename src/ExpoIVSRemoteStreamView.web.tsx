@@ -0,0 +1,63 @@
+import * as React from 'react';
+import { ExpoIVSRemoteStreamViewProps, RemoteStreamViewEventPayload } from './ExpoRealtimeIvsBroadcast.types';
+import { webStageMedia } from './webStageMedia';
+import { WebStageVideo } from './WebStageVideo';
+
+// Binds to a remote video stream the same way the native view does; see `ExpoIVSRemoteStreamViewProps`
+export function ExpoIVSRemoteStreamView({
+  style,
+  participantId,
+  deviceUrn,
+  scaleMode,
+  onStreamAttached,
+  onStreamDetached,
+  onFirstFrameRendered,
+}: ExpoIVSRemoteStreamViewProps) {
+  const [viewId, setViewId] = React.useState<number | null>(null);
+
+  React.useEffect(() => {
+    const id = webStageMedia.registerView({ participantId, deviceUrn });
+    setViewId(id);
+    return () => webStageMedia.unregisterView(id);
+    // Registered once; binding changes go through updateView below
+  }, []);
+
+  React.useEffect(() => {
+    if (viewId !== null) webStageMedia.updateView(viewId, { participantId, deviceUrn });
+  }, [viewId, participantId, deviceUrn]);
+
+  const video = React.useSyncExternalStore(
+    (listener) => webStageMedia.subscribe(listener),
+    () => (viewId !== null ? webStageMedia.getViewVideo(viewId) : null),
+    () => null
+  );
+
+  // Latest callbacks, so attach and detach events don't depend on handler identity
+  const handlers = React.useRef({ onStreamAttached, onStreamDetached, onFirstFrameRendered });
+  handlers.current = { onStreamAttached, onStreamDetached, onFirstFrameRendered };
+
+  React.useEffect(() => {
+    if (!video) return;
+    const payload: RemoteStreamViewEventPayload = { participantId: video.participantId, deviceUrn: video.deviceUrn };
+    handlers.current.onStreamAttached?.({ nativeEvent: payload });
+    return () => handlers.current.onStreamDetached?.({ nativeEvent: payload });
+  }, [video]);
+
+  const onFirstFrame = React.useCallback(() => {
+    if (video) {
+      handlers.current.onFirstFrameRendered?.({
+        nativeEvent: { participantId: video.participantId, deviceUrn: video.deviceUrn },
+      });
+    }
+  }, [video]);
+
+  return (
+    <WebStageVideo
+      source="remote"
+      track={video?.track ?? null}
+      style={style}
+      scaleMode={scaleMode}
+      onFirstFrame={onFirstFrame}
+    />
+  );
+}
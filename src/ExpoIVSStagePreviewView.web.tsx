@@ -0,0 +1,14 @@
+import * as React from 'react';
+import { ExpoIVSStagePreviewViewProps } from './ExpoRealtimeIvsBroadcast.types';
+import { webStageMedia } from './webStageMedia';
+import { WebStageVideo } from './WebStageVideo';
+
+// Shows the camera track created by `initializeLocalStreams`
+export function ExpoIVSStagePreviewView({ style, mirror, scaleMode }: ExpoIVSStagePreviewViewProps) {
+  const track = React.useSyncExternalStore(
+    (listener) => webStageMedia.subscribe(listener),
+    () => webStageMedia.getLocalVideo(),
+    () => null
+  );
+  return <WebStageVideo source="local" track={track} style={style} mirror={mirror} scaleMode={scaleMode} />;
+}
@@ -2,11 +2,257 @@ import type { StyleProp, ViewStyle } from 'react-native';
 
 // Configuration types for the initialize method
 export interface LocalAudioConfig {
-  // Future properties: e.g., bitrate?: number;
+  /**
+   * Maximum audio bitrate in bps
+   * @default 64000
+   */
+  bitrate?: number;
+
+  /**
+   * 1 for voice-optimized mono, 2 for music-quality stereo.
+   * Stereo requires `echoCancellation` and `autoGainControl` to be disabled. On iOS and Android
+   * the channel count follows voice processing: with both disabled, audio is captured in stereo
+   * even when 1 is requested. Only web captures mono without voice processing.
+   * @default 1
+   */
+  channels?: 1 | 2;
+
+  /**
+   * Remove speaker playback from the microphone signal
+   * @default true
+   */
+  echoCancellation?: boolean;
+
+  /**
+   * Normalize microphone input level
+   * @default true
+   */
+  autoGainControl?: boolean;
+
+  /**
+   * Suppress steady background noise such as fans or traffic
+   * @default true
+   */
+  noiseSuppression?: boolean;
 }
 
+/**
+ * How the encoder trades quality when bandwidth or CPU is constrained
+ * - 'balanced': Lower both resolution and framerate as needed
+ * - 'maintain_framerate': Prefer dropping resolution over dropping frames
+ * - 'maintain_resolution': Prefer dropping frames over dropping resolution
+ */
+export type VideoDegradationPreference = 'balanced' | 'maintain_framerate' | 'maintain_resolution';
+
 export interface LocalVideoConfig {
-  // Future properties: e.g., width?: number; height?: number; targetFramerate?: number; maxBitrate?: number;
+  /**
+   * Set to false to skip camera capture entirely and publish audio only
+   * @default true
+   */
+  enabled?: boolean;
+
+  /**
+   * Encoded video width in pixels. Must be provided together with `height`.
+   * @default 720
+   */
+  width?: number;
+
+  /**
+   * Encoded video height in pixels. Must be provided together with `width`.
+   * @default 1280
+   */
+  height?: number;
+
+  /**
+   * Target frames per second
+   * @default 30
+   */
+  targetFramerate?: number;
+
+  /**
+   * Lowest bitrate (bps) the encoder may drop to under congestion
+   */
+  minBitrate?: number;
+
+  /**
+   * Highest bitrate (bps) the encoder may use
+   */
+  maxBitrate?: number;
+
+  /**
+   * Quality trade-off when the encoder has to degrade
+   * @default 'balanced'
+   */
+  degradationPreference?: VideoDegradationPreference;
+
+  /**
+   * Simulcast publishes several encodings of the camera so that subscribers
+   * on poor networks can receive a lower layer
+   */
+  simulcast?: {
+    enabled: boolean;
+  };
+}
+
+/**
+ * Audio configuration the native SDK actually applied.
+ * Can differ from the request where a platform couples settings, e.g. iOS
+ * enables echo cancellation and auto gain control together, and
+ * captures stereo whenever both are disabled.
+ */
+export interface EffectiveAudioConfig {
+  bitrate: number;
+  channels: 1 | 2;
+  echoCancellation: boolean;
+  autoGainControl: boolean;
+  noiseSuppression: boolean;
+}
+
+/**
+ * Video configuration the native SDK actually applied
+ */
+export interface EffectiveVideoConfig {
+  width: number;
+  height: number;
+  targetFramerate: number;
+  minBitrate: number;
+  maxBitrate: number;
+}
+
+/**
+ * Returned by `initializeLocalStreams`. A side is `null` when no device was available for it.
+ */
+export interface LocalStreamsConfiguration {
+  audio: EffectiveAudioConfig | null;
+  video: EffectiveVideoConfig | null;
+}
+
+// --- Reconnect Types ---
+
+/**
+ * Opt-in policy for re-joining the stage after it disconnects with an error.
+ * The delay before attempt `n` is `initialDelayMs * backoffMultiplier^(n - 1)`,
+ * capped at `maxDelayMs` and then randomized by `jitter`.
+ */
+export interface ReconnectPolicy {
+  /**
+   * Give up after this many failed attempts
+   * @default 5
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first attempt, in milliseconds
+   * @default 1000
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for the backoff delay, in milliseconds
+   * @default 30000
+   */
+  maxDelayMs?: number;
+  /**
+   * Factor applied to the delay after each failed attempt
+   * @default 2
+   */
+  backoffMultiplier?: number;
+  /**
+   * Fraction of the delay to randomize by, between 0 and 1. `0.2` spreads a 1000ms delay over 800–1200ms.
+   * @default 0.2
+   */
+  jitter?: number;
+  /**
+   * How long to wait for the stage to report `connected` after each join, in milliseconds
+   * @default 15000
+   */
+  connectTimeoutMs?: number;
+  /**
+   * Decide whether a disconnect error is worth retrying. Retries every error by default.
+   */
+  shouldRetry?: (error: string) => boolean;
+  /**
+   * Fetch a fresh participant token before each attempt. The original token is reused when omitted.
+   * Ignored when `joinStage` was given a `TokenProvider`.
+   */
+  refreshToken?: () => Promise<string>;
+}
+
+/**
+ * Supplies participant tokens for sessions that outlive a single token
+ */
+export type TokenProvider = () => Promise<string>;
+
+/**
+ * When a `TokenProvider` was called:
+ * - 'join': the initial `joinStage`
+ * - 'reconnect': before an automatic reconnect attempt
+ * - 'refresh': ahead of the current token's expiry
+ */
+export type TokenProviderPhase = 'join' | 'reconnect' | 'refresh';
+
+export interface JoinStageOptions {
+  targetParticipantId?: string;
+  /**
+   * Re-join automatically after an unexpected disconnect. Pass `true` for the default policy.
+   * Publish and mute state are restored once the stage reconnects.
+   */
+  reconnect?: ReconnectPolicy | boolean;
+  /**
+   * With a `TokenProvider`, how long before expiry a new token is fetched, in milliseconds
+   * @default 60000
+   */
+  tokenRefreshMarginMs?: number;
+}
+
+/**
+ * What to receive from a remote participant:
+ * - 'audio_video': audio and video
+ * - 'audio_only': audio only, no video is downloaded
+ * - 'none': nothing; the participant still appears in participant events
+ */
+export type SubscribeType = 'audio_video' | 'audio_only' | 'none';
+
+/**
+ * Picks a subscribe type from a participant's token attributes.
+ * Return `undefined` to fall back to the strategy's default.
+ */
+export type SubscribeTypeResolver = (participant: ParticipantPayload) => SubscribeType | undefined;
+
+export interface SubscribeStrategy {
+  /**
+   * Used for participants without an override
+   * @default 'audio_video'
+   */
+  default?: SubscribeType;
+  /** Subscribe types keyed by participant ID. Take precedence over `resolve`. */
+  participants?: Record<string, SubscribeType>;
+  /** Evaluated for each remote participant as it joins */
+  resolve?: SubscribeTypeResolver;
+}
+
+export interface TokenProviderErrorPayload {
+  phase: TokenProviderPhase;
+  error: string;
+}
+
+export interface ReconnectingPayload {
+  /** 1-based attempt about to be made */
+  attempt: number;
+  maxAttempts: number;
+  /** Delay before this attempt starts */
+  delayMs: number;
+  /** The error that caused the disconnect, or the previous attempt's failure */
+  error: string;
+}
+
+export interface ReconnectedPayload {
+  /** Number of attempts it took to reconnect */
+  attempts: number;
+}
+
+export interface ReconnectFailedPayload {
+  /** Number of attempts made before giving up. `0` when `shouldRetry` rejected the first error. */
+  attempts: number;
+  error: string;
 }
 
 // Permission status types for requestPermissions method
@@ -22,9 +268,19 @@ export interface StageConnectionStatePayload {
   error?: string;
 }
 
+/**
+ * Which local media kinds are published while `setStreamsPublished(true)` is in effect
+ */
+export interface PublishedMedia {
+  audio: boolean;
+  video: boolean;
+}
+
 export interface PublishStatePayload {
   state: 'not_published' | 'attempting' | 'published' | 'failed'; // Added 'failed' as a common case
   error?: string;
+  /** Media kinds currently live on the stage. Both `false` unless `state` is 'published'. */
+  media: PublishedMedia;
 }
 
 export interface StageErrorPayload {
@@ -34,11 +290,81 @@ export interface StageErrorPayload {
   isFatal: boolean;
 }
 
+export type MediaDeviceType = 'camera' | 'microphone';
+
+/**
+ * Where a device sits. Cameras are 'front' or 'back'; external microphones are
+ * 'bluetooth', 'usb' or 'auxiliary' (wired headset or line in).
+ */
+export type DevicePosition = 'front' | 'back' | 'bluetooth' | 'usb' | 'auxiliary' | 'other';
+
+export interface MediaDevice {
+  /** Pass to `selectCamera` or `selectMicrophone` */
+  urn: string;
+  name: string;
+  type: MediaDeviceType;
+  position: DevicePosition;
+}
+
+export interface DevicesChangedPayload {
+  /** Every device after the change, as returned by `listDevices` */
+  devices: MediaDevice[];
+}
+
 export interface CameraSwappedPayload {
+  /** The camera now in use */
+  device: MediaDevice;
+  /** @deprecated Use `device.urn` */
   newCameraURN: string;
+  /** @deprecated Use `device.name` */
   newCameraName: string;
 }
 
+/**
+ * What the frame sent in place of camera video shows while the camera is muted.
+ * Colors are hex strings: `#RGB`, `#RRGGBB` or `#RRGGBBAA`.
+ */
+export interface PlaceholderOptions {
+  /** @default 'Host is away' */
+  text?: string;
+  /** @default '#262626' */
+  backgroundColor?: string;
+  /** @default '#FFFFFF' */
+  textColor?: string;
+  /**
+   * In pixels of the 720x1280 placeholder frame
+   * @default 48
+   */
+  fontSize?: number;
+  /** Local `file://` URI or path of an image (logo, avatar) drawn in the middle of the frame */
+  imageUri?: string;
+  /**
+   * 'center' places the text below the image when there is one
+   * @default 'center'
+   */
+  textPosition?: 'top' | 'center' | 'bottom';
+}
+
+export type CameraControl = 'zoom' | 'torch' | 'focus' | 'exposure';
+
+/**
+ * What the active camera supports, from `getCameraCapabilities`
+ */
+export interface CameraCapabilities {
+  /** Zoom factors accepted by `setZoom`. Both `1` when zoom is unsupported. */
+  minZoom: number;
+  maxZoom: number;
+  zoom: number;
+  hasTorch: boolean;
+  /** Whether the torch is on */
+  torch: boolean;
+  supportsFocusPoint: boolean;
+  /** Exposure bias range in EV units. Both `0` when exposure bias is unsupported. */
+  minExposureBias: number;
+  maxExposureBias: number;
+  exposureBias: number;
+}
+
 export interface CameraSwapErrorPayload {
   reason: string;
 }
@@ -52,15 +378,30 @@ export interface CameraMuteStatePayload {
 export interface StageStream {
   deviceUrn: string;
   mediaType: 'video' | 'audio' | 'unknown';
+  /** Whether the publisher has muted this stream (mic off / camera off) */
+  muted: boolean;
+}
+
+/**
+ * Identity fields IVS reports for a participant
+ */
+export interface ParticipantInfo {
+  /** The `userId` passed to CreateParticipantToken, if any */
+  userId?: string;
+  /** Attributes from the participant token, e.g. a display name or avatar URL */
+  attributes: Record<string, string>;
+  isLocal: boolean;
+  /** When this client saw the participant join, in milliseconds since the epoch */
+  joinedAt: number;
 }
 
-export interface Participant {
+export interface Participant extends ParticipantInfo {
   id: string;
   streams: StageStream[];
 }
 
 // Payloads for participant events
-export interface ParticipantPayload {
+export interface ParticipantPayload extends ParticipantInfo {
   participantId: string;
 }
 
@@ -69,6 +410,12 @@ export interface ParticipantStreamsPayload {
   streams: StageStream[];
 }
 
+export interface ParticipantStreamsMutedChangedPayload {
+  participantId: string;
+  // Only the streams whose mute state changed
+  streams: StageStream[];
+}
+
 export interface ParticipantStreamsRemovedPayload {
   participantId: string;
   // On removal, we only get the URNs back from the native side
@@ -105,6 +452,49 @@ export interface PiPOptions {
   };
 }
 
+/**
+ * Network and media statistics for one local or remote stream, parsed from the SDK's RTC stats.
+ * Fields the SDK did not report for the stream are left undefined.
+ */
+export interface StreamStats {
+  participantId: string;
+  deviceUrn: string;
+  mediaType: 'video' | 'audio' | 'unknown';
+  isLocal: boolean;
+  /** Bits per second sent (local) or received (remote), averaged since the previous sample of this stream */
+  bitrate?: number;
+  /** Total packets lost since the stream started */
+  packetsLost?: number;
+  /** Share of packets lost since the previous sample of this stream (or since the stream started), 0–100 */
+  packetLossPercent?: number;
+  roundTripTimeMs?: number;
+  jitterMs?: number;
+  /** Video only */
+  framesPerSecond?: number;
+  /** When the stats were collected, in milliseconds since the epoch */
+  timestamp: number;
+}
+
+export type NetworkQuality = 'good' | 'fair' | 'poor';
+
+export interface AudioLevel {
+  participantId: string;
+  deviceUrn: string;
+  isLocal: boolean;
+  /**
+   * Loudest RMS level since the previous report, scaled from 0 (-60 dBFS or quieter) to 1 (0 dBFS)
+   */
+  level: number;
+}
+
+export interface AudioLevelsPayload {
+  levels: AudioLevel[];
+}
+
+export interface StatsUpdatedPayload {
+  stats: StreamStats[];
+}
+
 /**
  * PiP state change event payload
  */
@@ -134,12 +524,23 @@ export type ExpoRealtimeIvsBroadcastModuleEvents = {
   onParticipantLeft: (payload: ParticipantPayload) => void;
   onParticipantStreamsAdded: (payload: ParticipantStreamsPayload) => void;
   onParticipantStreamsRemoved: (payload: ParticipantStreamsRemovedPayload) => void;
+  onParticipantStreamsMutedChanged: (payload: ParticipantStreamsMutedChangedPayload) => void;
   onCameraSwapped: (payload: CameraSwappedPayload) => void;
   onCameraSwapError: (payload: CameraSwapErrorPayload) => void;
   onCameraMuteStateChanged: (payload: CameraMuteStatePayload) => void;
+  onDevicesChanged: (payload: DevicesChangedPayload) => void;
   // PiP events
   onPiPStateChanged: (payload: PiPStateChangedPayload) => void;
   onPiPError: (payload: PiPErrorPayload) => void;
+  // Emitted while `startAudioLevelUpdates` is active
+  onAudioLevels: (payload: AudioLevelsPayload) => void;
+  // Emitted from JavaScript while `startStatsUpdates` is active
+  onStatsUpdated: (payload: StatsUpdatedPayload) => void;
+  // Reconnect events (emitted from JavaScript)
+  onReconnecting: (payload: ReconnectingPayload) => void;
+  onReconnected: (payload: ReconnectedPayload) => void;
+  onReconnectFailed: (payload: ReconnectFailedPayload) => void;
+  onTokenProviderError: (payload: TokenProviderErrorPayload) => void;
 };
 
 // Props for the ExpoIVSStagePreviewView component
@@ -150,9 +551,30 @@ export type ExpoIVSStagePreviewViewProps = {
 };
 
 // Props for the new remote stream view
+/**
+ * Identifies the stream a remote view attached to, detached from, or rendered
+ */
+export interface RemoteStreamViewEventPayload {
+  participantId: string;
+  deviceUrn: string;
+}
+
 export type ExpoIVSRemoteStreamViewProps = {
   style?: StyleProp<ViewStyle>;
+  /**
+   * Render this participant's video stream. Views without `participantId` or `deviceUrn`
+   * are given any video stream not already shown by another view.
+   */
   participantId?: string;
+  /**
+   * Render this exact stream. Can be combined with `participantId`.
+   */
   deviceUrn?: string;
   scaleMode?: 'fit' | 'fill';
+  /** The view started rendering a stream */
+  onStreamAttached?: (event: { nativeEvent: RemoteStreamViewEventPayload }) => void;
+  /** The view stopped rendering a stream, e.g. it was removed or the binding props changed */
+  onStreamDetached?: (event: { nativeEvent: RemoteStreamViewEventPayload }) => void;
+  /** The first video frame of the attached stream arrived. Use it to hide loading placeholders. */
+  onFirstFrameRendered?: (event: { nativeEvent: RemoteStreamViewEventPayload }) => void;
 };
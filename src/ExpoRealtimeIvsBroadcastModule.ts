@@ -1,20 +1,48 @@
 import { requireNativeModule, EventSubscription } from 'expo-modules-core';
-import { LocalAudioConfig, LocalVideoConfig, PermissionStatusMap, ExpoRealtimeIvsBroadcastModuleEvents, PiPOptions } from './ExpoRealtimeIvsBroadcast.types';
+import { withCallRecording } from './eventRecorder';
+import { LocalAudioConfig, LocalVideoConfig, LocalStreamsConfiguration, PermissionStatusMap, ExpoRealtimeIvsBroadcastModuleEvents, PiPOptions, Participant, SubscribeType, PublishedMedia, MediaDevice, CameraCapabilities, PlaceholderOptions } from './ExpoRealtimeIvsBroadcast.types';
+
+/**
+ * RTC stats for one stream as reported by the SDK: WebRTC stats reports keyed by report ID,
+ * with every value stringified. Parsed into `StreamStats` in JavaScript.
+ */
+export type NativeStreamStats = {
+  participantId: string;
+  deviceUrn: string;
+  mediaType: 'video' | 'audio' | 'unknown';
+  isLocal: boolean;
+  reports: Record<string, Record<string, string>>;
+};
 
 // This combines the module's method signatures with the event emitter's signatures.
 // By defining `addListener` and `removeListeners` explicitly, we get strong type-checking
 // for our event names and payloads, resolving the 'never' type error.
 export type ExpoRealtimeIvsBroadcastModuleType = {
   initializeStage(audioConfig?: LocalAudioConfig, videoConfig?: LocalVideoConfig): Promise<void>;
-  initializeLocalStreams(audioConfig?: LocalAudioConfig, videoConfig?: LocalVideoConfig): Promise<void>;
+  initializeLocalStreams(audioConfig?: LocalAudioConfig, videoConfig?: LocalVideoConfig): Promise<LocalStreamsConfiguration>;
   joinStage(token: string, options?: { targetParticipantId?: string }): Promise<void>;
   leaveStage(): Promise<void>;
   setStreamsPublished(published: boolean): Promise<void>;
+  setPublishedMedia(media: PublishedMedia): Promise<void>;
+  getPublishedMedia(): Promise<PublishedMedia>;
   swapCamera(): Promise<void>;
+  listDevices(): Promise<MediaDevice[]>;
+  selectCamera(urn: string): Promise<void>;
+  selectMicrophone(urn: string): Promise<void>;
+  getCameraCapabilities(): Promise<CameraCapabilities>;
+  setZoom(factor: number): Promise<void>;
+  setTorch(on: boolean): Promise<void>;
+  setFocusPoint(x: number, y: number): Promise<void>;
+  setExposureBias(value: number): Promise<void>;
   setMicrophoneMuted(muted: boolean): Promise<void>;
   setCameraMuted(muted: boolean, placeholderText?: string | null): Promise<void>;
+  setPlaceholderOptions(options: PlaceholderOptions): Promise<void>;
   isCameraMuted(): Promise<boolean>;
   requestPermissions(): Promise<PermissionStatusMap>;
+  getParticipants(): Promise<Participant[]>;
+  setAudioLevelsInterval(intervalMs: number | null): Promise<void>;
+  getStreamStats(participantId?: string | null, deviceUrn?: string | null): Promise<NativeStreamStats[]>;
+  setSubscribeStrategy(defaultType: SubscribeType, overrides: Record<string, SubscribeType>): Promise<void>;
   
   // Picture-in-Picture methods
   enablePictureInPicture(options?: PiPOptions): Promise<boolean>;
@@ -29,8 +57,13 @@ export type ExpoRealtimeIvsBroadcastModuleType = {
     listener: (event: Parameters<ExpoRealtimeIvsBroadcastModuleEvents[EventName]>[0]) => void
   ): EventSubscription;
   removeListeners(count: number): void;
+  emit<EventName extends keyof ExpoRealtimeIvsBroadcastModuleEvents>(
+    eventName: EventName,
+    event: Parameters<ExpoRealtimeIvsBroadcastModuleEvents[EventName]>[0]
+  ): void;
 };
 
 const ExpoModule: ExpoRealtimeIvsBroadcastModuleType = requireNativeModule('ExpoRealtimeIvsBroadcast');
 
-export default ExpoModule;
+// Calls pass straight through unless an EventRecorder is running
+export default withCallRecording(ExpoModule);
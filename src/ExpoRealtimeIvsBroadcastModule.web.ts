@@ -1,33 +1,901 @@
 import { registerWebModule, NativeModule } from 'expo';
+import { CodedError } from 'expo-modules-core';
 
-import { ExpoRealtimeIvsBroadcastModuleEvents, PiPOptions } from './ExpoRealtimeIvsBroadcast.types';
+import type { NativeStreamStats } from './ExpoRealtimeIvsBroadcastModule';
+import { withCallRecording } from './eventRecorder';
+import {
+  CameraCapabilities,
+  ExpoRealtimeIvsBroadcastModuleEvents,
+  LocalAudioConfig,
+  LocalStreamsConfiguration,
+  LocalVideoConfig,
+  MediaDevice,
+  Participant,
+  ParticipantPayload,
+  PermissionStatus,
+  PermissionStatusMap,
+  PiPOptions,
+  PlaceholderOptions,
+  PublishedMedia,
+  PublishStatePayload,
+  StageConnectionStatePayload,
+  StageStream,
+  SubscribeType,
+} from './ExpoRealtimeIvsBroadcast.types';
+import {
+  getIvsWebBroadcastSdk,
+  IvsLocalStageStream,
+  IvsParticipantInfo,
+  IvsStage,
+  IvsStageError,
+  IvsStageStream,
+  IvsWebBroadcastSdk,
+} from './ivsWebBroadcast';
+import { emitStageError } from './stageErrors';
+import { toMediaStream, webStageMedia } from './webStageMedia';
 
+// Same defaults the native managers apply
+const DEFAULT_AUDIO_BITRATE = 64_000;
+const DEFAULT_VIDEO_WIDTH = 720;
+const DEFAULT_VIDEO_HEIGHT = 1280;
+const DEFAULT_FRAMERATE = 30;
+const DEFAULT_MIN_BITRATE = 300_000;
+const DEFAULT_MAX_BITRATE = 2_500_000;
+
+// Same scale as the native managers: RMS at or below this is level 0, 0 dBFS is level 1
+const AUDIO_LEVEL_FLOOR_DB = -60;
+// How often levels are sampled between reports
+const AUDIO_LEVEL_SAMPLE_MS = 50;
+
+// Browsers expose no zoom, torch, focus or exposure control the SDK can drive
+const UNSUPPORTED_CAMERA_CAPABILITIES: CameraCapabilities = {
+  minZoom: 1,
+  maxZoom: 1,
+  zoom: 1,
+  hasTorch: false,
+  torch: false,
+  supportsFocusPoint: false,
+  minExposureBias: 0,
+  maxExposureBias: 0,
+  exposureBias: 0,
+};
+
+interface AudioLevelMeter {
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  samples: Float32Array<ArrayBuffer>;
+}
+
+interface RemoteParticipant {
+  info: IvsParticipantInfo;
+  joinedAt: number;
+  streams: IvsStageStream[];
+}
+
+function mediaDevices(): MediaDevices | null {
+  return typeof navigator !== 'undefined' && navigator.mediaDevices ? navigator.mediaDevices : null;
+}
+
+function requireMediaDevices(): MediaDevices {
+  const devices = mediaDevices();
+  if (!devices) {
+    throw new CodedError('ERR_MEDIA_DEVICES_UNAVAILABLE', 'Camera and microphone capture is not available in this browser');
+  }
+  return devices;
+}
+
+function devicePosition(device: MediaDeviceInfo): MediaDevice['position'] {
+  const label = device.label.toLowerCase();
+  if (device.kind === 'videoinput') {
+    return /back|rear|environment/.test(label) ? 'back' : 'front';
+  }
+  if (label.includes('bluetooth')) return 'bluetooth';
+  if (label.includes('usb')) return 'usb';
+  return 'other';
+}
+
+/**
+ * Stage implementation for web, on top of the IVS Web Broadcast SDK.
+ * Emits the same events with the same payloads as the native modules; a stream's `deviceUrn` is its SDK stream ID.
+ */
 class ExpoRealtimeIvsBroadcastModule extends NativeModule<ExpoRealtimeIvsBroadcastModuleEvents> {
-  // Stub implementations for web (PiP not supported on web)
-  async enablePictureInPicture(_options?: PiPOptions): Promise<boolean> {
-    console.warn('Picture-in-Picture is not supported on web');
-    return false;
+  private audioConfig: LocalAudioConfig = {};
+  private videoConfig: LocalVideoConfig = {};
+  private cameraStream: IvsLocalStageStream | null = null;
+  private microphoneStream: IvsLocalStageStream | null = null;
+  private cameraDeviceId: string | null = null;
+  private microphoneDeviceId: string | null = null;
+  private cameraMuted = false;
+  private microphoneMuted = false;
+
+  private stage: IvsStage | null = null;
+  private connectionState: StageConnectionStatePayload['state'] = 'disconnected';
+  private lastStageError: string | null = null;
+  private localParticipantId: string | null = null;
+  private participants = new Map<string, RemoteParticipant>();
+  private remoteAudio = new Map<string, HTMLAudioElement>();
+
+  private isPublishingActive = false;
+  private publishedMedia: PublishedMedia = { audio: true, video: true };
+  private publishState: PublishStatePayload['state'] = 'not_published';
+  private defaultSubscribeType: SubscribeType = 'audio_video';
+  private subscribeTypeOverrides: Record<string, SubscribeType> = {};
+
+  // Picture-in-Picture runs on the `<video>` of a stream view; options are set while PiP is enabled
+  private pipOptions: PiPOptions | null = null;
+  private pipElement: HTMLVideoElement | null = null;
+  private pipStopRequested = false;
+
+  // Audio levels are measured with an analyser per audio track while setAudioLevelsInterval is active
+  private audioContext: AudioContext | null = null;
+  private audioLevelTimer: ReturnType<typeof setInterval> | null = null;
+  private audioLevelSampleTimer: ReturnType<typeof setInterval> | null = null;
+  private audioLevelMeters = new Map<MediaStreamTrack, AudioLevelMeter>();
+  private audioLevelPeaks = new Map<string, number>();
+
+  constructor() {
+    super();
+    mediaDevices()?.addEventListener?.('devicechange', () => {
+      this.listDevices()
+        .then((devices) => this.emit('onDevicesChanged', { devices }))
+        .catch((e) => emitStageError(this, 'listDevices', e));
+    });
+  }
+
+  // MARK: - Stage
+
+  async initializeStage(audioConfig?: LocalAudioConfig, videoConfig?: LocalVideoConfig): Promise<void> {
+    // Non-device setup only: remember the configurations for when local streams are created
+    if (audioConfig) this.audioConfig = audioConfig;
+    if (videoConfig) this.videoConfig = videoConfig;
+  }
+
+  async initializeLocalStreams(
+    audioConfig?: LocalAudioConfig,
+    videoConfig?: LocalVideoConfig
+  ): Promise<LocalStreamsConfiguration> {
+    // Configs passed here override the ones stored by initializeStage
+    if (audioConfig) this.audioConfig = audioConfig;
+    if (videoConfig) this.videoConfig = videoConfig;
+    const sdk = getIvsWebBroadcastSdk();
+    this.releaseLocalStreams();
+
+    const microphoneTrack = await this.captureTrack('audio', this.microphoneDeviceId);
+    this.microphoneStream = microphoneTrack ? this.createMicrophoneStream(sdk, microphoneTrack) : null;
+
+    if (this.videoConfig.enabled !== false) {
+      const cameraTrack = await this.captureTrack('video', this.cameraDeviceId);
+      this.cameraStream = cameraTrack ? this.createCameraStream(sdk, cameraTrack) : null;
+    }
+
+    webStageMedia.setLocalVideo(this.cameraStream?.mediaStreamTrack ?? null);
+    this.stage?.refreshStrategy();
+    return this.effectiveStreamsConfiguration();
+  }
+
+  async joinStage(token: string, options?: { targetParticipantId?: string }): Promise<void> {
+    const sdk = getIvsWebBroadcastSdk();
+    if (this.stage) this.teardownStage();
+
+    const stage = new sdk.Stage(token, {
+      stageStreamsToPublish: () => this.streamsToPublish(),
+      shouldPublishParticipant: () => this.isPublishingActive,
+      shouldSubscribeToParticipant: (participant) => this.subscribeTypeFor(sdk, participant),
+    });
+    this.stage = stage;
+    this.lastStageError = null;
+    webStageMedia.setTargetParticipant(options?.targetParticipantId ?? null);
+    this.attachStageEvents(sdk, stage);
+
+    try {
+      await stage.join();
+    } catch (error) {
+      // Reported through events, as on native, so reconnect policies see the failure
+      const { code, message } = error as Partial<IvsStageError>;
+      this.handleStageError(stage, {
+        code: code ?? 0,
+        description: `Failed to join stage: ${message ?? String(error)}`,
+        isFatal: true,
+      });
+    }
+  }
+
+  async leaveStage(): Promise<void> {
+    if (!this.stage) return;
+    this.teardownStage();
+  }
+
+  async setStreamsPublished(published: boolean): Promise<void> {
+    if (!this.stage) {
+      // Ignored as on native, but reported rather than logged
+      emitStageError(
+        this,
+        'setStreamsPublished',
+        new CodedError('ERR_STAGE_NOT_INITIALIZED', 'Stage not initialized. Cannot set streams published state.')
+      );
+      return;
+    }
+    this.isPublishingActive = published;
+    this.stage.refreshStrategy();
+  }
+
+  async setPublishedMedia(media: PublishedMedia): Promise<void> {
+    this.publishedMedia = { audio: media.audio, video: media.video };
+    this.stage?.refreshStrategy();
+    if (this.publishState === 'published') this.emitPublishState('published');
+  }
+
+  async getPublishedMedia(): Promise<PublishedMedia> {
+    return { ...this.publishedMedia };
+  }
+
+  async getParticipants(): Promise<Participant[]> {
+    return [...this.participants.values()].map(({ info, joinedAt, streams }) => {
+      const { participantId, ...rest } = this.participantPayload(info, joinedAt);
+      return { ...rest, id: participantId, streams: streams.map((stream) => this.streamPayload(stream)) };
+    });
+  }
+
+  async setSubscribeStrategy(defaultType: SubscribeType, overrides: Record<string, SubscribeType>): Promise<void> {
+    this.defaultSubscribeType = defaultType;
+    this.subscribeTypeOverrides = { ...overrides };
+    this.stage?.refreshStrategy();
+  }
+
+  async requestPermissions(): Promise<PermissionStatusMap> {
+    return {
+      camera: await this.requestPermission('video'),
+      microphone: await this.requestPermission('audio'),
+    };
+  }
+
+  private async requestPermission(kind: 'audio' | 'video'): Promise<PermissionStatus> {
+    const devices = mediaDevices();
+    if (!devices) return 'unavailable';
+    try {
+      const stream = await devices.getUserMedia({ [kind]: true });
+      stream.getTracks().forEach((track) => track.stop());
+      return 'granted';
+    } catch (error) {
+      const name = (error as { name?: string } | null)?.name;
+      return name === 'NotFoundError' ? 'unavailable' : 'denied';
+    }
+  }
+
+  private streamsToPublish(): IvsLocalStageStream[] {
+    if (!this.isPublishingActive) return [];
+    const streams: IvsLocalStageStream[] = [];
+    if (this.publishedMedia.video && this.cameraStream) streams.push(this.cameraStream);
+    if (this.publishedMedia.audio && this.microphoneStream) streams.push(this.microphoneStream);
+    return streams;
+  }
+
+  private subscribeTypeFor(sdk: IvsWebBroadcastSdk, participant: IvsParticipantInfo): string {
+    // We don't subscribe to ourselves
+    if (participant.isLocal) return sdk.SubscribeType.NONE;
+    switch (this.subscribeTypeOverrides[participant.id] ?? this.defaultSubscribeType) {
+      case 'audio_only':
+        return sdk.SubscribeType.AUDIO_ONLY;
+      case 'none':
+        return sdk.SubscribeType.NONE;
+      default:
+        return sdk.SubscribeType.AUDIO_VIDEO;
+    }
+  }
+
+  // Events from a stage that was since left or replaced are ignored
+  private attachStageEvents(sdk: IvsWebBroadcastSdk, stage: IvsStage) {
+    const { StageEvents, ConnectionState, StageParticipantPublishState, StageErrorCategory } = sdk;
+
+    stage.on(StageEvents.STAGE_CONNECTION_STATE_CHANGED, (state: string) => {
+      if (this.stage !== stage) return;
+      if (state === ConnectionState.CONNECTING) {
+        this.setConnectionState('connecting');
+      } else if (state === ConnectionState.CONNECTED) {
+        this.setConnectionState('connected');
+      } else if (state === ConnectionState.DISCONNECTED || state === ConnectionState.ERRORED) {
+        const error = state === ConnectionState.ERRORED ? (this.lastStageError ?? 'Stage connection failed') : undefined;
+        this.handleDisconnect(error);
+      }
+    });
+
+    stage.on(StageEvents.STAGE_PARTICIPANT_PUBLISH_STATE_CHANGED, (participant: IvsParticipantInfo, state: string) => {
+      if (this.stage !== stage || !participant.isLocal) return;
+      const mapped: Record<string, PublishStatePayload['state']> = {
+        [StageParticipantPublishState.NOT_PUBLISHED]: 'not_published',
+        [StageParticipantPublishState.ATTEMPTING_PUBLISH]: 'attempting',
+        [StageParticipantPublishState.PUBLISHED]: 'published',
+        [StageParticipantPublishState.ERRORED]: 'failed',
+      };
+      if (mapped[state]) this.emitPublishState(mapped[state]);
+    });
+
+    stage.on(StageEvents.STAGE_PARTICIPANT_JOINED, (participant: IvsParticipantInfo) => {
+      if (this.stage !== stage) return;
+      if (participant.isLocal) {
+        this.localParticipantId = participant.id;
+        return;
+      }
+      const remote = this.upsertParticipant(participant);
+      this.emit('onParticipantJoined', this.participantPayload(participant, remote.joinedAt));
+    });
+
+    stage.on(StageEvents.STAGE_PARTICIPANT_LEFT, (participant: IvsParticipantInfo) => {
+      if (this.stage !== stage || participant.isLocal) return;
+      const remote = this.participants.get(participant.id);
+      remote?.streams.forEach((stream) => this.stopRemoteAudio(stream.id));
+      webStageMedia.removeRemoteVideos(participant.id);
+      this.participants.delete(participant.id);
+      this.emit('onParticipantLeft', this.participantPayload(participant, remote?.joinedAt ?? Date.now()));
+    });
+
+    stage.on(StageEvents.STAGE_PARTICIPANT_STREAMS_ADDED, (participant: IvsParticipantInfo, streams: IvsStageStream[]) => {
+      if (this.stage !== stage || participant.isLocal) return;
+      // Streams can arrive before the participant's join event
+      const remote = this.upsertParticipant(participant);
+      const known = new Set(remote.streams.map((stream) => stream.id));
+      remote.streams.push(...streams.filter((stream) => !known.has(stream.id)));
+      streams.forEach((stream) => {
+        if (stream.streamType === sdk.StreamType.AUDIO) this.playRemoteAudio(stream);
+      });
+      webStageMedia.addRemoteVideos(
+        streams
+          .filter((stream) => stream.streamType === sdk.StreamType.VIDEO)
+          .map((stream) => ({ participantId: participant.id, deviceUrn: stream.id, track: stream.mediaStreamTrack }))
+      );
+      this.emit('onParticipantStreamsAdded', {
+        participantId: participant.id,
+        streams: streams.map((stream) => this.streamPayload(stream)),
+      });
+    });
+
+    stage.on(StageEvents.STAGE_PARTICIPANT_STREAMS_REMOVED, (participant: IvsParticipantInfo, streams: IvsStageStream[]) => {
+      if (this.stage !== stage || participant.isLocal) return;
+      const removed = streams.map((stream) => stream.id);
+      const remote = this.participants.get(participant.id);
+      if (remote) remote.streams = remote.streams.filter((stream) => !removed.includes(stream.id));
+      removed.forEach((id) => this.stopRemoteAudio(id));
+      webStageMedia.removeRemoteVideos(participant.id, removed);
+      this.emit('onParticipantStreamsRemoved', {
+        participantId: participant.id,
+        streams: removed.map((deviceUrn) => ({ deviceUrn })),
+      });
+    });
+
+    stage.on(StageEvents.STAGE_STREAM_MUTE_CHANGED, (participant: IvsParticipantInfo, stream: IvsStageStream) => {
+      if (this.stage !== stage || participant.isLocal) return;
+      this.emit('onParticipantStreamsMutedChanged', {
+        participantId: participant.id,
+        streams: [this.streamPayload(stream)],
+      });
+    });
+
+    stage.on(StageEvents.ERROR, (error: IvsStageError) => {
+      this.handleStageError(stage, {
+        code: error.code,
+        description: error.message,
+        isFatal: StageErrorCategory !== undefined && error.category === StageErrorCategory.JOIN_ERROR,
+      });
+    });
+  }
+
+  // The SDK can report the same participant twice across reconnects; keep one entry per ID, with the latest info
+  private upsertParticipant(participant: IvsParticipantInfo): RemoteParticipant {
+    const remote = this.participants.get(participant.id);
+    if (remote) {
+      remote.info = participant;
+      return remote;
+    }
+    const added = { info: participant, joinedAt: Date.now(), streams: [] };
+    this.participants.set(participant.id, added);
+    return added;
+  }
+
+  private handleStageError(stage: IvsStage, error: { code: number; description: string; isFatal: boolean }) {
+    if (this.stage !== stage) return;
+    this.lastStageError = error.description;
+    this.emit('onStageError', { ...error, source: 'IVSStage' });
+    if (error.isFatal) {
+      this.stage = null;
+      stage.leave();
+      this.handleDisconnect(error.description);
+    }
+  }
+
+  private teardownStage() {
+    const stage = this.stage;
+    // Cleared first so the SDK's own events for this stage are ignored
+    this.stage = null;
+    stage?.leave();
+    this.resetStageState();
+    if (this.connectionState !== 'disconnected') this.setConnectionState('disconnected');
+  }
+
+  // Mirrors the native managers' cleanup when the stage reports it disconnected
+  private handleDisconnect(error?: string) {
+    this.stage = null;
+    this.resetStageState();
+    this.setConnectionState('disconnected', error);
+  }
+
+  private resetStageState() {
+    this.isPublishingActive = false;
+    if (this.publishState !== 'not_published') this.emitPublishState('not_published');
+    this.localParticipantId = null;
+    this.participants.clear();
+    [...this.remoteAudio.keys()].forEach((id) => this.stopRemoteAudio(id));
+    webStageMedia.clearRemoteVideos();
+    webStageMedia.setTargetParticipant(null);
+  }
+
+  private setConnectionState(state: StageConnectionStatePayload['state'], error?: string) {
+    this.connectionState = state;
+    this.emit('onStageConnectionStateChanged', error !== undefined ? { state, error } : { state });
+  }
+
+  private emitPublishState(state: PublishStatePayload['state']) {
+    this.publishState = state;
+    const live = state === 'published';
+    this.emit('onPublishStateChanged', {
+      state,
+      media: {
+        audio: live && this.publishedMedia.audio && this.microphoneStream !== null,
+        video: live && this.publishedMedia.video && this.cameraStream !== null,
+      },
+    });
+  }
+
+  /** Payload for a remote stream, shared by stream events and `getParticipants` */
+  private streamPayload(stream: IvsStageStream): StageStream {
+    const { StreamType } = getIvsWebBroadcastSdk();
+    const mediaType =
+      stream.streamType === StreamType.VIDEO ? 'video' : stream.streamType === StreamType.AUDIO ? 'audio' : 'unknown';
+    return { deviceUrn: stream.id, mediaType, muted: stream.isMuted };
+  }
+
+  /** Payload describing a participant, shared by participant events and `getParticipants` */
+  private participantPayload(info: IvsParticipantInfo, joinedAt: number): ParticipantPayload {
+    return {
+      participantId: info.id,
+      attributes: { ...info.attributes },
+      isLocal: info.isLocal,
+      joinedAt,
+      ...(info.userId ? { userId: info.userId } : {}),
+    };
+  }
+
+  // The native SDKs play remote audio themselves; in the browser it needs a media element
+  private playRemoteAudio(stream: IvsStageStream) {
+    const source = toMediaStream(stream.mediaStreamTrack);
+    if (!source || typeof document === 'undefined') return;
+    this.stopRemoteAudio(stream.id);
+    const audio = document.createElement('audio');
+    audio.autoplay = true;
+    audio.srcObject = source;
+    // Autoplay policies can block playback until the user interacts with the page
+    audio.play()?.catch((error) => emitStageError(this, 'playRemoteAudio', error));
+    this.remoteAudio.set(stream.id, audio);
+  }
+
+  private stopRemoteAudio(id: string) {
+    const audio = this.remoteAudio.get(id);
+    if (!audio) return;
+    audio.pause();
+    audio.srcObject = null;
+    this.remoteAudio.delete(id);
+  }
+
+  // MARK: - Local Media
+
+  private async captureTrack(kind: 'audio' | 'video', deviceId: string | null): Promise<MediaStreamTrack | null> {
+    const constraints: MediaTrackConstraints = kind === 'audio' ? this.audioConstraints() : this.videoConstraints();
+    if (deviceId) constraints.deviceId = { exact: deviceId };
+    try {
+      const stream = await requireMediaDevices().getUserMedia({ [kind]: constraints });
+      return stream.getTracks()[0] ?? null;
+    } catch (error) {
+      // As on native, a missing device leaves that side of the configuration null
+      if ((error as { name?: string } | null)?.name === 'NotFoundError') return null;
+      throw error;
+    }
+  }
+
+  private audioConstraints(): MediaTrackConstraints {
+    const audio = this.audioConfig;
+    return {
+      channelCount: { ideal: audio.channels ?? 1 },
+      echoCancellation: audio.echoCancellation ?? true,
+      autoGainControl: audio.autoGainControl ?? true,
+      noiseSuppression: audio.noiseSuppression ?? true,
+    };
+  }
+
+  private videoConstraints(): MediaTrackConstraints {
+    const video = this.videoConfig;
+    return {
+      width: { ideal: video.width ?? DEFAULT_VIDEO_WIDTH },
+      height: { ideal: video.height ?? DEFAULT_VIDEO_HEIGHT },
+      frameRate: { ideal: video.targetFramerate ?? DEFAULT_FRAMERATE },
+    };
+  }
+
+  private createMicrophoneStream(sdk: IvsWebBroadcastSdk, track: MediaStreamTrack): IvsLocalStageStream {
+    const stream = new sdk.LocalStageStream(track);
+    stream.setMuted(this.microphoneMuted);
+    return stream;
+  }
+
+  private createCameraStream(sdk: IvsWebBroadcastSdk, track: MediaStreamTrack): IvsLocalStageStream {
+    const video = this.videoConfig;
+    const stream = new sdk.LocalStageStream(track, {
+      // The web SDK takes kbps
+      maxBitrate: (video.maxBitrate ?? DEFAULT_MAX_BITRATE) / 1000,
+      maxFramerate: video.targetFramerate ?? DEFAULT_FRAMERATE,
+      ...(video.simulcast ? { simulcast: { enabled: video.simulcast.enabled } } : {}),
+    });
+    stream.setMuted(this.cameraMuted);
+    return stream;
+  }
+
+  private releaseLocalStreams() {
+    this.cameraStream?.mediaStreamTrack.stop();
+    this.microphoneStream?.mediaStreamTrack.stop();
+    this.cameraStream = null;
+    this.microphoneStream = null;
+    webStageMedia.setLocalVideo(null);
+  }
+
+  /** Reports the configuration applied to the local streams, from the browser's track settings */
+  private effectiveStreamsConfiguration(): LocalStreamsConfiguration {
+    const audio = this.audioConfig;
+    const video = this.videoConfig;
+    const audioSettings = this.microphoneStream?.mediaStreamTrack.getSettings();
+    const videoSettings = this.cameraStream?.mediaStreamTrack.getSettings();
+    return {
+      audio: audioSettings
+        ? {
+            bitrate: audio.bitrate ?? DEFAULT_AUDIO_BITRATE,
+            channels: audioSettings.channelCount === 2 ? 2 : 1,
+            echoCancellation: audioSettings.echoCancellation ?? audio.echoCancellation ?? true,
+            autoGainControl: audioSettings.autoGainControl ?? audio.autoGainControl ?? true,
+            noiseSuppression: audioSettings.noiseSuppression ?? audio.noiseSuppression ?? true,
+          }
+        : null,
+      video: videoSettings
+        ? {
+            width: videoSettings.width ?? video.width ?? DEFAULT_VIDEO_WIDTH,
+            height: videoSettings.height ?? video.height ?? DEFAULT_VIDEO_HEIGHT,
+            targetFramerate: videoSettings.frameRate ?? video.targetFramerate ?? DEFAULT_FRAMERATE,
+            minBitrate: video.minBitrate ?? DEFAULT_MIN_BITRATE,
+            maxBitrate: video.maxBitrate ?? DEFAULT_MAX_BITRATE,
+          }
+        : null,
+    };
+  }
+
+  async setMicrophoneMuted(muted: boolean): Promise<void> {
+    this.microphoneMuted = muted;
+    this.microphoneStream?.setMuted(muted);
+  }
+
+  async setCameraMuted(muted: boolean, _placeholderText?: string | null): Promise<void> {
+    this.cameraMuted = muted;
+    this.cameraStream?.setMuted(muted);
+    // No placeholder frame is sent on web; subscribers see the video stream muted instead
+    this.emit('onCameraMuteStateChanged', { muted, placeholderActive: false });
+  }
+
+  async setPlaceholderOptions(_options: PlaceholderOptions): Promise<void> {
+    // As on Android; `setCameraMuted` still mutes without a placeholder
+    throw new CodedError('ERR_PLACEHOLDER_UNSUPPORTED', 'Camera-muted placeholders are not supported on web');
+  }
+
+  async isCameraMuted(): Promise<boolean> {
+    return this.cameraMuted;
+  }
+
+  async setAudioLevelsInterval(intervalMs: number | null): Promise<void> {
+    this.stopAudioLevels();
+    if (intervalMs === null) return;
+    if (typeof AudioContext === 'undefined' || typeof MediaStream === 'undefined') {
+      throw new CodedError('ERR_AUDIO_LEVELS_UNSUPPORTED', 'Audio levels need the Web Audio API, which this browser lacks');
+    }
+    this.audioContext = new AudioContext();
+    this.audioLevelSampleTimer = setInterval(() => this.sampleAudioLevels(), AUDIO_LEVEL_SAMPLE_MS);
+    this.audioLevelTimer = setInterval(() => this.emitAudioLevels(), intervalMs);
+  }
+
+  private stopAudioLevels() {
+    if (this.audioLevelTimer !== null) clearInterval(this.audioLevelTimer);
+    if (this.audioLevelSampleTimer !== null) clearInterval(this.audioLevelSampleTimer);
+    this.audioLevelTimer = null;
+    this.audioLevelSampleTimer = null;
+    this.audioLevelMeters.forEach((meter) => meter.source.disconnect());
+    this.audioLevelMeters.clear();
+    this.audioLevelPeaks.clear();
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+  }
+
+  /** Local and remote audio streams, as the native managers report them */
+  private audioLevelSources(): { participantId: string; isLocal: boolean; stream: IvsStageStream }[] {
+    const { StreamType } = getIvsWebBroadcastSdk();
+    return [
+      ...(this.microphoneStream
+        ? [{ participantId: this.localParticipantId ?? '', isLocal: true, stream: this.microphoneStream }]
+        : []),
+      ...[...this.participants.values()].flatMap((remote) =>
+        remote.streams
+          .filter((stream) => stream.streamType === StreamType.AUDIO)
+          .map((stream) => ({ participantId: remote.info.id, isLocal: false, stream }))
+      ),
+    ];
+  }
+
+  // Native code reports the loudest level since the previous report, so levels are sampled in between
+  private sampleAudioLevels() {
+    const context = this.audioContext;
+    if (!context) return;
+    const tracks = new Set<MediaStreamTrack>();
+    this.audioLevelSources().forEach(({ stream }) => {
+      const track = stream.mediaStreamTrack;
+      tracks.add(track);
+      let meter = this.audioLevelMeters.get(track);
+      if (!meter) {
+        const source = context.createMediaStreamSource(new MediaStream([track]));
+        const analyser = context.createAnalyser();
+        analyser.fftSize = 2048;
+        source.connect(analyser);
+        meter = { source, analyser, samples: new Float32Array(analyser.fftSize) };
+        this.audioLevelMeters.set(track, meter);
+      }
+      meter.analyser.getFloatTimeDomainData(meter.samples);
+      const rms = Math.sqrt(meter.samples.reduce((sum, sample) => sum + sample * sample, 0) / meter.samples.length);
+      this.audioLevelPeaks.set(stream.id, Math.max(this.audioLevelPeaks.get(stream.id) ?? 0, rms));
+    });
+    // Streams that went away since the last sample
+    this.audioLevelMeters.forEach((meter, track) => {
+      if (tracks.has(track)) return;
+      meter.source.disconnect();
+      this.audioLevelMeters.delete(track);
+    });
+  }
+
+  private emitAudioLevels() {
+    const levels = this.audioLevelSources().map(({ participantId, isLocal, stream }) => {
+      const rms = this.audioLevelPeaks.get(stream.id) ?? 0;
+      const db = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+      const level = Math.min(Math.max((db - AUDIO_LEVEL_FLOOR_DB) / -AUDIO_LEVEL_FLOOR_DB, 0), 1);
+      return { participantId, deviceUrn: stream.id, isLocal, level };
+    });
+    this.audioLevelPeaks.clear();
+    this.emit('onAudioLevels', { levels });
+  }
+
+  async getStreamStats(participantId?: string | null, deviceUrn?: string | null): Promise<NativeStreamStats[]> {
+    if (!this.stage) return [];
+    const { StreamType } = getIvsWebBroadcastSdk();
+    const targets: { participantId: string; isLocal: boolean; stream: IvsStageStream }[] = [
+      ...[this.cameraStream, this.microphoneStream]
+        .filter((stream): stream is IvsLocalStageStream => stream !== null)
+        .map((stream) => ({ participantId: this.localParticipantId ?? '', isLocal: true, stream })),
+      ...[...this.participants.values()].flatMap((remote) =>
+        remote.streams.map((stream) => ({ participantId: remote.info.id, isLocal: false, stream }))
+      ),
+    ].filter(
+      (target) =>
+        (participantId == null || target.participantId === participantId) &&
+        (deviceUrn == null || target.stream.id === deviceUrn)
+    );
+
+    const stats = await Promise.all(
+      targets.map(async ({ participantId, isLocal, stream }): Promise<NativeStreamStats | null> => {
+        // Streams that are not flowing yet may have no stats
+        const report = await stream.requestRTCStats?.().catch(() => undefined);
+        if (!report) return null;
+        const reports: NativeStreamStats['reports'] = {};
+        report.forEach((entry: Record<string, unknown>) => {
+          reports[String(entry.id)] = Object.fromEntries(Object.entries(entry).map(([key, value]) => [key, String(value)]));
+        });
+        const mediaType =
+          stream.streamType === StreamType.VIDEO ? 'video' : stream.streamType === StreamType.AUDIO ? 'audio' : 'unknown';
+        return { participantId, deviceUrn: stream.id, mediaType, isLocal, reports };
+      })
+    );
+    return stats.filter((entry): entry is NativeStreamStats => entry !== null);
+  }
+
+  // MARK: - Devices
+
+  async listDevices(): Promise<MediaDevice[]> {
+    const devices = mediaDevices();
+    if (!devices) return [];
+    const infos = await devices.enumerateDevices();
+    // Browsers hide device IDs until a capture permission is granted
+    return infos
+      .filter((info) => (info.kind === 'videoinput' || info.kind === 'audioinput') && info.deviceId)
+      .map((info, index) => {
+        const type = info.kind === 'videoinput' ? 'camera' : 'microphone';
+        return {
+          urn: info.deviceId,
+          name: info.label || `${type === 'camera' ? 'Camera' : 'Microphone'} ${index + 1}`,
+          type,
+          position: devicePosition(info),
+        };
+      });
+  }
+
+  async swapCamera(): Promise<void> {
+    const cameras = (await this.listDevices()).filter((device) => device.type === 'camera');
+    const currentId = this.cameraStream?.mediaStreamTrack.getSettings().deviceId ?? this.cameraDeviceId;
+    const current = cameras.findIndex((camera) => camera.urn === currentId);
+    const next = cameras[(current + 1) % cameras.length];
+    if (!next || cameras.length < 2) {
+      this.emit('onCameraSwapError', { reason: 'No other camera available' });
+      return;
+    }
+    try {
+      await this.switchCamera(next);
+    } catch (error) {
+      this.emit('onCameraSwapError', { reason: (error as Error)?.message ?? String(error) });
+    }
+  }
+
+  async selectCamera(urn: string): Promise<void> {
+    await this.switchCamera(await this.findDevice('camera', urn));
+  }
+
+  async selectMicrophone(urn: string): Promise<void> {
+    const microphone = await this.findDevice('microphone', urn);
+    this.microphoneDeviceId = microphone.urn;
+    if (!this.microphoneStream) return;
+
+    const track = await this.captureTrack('audio', microphone.urn);
+    if (!track) throw new CodedError('ERR_DEVICE_NOT_FOUND', `No microphone device found with URN ${urn}`);
+    this.microphoneStream.mediaStreamTrack.stop();
+    this.microphoneStream = this.createMicrophoneStream(getIvsWebBroadcastSdk(), track);
+    this.stage?.refreshStrategy();
+  }
+
+  private async findDevice(type: MediaDevice['type'], urn: string): Promise<MediaDevice> {
+    const device = (await this.listDevices()).find((d) => d.type === type && d.urn === urn);
+    if (!device) throw new CodedError('ERR_DEVICE_NOT_FOUND', `No ${type} device found with URN ${urn}`);
+    return device;
+  }
+
+  private async switchCamera(camera: MediaDevice) {
+    this.cameraDeviceId = camera.urn;
+    if (!this.cameraStream) return;
+
+    const track = await this.captureTrack('video', camera.urn);
+    if (!track) throw new CodedError('ERR_DEVICE_NOT_FOUND', `No camera device found with URN ${camera.urn}`);
+    this.cameraStream.mediaStreamTrack.stop();
+    this.cameraStream = this.createCameraStream(getIvsWebBroadcastSdk(), track);
+    webStageMedia.setLocalVideo(track);
+    this.stage?.refreshStrategy();
+    this.emit('onCameraSwapped', { device: camera, newCameraURN: camera.urn, newCameraName: camera.name });
+  }
+
+  // MARK: - Camera Controls
+
+  async getCameraCapabilities(): Promise<CameraCapabilities> {
+    this.requireCamera();
+    return { ...UNSUPPORTED_CAMERA_CAPABILITIES };
+  }
+
+  async setZoom(_factor: number): Promise<void> {
+    this.rejectCameraControl('zoom');
+  }
+
+  async setTorch(_on: boolean): Promise<void> {
+    this.rejectCameraControl('torch');
+  }
+
+  async setFocusPoint(_x: number, _y: number): Promise<void> {
+    this.rejectCameraControl('focus');
+  }
+
+  async setExposureBias(_value: number): Promise<void> {
+    this.rejectCameraControl('exposure');
+  }
+
+  private requireCamera() {
+    if (!this.cameraStream) {
+      throw new CodedError('ERR_NO_ACTIVE_CAMERA', 'No camera is active. Initialize local streams with video enabled first.');
+    }
+  }
+
+  private rejectCameraControl(control: string) {
+    this.requireCamera();
+    throw new CodedError('ERR_CAMERA_CONTROL_UNSUPPORTED', `${control} is not supported on web`);
+  }
+
+  // MARK: - Picture-in-Picture
+
+  async enablePictureInPicture(options?: PiPOptions): Promise<boolean> {
+    if (!(await this.isPictureInPictureSupported())) {
+      this.emit('onPiPError', { error: 'Picture-in-Picture is not supported in this browser' });
+      return false;
+    }
+    this.pipOptions = options ?? {};
+    this.setAutoEnterHandler(this.pipOptions.autoEnterOnBackground ?? true);
+    return true;
   }
 
   async disablePictureInPicture(): Promise<void> {
-    // No-op on web
+    if (this.pipElement) await this.stopPictureInPicture();
+    this.setAutoEnterHandler(false);
+    this.pipOptions = null;
   }
 
   async startPictureInPicture(): Promise<void> {
-    console.warn('Picture-in-Picture is not supported on web');
+    if (!this.pipOptions) {
+      this.emit('onPiPError', { error: 'PiP is not enabled' });
+      return;
+    }
+    const sourceView = this.pipOptions.sourceView ?? 'remote';
+    const element = webStageMedia.getVideoElement(sourceView);
+    if (!element) {
+      this.emit('onPiPError', { error: `No ${sourceView} stream view is mounted to show in Picture-in-Picture` });
+      return;
+    }
+    if (this.pipElement === element) return;
+
+    try {
+      await element.requestPictureInPicture();
+    } catch (error) {
+      this.emit('onPiPError', { error: `Failed to enter PiP: ${(error as Error)?.message ?? String(error)}` });
+      return;
+    }
+    this.pipElement = element;
+    this.pipStopRequested = false;
+    element.addEventListener('leavepictureinpicture', () => this.handlePictureInPictureLeft(element), { once: true });
+    this.emit('onPiPStateChanged', { state: 'started' });
   }
 
   async stopPictureInPicture(): Promise<void> {
-    // No-op on web
+    if (!this.pipElement || typeof document === 'undefined' || !document.pictureInPictureElement) return;
+    this.pipStopRequested = true;
+    await document.exitPictureInPicture();
   }
 
   async isPictureInPictureActive(): Promise<boolean> {
-    return false;
+    return this.pipElement !== null;
   }
 
   async isPictureInPictureSupported(): Promise<boolean> {
-    return false;
+    return typeof document !== 'undefined' && document.pictureInPictureEnabled === true;
+  }
+
+  // Also fires when the view unmounts or another element takes over the PiP window
+  private handlePictureInPictureLeft(element: HTMLVideoElement) {
+    if (this.pipElement !== element) return;
+    this.pipElement = null;
+    this.emit('onPiPStateChanged', { state: 'stopped' });
+    // As on Android, leaving PiP from its window while the page is in front counts as returning to the app
+    if (!this.pipStopRequested && typeof document !== 'undefined' && document.visibilityState === 'visible') {
+      this.emit('onPiPStateChanged', { state: 'restored' });
+    }
+  }
+
+  // Chrome enters PiP on tab switch for pages handling the Media Session `enterpictureinpicture` action
+  private setAutoEnterHandler(enabled: boolean) {
+    if (typeof navigator === 'undefined' || !navigator.mediaSession) return;
+    try {
+      navigator.mediaSession.setActionHandler(
+        'enterpictureinpicture' as MediaSessionAction,
+        enabled
+          ? () => {
+              this.startPictureInPicture().catch((error) =>
+                this.emit('onPiPError', { error: `Failed to enter PiP: ${(error as Error)?.message ?? String(error)}` })
+              );
+            }
+          : null
+      );
+    } catch {
+      // Browsers without the action reject it; PiP then only starts through startPictureInPicture
+    }
   }
 }
 
-export default registerWebModule(ExpoRealtimeIvsBroadcastModule, 'ExpoRealtimeIvsBroadcastModule');
+export default withCallRecording(registerWebModule(ExpoRealtimeIvsBroadcastModule, 'ExpoRealtimeIvsBroadcastModule'));
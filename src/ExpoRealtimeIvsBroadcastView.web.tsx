@@ -1,18 +0,0 @@
-import * as React from 'react';
-
-// import { ExpoRealtimeIvsBroadcastViewProps } from './ExpoRealtimeIvsBroadcast.types';
-
-export default function ExpoRealtimeIvsBroadcastView() {
-  return (
-    // <div>
-    //   <iframe
-    //     style={{ flex: 1 }}
-    //     src={props.url}
-    //     onLoad={() => props.onLoad({ nativeEvent: { url: props.url } })}
-    //   />
-    // </div>
-    <div>
-      <h1>Hello World</h1>
-    </div>
-  )
-}
@@ -0,0 +1,266 @@
+import { EventSubscription } from 'expo-modules-core';
+import NativeModule, { ExpoRealtimeIvsBroadcastModuleType } from './ExpoRealtimeIvsBroadcastModule';
+import type {
+  ExpoRealtimeIvsBroadcastModuleEvents,
+  LocalAudioConfig,
+  LocalStreamsConfiguration,
+  LocalVideoConfig,
+  PublishStatePayload,
+  StageConnectionStatePayload,
+} from './ExpoRealtimeIvsBroadcast.types';
+import { InvalidStateTransitionError } from './errors';
+import { validateLocalAudioConfig, validateLocalVideoConfig } from './streamConfig';
+import { assertTokenCanJoin, assertTokenCapability, ParticipantToken } from './participantToken';
+
+/**
+ * Lifecycle of a `StageSession`:
+ * idle → initialized → joining → joined ⇄ publishing → leaving → initialized
+ */
+export type StageSessionState = 'idle' | 'initialized' | 'joining' | 'joined' | 'publishing' | 'leaving';
+
+export interface StageSessionStateChangedPayload {
+  state: StageSessionState;
+  previousState: StageSessionState;
+}
+
+/**
+ * Everything `StageSession.on()` can listen to: all native module events plus session state changes
+ */
+export type StageSessionEvents = ExpoRealtimeIvsBroadcastModuleEvents & {
+  onStateChanged: (payload: StageSessionStateChangedPayload) => void;
+};
+
+type StageSessionEventName = keyof StageSessionEvents;
+type StageSessionPayload<E extends StageSessionEventName> = Parameters<StageSessionEvents[E]>[0];
+
+const TRANSITIONS: Record<StageSessionState, StageSessionState[]> = {
+  idle: ['initialized'],
+  initialized: ['joining'],
+  joining: ['joined', 'leaving', 'initialized'],
+  joined: ['publishing', 'leaving', 'initialized'],
+  publishing: ['joined', 'leaving', 'initialized'],
+  leaving: ['initialized'],
+};
+
+type ModuleEventName = keyof ExpoRealtimeIvsBroadcastModuleEvents;
+
+// Native events forwarded verbatim to session listeners.
+// Keyed by event name so a new event fails to compile until it is added here.
+const FORWARDED_EVENTS: Record<ModuleEventName, true> = {
+  onStageConnectionStateChanged: true,
+  onPublishStateChanged: true,
+  onStageError: true,
+  onParticipantJoined: true,
+  onParticipantLeft: true,
+  onParticipantStreamsAdded: true,
+  onParticipantStreamsRemoved: true,
+  onParticipantStreamsMutedChanged: true,
+  onCameraSwapped: true,
+  onCameraSwapError: true,
+  onCameraMuteStateChanged: true,
+  onDevicesChanged: true,
+  onPiPStateChanged: true,
+  onPiPError: true,
+  onAudioLevels: true,
+  onStatsUpdated: true,
+  onReconnecting: true,
+  onReconnected: true,
+  onReconnectFailed: true,
+  onTokenProviderError: true,
+};
+
+/**
+ * Owns the whole stage lifecycle: initialization, join, publish and leave.
+ * Actions that are illegal in the current state reject with `InvalidStateTransitionError`,
+ * and every native subscription is released by `dispose()`.
+ *
+ * @example
+ * const session = new StageSession();
+ * session.on('onStateChanged', ({ state }) => console.log(state));
+ * await session.initialize();
+ * await session.join(token);
+ * await session.publish();
+ */
+export class StageSession {
+  private readonly module: ExpoRealtimeIvsBroadcastModuleType;
+  private readonly nativeSubscriptions: EventSubscription[] = [];
+  // Listeners are stored untyped per event; `on()` and `emit()` keep each set's payload type consistent
+  private readonly listeners = new Map<StageSessionEventName, Set<(payload: never) => void>>();
+  private currentState: StageSessionState = 'idle';
+  private token: ParticipantToken | null = null;
+  private disposed = false;
+
+  /**
+   * @param module The native module to drive. Defaults to the real one; pass a mock in tests.
+   */
+  constructor(module: ExpoRealtimeIvsBroadcastModuleType = NativeModule) {
+    this.module = module;
+
+    (Object.keys(FORWARDED_EVENTS) as ModuleEventName[]).forEach((eventName) => {
+      this.nativeSubscriptions.push(this.forward(eventName));
+    });
+  }
+
+  private forward<E extends ModuleEventName>(eventName: E): EventSubscription {
+    return this.module.addListener(eventName, (payload) => {
+      if (eventName === 'onStageConnectionStateChanged') {
+        this.handleConnectionState(payload as StageConnectionStatePayload);
+      } else if (eventName === 'onPublishStateChanged') {
+        this.handlePublishState(payload as PublishStatePayload);
+      }
+      this.emit(eventName, payload as StageSessionPayload<E>);
+    });
+  }
+
+  get state(): StageSessionState {
+    return this.currentState;
+  }
+
+  /**
+   * Subscribe to a session or native event
+   */
+  on<E extends StageSessionEventName>(
+    eventName: E,
+    listener: (payload: StageSessionPayload<E>) => void
+  ): EventSubscription {
+    let set = this.listeners.get(eventName);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(eventName, set);
+    }
+    set.add(listener);
+    return { remove: () => set.delete(listener) };
+  }
+
+  /**
+   * Apply default stream configurations. idle → initialized
+   */
+  async initialize(audioConfig?: LocalAudioConfig, videoConfig?: LocalVideoConfig): Promise<void> {
+    this.assertState('initialize', ['idle']);
+    if (audioConfig) validateLocalAudioConfig(audioConfig);
+    if (videoConfig) validateLocalVideoConfig(videoConfig);
+    await this.module.initializeStage(audioConfig, videoConfig);
+    this.transition('initialized');
+  }
+
+  /**
+   * Create the local camera and microphone streams. Allowed any time before publishing.
+   */
+  async initializeLocalStreams(
+    audioConfig?: LocalAudioConfig,
+    videoConfig?: LocalVideoConfig
+  ): Promise<LocalStreamsConfiguration> {
+    this.assertState('initialize local streams', ['initialized', 'joining', 'joined']);
+    if (audioConfig) validateLocalAudioConfig(audioConfig);
+    if (videoConfig) validateLocalVideoConfig(videoConfig);
+    return await this.module.initializeLocalStreams(audioConfig, videoConfig);
+  }
+
+  /**
+   * Join the stage. initialized → joining, then → joined once the stage reports `connected`.
+   */
+  async join(token: string, options?: { targetParticipantId?: string }): Promise<void> {
+    this.assertState('join', ['initialized']);
+    this.token = assertTokenCanJoin(token);
+    this.transition('joining');
+    try {
+      await this.module.joinStage(token, options);
+    } catch (e) {
+      if (this.currentState === 'joining') this.transition('initialized');
+      throw e;
+    }
+  }
+
+  /**
+   * Start publishing local streams. joined → publishing
+   */
+  async publish(): Promise<void> {
+    this.assertState('publish', ['joined']);
+    assertTokenCapability(this.token, 'PUBLISH');
+    await this.module.setStreamsPublished(true);
+    // A disconnect while the call was in flight has already ended the stage
+    if (this.currentState === 'joined') this.transition('publishing');
+  }
+
+  /**
+   * Stop publishing local streams. publishing → joined
+   */
+  async unpublish(): Promise<void> {
+    this.assertState('unpublish', ['publishing']);
+    await this.module.setStreamsPublished(false);
+    if (this.currentState === 'publishing') this.transition('joined');
+  }
+
+  /**
+   * Leave the stage. → leaving, then → initialized once the stage reports `disconnected`.
+   */
+  async leave(): Promise<void> {
+    this.assertState('leave', ['joining', 'joined', 'publishing']);
+    const previousState = this.currentState;
+    this.transition('leaving');
+    try {
+      await this.module.leaveStage();
+    } catch (e) {
+      // Still on the stage; restore the state we left from
+      if (this.currentState === 'leaving') this.setState(previousState);
+      throw e;
+    }
+  }
+
+  /**
+   * Remove every native subscription and session listener. The session cannot be used afterwards.
+   * Call `leave()` first if the stage is still joined.
+   */
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.nativeSubscriptions.forEach((sub) => sub.remove());
+    this.nativeSubscriptions.length = 0;
+    this.listeners.clear();
+  }
+
+  private handleConnectionState({ state }: StageConnectionStatePayload) {
+    if (state === 'connected') {
+      if (this.currentState === 'joining') this.transition('joined');
+    } else if (state !== 'connecting') {
+      // 'disconnected' (or a native 'error' state) ends the stage from any active state
+      if (['joining', 'joined', 'publishing', 'leaving'].includes(this.currentState)) {
+        this.transition('initialized');
+      }
+    }
+  }
+
+  private handlePublishState({ state }: PublishStatePayload) {
+    if (state === 'failed' && this.currentState === 'publishing') {
+      this.transition('joined');
+    }
+  }
+
+  private assertState(action: string, allowed: StageSessionState[]) {
+    if (this.disposed) {
+      throw new InvalidStateTransitionError('disposed', action);
+    }
+    if (!allowed.includes(this.currentState)) {
+      throw new InvalidStateTransitionError(this.currentState, action);
+    }
+  }
+
+  private transition(to: StageSessionState) {
+    if (!TRANSITIONS[this.currentState].includes(to)) {
+      throw new InvalidStateTransitionError(this.currentState, `move to "${to}"`);
+    }
+    this.setState(to);
+  }
+
+  private setState(state: StageSessionState) {
+    const previousState = this.currentState;
+    this.currentState = state;
+    this.emit('onStateChanged', { state, previousState });
+  }
+
+  private emit<E extends StageSessionEventName>(eventName: E, payload: StageSessionPayload<E>) {
+    this.listeners
+      .get(eventName)
+      ?.forEach((listener) => (listener as (payload: StageSessionPayload<E>) => void)(payload));
+  }
+}
@@ -0,0 +1,59 @@
+import * as React from 'react';
+import { StyleProp, StyleSheet, View, ViewStyle } from 'react-native';
+
+import { toMediaStream, WebVideoSource, webStageMedia } from './webStageMedia';
+
+interface WebStageVideoProps {
+  source: WebVideoSource;
+  track: MediaStreamTrack | null;
+  style?: StyleProp<ViewStyle>;
+  mirror?: boolean;
+  scaleMode?: 'fit' | 'fill';
+  onFirstFrame?: () => void;
+}
+
+/**
+ * `<video>` showing one track, sized by `style` like the native stream views.
+ * Muted, since remote audio is played by the web module.
+ */
+export function WebStageVideo({ source, track, style, mirror = false, scaleMode = 'fill', onFirstFrame }: WebStageVideoProps) {
+  const videoRef = React.useRef<HTMLVideoElement>(null);
+
+  // Lets the web module find this element for Picture-in-Picture
+  React.useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    return webStageMedia.registerVideoElement(video, source);
+  }, [source]);
+
+  React.useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = track ? toMediaStream(track) : null;
+  }, [track]);
+
+  return (
+    <View style={[styles.container, style]}>
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        onLoadedData={onFirstFrame}
+        style={{
+          width: '100%',
+          height: '100%',
+          objectFit: scaleMode === 'fit' ? 'contain' : 'cover',
+          transform: mirror ? 'scaleX(-1)' : undefined,
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    backgroundColor: 'black',
+  },
+});
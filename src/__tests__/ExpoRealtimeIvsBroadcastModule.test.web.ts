@@ -0,0 +1,446 @@
+/**
+ * @jest-environment jsdom
+ */
+import ExpoRealtimeIvsBroadcastModule from '../ExpoRealtimeIvsBroadcastModule';
+import { setIvsWebBroadcastSdk } from '../ivsWebBroadcast';
+import { webStageMedia } from '../webStageMedia';
+import { createIvsWebBroadcastStub, fakeTrack, remoteStream, StubStage } from './fixtures/ivsWebBroadcastStub';
+
+// `expo` itself loads the app runtime setup, which does not type-check outside an app; the module only needs these two
+jest.mock('expo', () => {
+  const { NativeModule, registerWebModule } = require('expo-modules-core');
+  return { NativeModule, registerWebModule };
+});
+
+const EVENTS = [
+  'onStageConnectionStateChanged',
+  'onPublishStateChanged',
+  'onParticipantJoined',
+  'onParticipantLeft',
+  'onParticipantStreamsAdded',
+  'onParticipantStreamsRemoved',
+  'onStageError',
+] as const;
+
+const alice = { id: 'alice', userId: 'user-alice', isLocal: false, attributes: { name: 'Alice' } };
+const bob = { id: 'bob', isLocal: false, attributes: {} };
+const me = { id: 'me', isLocal: true, attributes: {} };
+
+describe('ExpoRealtimeIvsBroadcastModule (web)', () => {
+  let stages: StubStage[];
+  let events: { name: string; payload: unknown }[];
+  let subscriptions: { remove(): void }[];
+
+  beforeEach(() => {
+    const stub = createIvsWebBroadcastStub();
+    setIvsWebBroadcastSdk(stub.sdk);
+    stages = stub.stages;
+    events = [];
+    subscriptions = EVENTS.map((name) =>
+      ExpoRealtimeIvsBroadcastModule.addListener(name, (payload: unknown) => events.push({ name, payload }))
+    );
+    Object.defineProperty(navigator, 'mediaDevices', {
+      configurable: true,
+      value: {
+        getUserMedia: jest.fn(async (constraints: MediaStreamConstraints) => ({
+          getTracks: () => [
+            constraints.audio
+              ? fakeTrack('audio', 'mic', { channelCount: 1 })
+              : fakeTrack('video', 'camera', { width: 720, height: 1280, frameRate: 30 }),
+          ],
+        })),
+        enumerateDevices: jest.fn(async () => []),
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await ExpoRealtimeIvsBroadcastModule.leaveStage();
+    await ExpoRealtimeIvsBroadcastModule.setPublishedMedia({ audio: true, video: true });
+    subscriptions.forEach((subscription) => subscription.remove());
+    setIvsWebBroadcastSdk(null);
+  });
+
+  async function join() {
+    await ExpoRealtimeIvsBroadcastModule.joinStage('token');
+    const stage = stages[stages.length - 1];
+    stage.fire('stageConnectionStateChanged', 'connecting');
+    stage.fire('stageConnectionStateChanged', 'connected');
+    events = [];
+    return stage;
+  }
+
+  const named = (name: string) => events.filter((event) => event.name === name).map((event) => event.payload);
+
+  describe('joining', () => {
+    it('joins a stage with the token and reports its connection state', async () => {
+      await ExpoRealtimeIvsBroadcastModule.joinStage('token');
+      const [stage] = stages;
+      stage.fire('stageConnectionStateChanged', 'connecting');
+      stage.fire('stageConnectionStateChanged', 'connected');
+
+      expect(stage.token).toBe('token');
+      expect(stage.joined).toBe(true);
+      expect(named('onStageConnectionStateChanged')).toEqual([{ state: 'connecting' }, { state: 'connected' }]);
+    });
+
+    it('reports a failed join as a fatal error and disconnects', async () => {
+      const { sdk } = createIvsWebBroadcastStub();
+      setIvsWebBroadcastSdk({
+        ...sdk,
+        Stage: class extends StubStage {
+          joinError = Object.assign(new Error('Token is expired'), { code: 1001 });
+        },
+      });
+
+      await ExpoRealtimeIvsBroadcastModule.joinStage('token');
+
+      expect(named('onStageError')).toEqual([
+        { code: 1001, description: 'Failed to join stage: Token is expired', isFatal: true, source: 'IVSStage' },
+      ]);
+      expect(named('onStageConnectionStateChanged')).toEqual([
+        { state: 'disconnected', error: 'Failed to join stage: Token is expired' },
+      ]);
+    });
+
+    it('ignores events from a stage that was left', async () => {
+      const stage = await join();
+      await ExpoRealtimeIvsBroadcastModule.leaveStage();
+      events = [];
+
+      stage.fire('stageParticipantJoined', alice);
+      expect(stage.left).toBe(true);
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('publishing', () => {
+    it('publishes the local streams once published and reports the published media', async () => {
+      await ExpoRealtimeIvsBroadcastModule.initializeLocalStreams();
+      const stage = await join();
+      expect(stage.strategy.stageStreamsToPublish()).toEqual([]);
+      expect(stage.strategy.shouldPublishParticipant(me)).toBe(false);
+
+      await ExpoRealtimeIvsBroadcastModule.setStreamsPublished(true);
+      expect(stage.refreshCount).toBe(1);
+      expect(stage.strategy.stageStreamsToPublish().map((stream) => stream.streamType)).toEqual(['video', 'audio']);
+      expect(stage.strategy.shouldPublishParticipant(me)).toBe(true);
+
+      stage.fire('stageParticipantPublishStateChanged', me, 'attempting_publish');
+      stage.fire('stageParticipantPublishStateChanged', me, 'published');
+      expect(named('onPublishStateChanged')).toEqual([
+        { state: 'attempting', media: { audio: false, video: false } },
+        { state: 'published', media: { audio: true, video: true } },
+      ]);
+    });
+
+    it('leaves out media turned off with setPublishedMedia', async () => {
+      await ExpoRealtimeIvsBroadcastModule.initializeLocalStreams();
+      const stage = await join();
+      await ExpoRealtimeIvsBroadcastModule.setStreamsPublished(true);
+
+      await ExpoRealtimeIvsBroadcastModule.setPublishedMedia({ audio: true, video: false });
+      expect(stage.strategy.stageStreamsToPublish().map((stream) => stream.streamType)).toEqual(['audio']);
+    });
+
+    it('reports publishing without a stage through onStageError', async () => {
+      await ExpoRealtimeIvsBroadcastModule.setStreamsPublished(true);
+
+      expect(named('onStageError')).toEqual([
+        {
+          code: 0,
+          description: 'Stage not initialized. Cannot set streams published state.',
+          source: 'setStreamsPublished',
+          isFatal: false,
+        },
+      ]);
+    });
+
+    it('ignores publish state changes of remote participants', async () => {
+      const stage = await join();
+
+      stage.fire('stageParticipantPublishStateChanged', alice, 'published');
+      expect(named('onPublishStateChanged')).toEqual([]);
+    });
+  });
+
+  describe('camera muting', () => {
+    it('mutes the camera stream without a placeholder', async () => {
+      await ExpoRealtimeIvsBroadcastModule.initializeLocalStreams();
+      const muted = jest.fn();
+      const subscription = ExpoRealtimeIvsBroadcastModule.addListener('onCameraMuteStateChanged', muted);
+
+      await ExpoRealtimeIvsBroadcastModule.setCameraMuted(true, 'Be right back');
+      subscription.remove();
+      await ExpoRealtimeIvsBroadcastModule.setCameraMuted(false);
+
+      expect(muted).toHaveBeenCalledWith({ muted: true, placeholderActive: false });
+    });
+
+    it('rejects placeholder options as unsupported, as on Android', async () => {
+      await expect(ExpoRealtimeIvsBroadcastModule.setPlaceholderOptions({ text: 'Away' })).rejects.toMatchObject({
+        code: 'ERR_PLACEHOLDER_UNSUPPORTED',
+      });
+    });
+  });
+
+  describe('remote streams', () => {
+    it('adds and removes the streams of a joined participant', async () => {
+      const stage = await join();
+      const audio = remoteStream('alice:audio', 'audio');
+      const video = remoteStream('alice:video', 'video');
+
+      stage.fire('stageParticipantJoined', alice);
+      stage.fire('stageParticipantStreamsAdded', alice, [audio, video]);
+      expect(named('onParticipantJoined')).toEqual([
+        {
+          participantId: 'alice',
+          userId: 'user-alice',
+          attributes: { name: 'Alice' },
+          isLocal: false,
+          joinedAt: expect.any(Number),
+        },
+      ]);
+      expect(named('onParticipantStreamsAdded')).toEqual([
+        {
+          participantId: 'alice',
+          streams: [
+            { deviceUrn: 'alice:audio', mediaType: 'audio', muted: false },
+            { deviceUrn: 'alice:video', mediaType: 'video', muted: false },
+          ],
+        },
+      ]);
+
+      stage.fire('stageParticipantStreamsRemoved', alice, [video]);
+      expect(named('onParticipantStreamsRemoved')).toEqual([
+        { participantId: 'alice', streams: [{ deviceUrn: 'alice:video' }] },
+      ]);
+      expect((await ExpoRealtimeIvsBroadcastModule.getParticipants())[0].streams).toEqual([
+        { deviceUrn: 'alice:audio', mediaType: 'audio', muted: false },
+      ]);
+    });
+
+    it('keeps streams that arrive before the participant joins', async () => {
+      const stage = await join();
+
+      stage.fire('stageParticipantStreamsAdded', alice, [remoteStream('alice:audio', 'audio')]);
+      stage.fire('stageParticipantJoined', alice);
+
+      expect(named('onParticipantStreamsAdded')).toHaveLength(1);
+      expect(await ExpoRealtimeIvsBroadcastModule.getParticipants()).toEqual([
+        expect.objectContaining({
+          id: 'alice',
+          userId: 'user-alice',
+          streams: [{ deviceUrn: 'alice:audio', mediaType: 'audio', muted: false }],
+        }),
+      ]);
+    });
+
+    it('reports remote audio the browser does not let play', async () => {
+      Object.assign(globalThis, { MediaStream: class {} });
+      jest.spyOn(HTMLMediaElement.prototype, 'play').mockRejectedValue(new Error('play() needs a user gesture'));
+      jest.spyOn(HTMLMediaElement.prototype, 'pause').mockReturnValue();
+      try {
+        const stage = await join();
+        stage.fire('stageParticipantStreamsAdded', alice, [remoteStream('alice:audio', 'audio')]);
+        await Promise.resolve();
+
+        expect(named('onStageError')).toEqual([
+          { code: 0, description: 'play() needs a user gesture', source: 'playRemoteAudio', isFatal: false },
+        ]);
+        await ExpoRealtimeIvsBroadcastModule.leaveStage();
+      } finally {
+        delete (globalThis as { MediaStream?: unknown }).MediaStream;
+        jest.restoreAllMocks();
+      }
+    });
+
+    it('drops a participant and its streams when it leaves', async () => {
+      const stage = await join();
+      stage.fire('stageParticipantJoined', alice);
+      stage.fire('stageParticipantStreamsAdded', alice, [remoteStream('alice:video', 'video')]);
+
+      stage.fire('stageParticipantLeft', alice);
+      expect(named('onParticipantLeft')).toEqual([expect.objectContaining({ participantId: 'alice' })]);
+      expect(await ExpoRealtimeIvsBroadcastModule.getParticipants()).toEqual([]);
+    });
+  });
+
+  describe('audio levels', () => {
+    // Constant sample value each track plays, by track ID; the RMS of a constant is its value
+    let amplitudes: Record<string, number>;
+    let closed: boolean;
+
+    class FakeMediaStream {
+      constructor(readonly tracks: MediaStreamTrack[]) {}
+    }
+
+    class FakeAudioContext {
+      createMediaStreamSource(stream: FakeMediaStream) {
+        const [track] = stream.tracks;
+        return {
+          connect: (analyser: { trackId: string }) => (analyser.trackId = track.id),
+          disconnect: jest.fn(),
+        };
+      }
+
+      createAnalyser() {
+        return {
+          fftSize: 0,
+          trackId: '',
+          getFloatTimeDomainData(samples: Float32Array) {
+            samples.fill(amplitudes[this.trackId] ?? 0);
+          },
+        };
+      }
+
+      async close() {
+        closed = true;
+      }
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      amplitudes = {};
+      closed = false;
+      Object.assign(globalThis, { AudioContext: FakeAudioContext, MediaStream: FakeMediaStream });
+      // Remote audio is played through an <audio> element once MediaStream exists
+      jest.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue();
+      jest.spyOn(HTMLMediaElement.prototype, 'pause').mockReturnValue();
+    });
+
+    afterEach(async () => {
+      await ExpoRealtimeIvsBroadcastModule.setAudioLevelsInterval(null);
+      // Stops remote audio while `pause` is still stubbed
+      await ExpoRealtimeIvsBroadcastModule.leaveStage();
+      const globals = globalThis as { AudioContext?: unknown; MediaStream?: unknown };
+      delete globals.AudioContext;
+      delete globals.MediaStream;
+      jest.restoreAllMocks();
+      jest.useRealTimers();
+    });
+
+    function reports() {
+      return named('onAudioLevels') as { levels: { participantId: string; level: number }[] }[];
+    }
+
+    it('reports the loudest level of every audio stream since the previous report', async () => {
+      await ExpoRealtimeIvsBroadcastModule.initializeLocalStreams();
+      const stage = await join();
+      stage.fire('stageParticipantJoined', me);
+      stage.fire('stageParticipantStreamsAdded', alice, [remoteStream('alice:audio', 'audio')]);
+      const subscription = ExpoRealtimeIvsBroadcastModule.addListener('onAudioLevels', (payload) =>
+        events.push({ name: 'onAudioLevels', payload })
+      );
+
+      await ExpoRealtimeIvsBroadcastModule.setAudioLevelsInterval(200);
+      amplitudes = { mic: 0.1, 'alice:audio': 1 };
+      jest.advanceTimersByTime(100);
+      amplitudes = { mic: 0.1, 'alice:audio': 0.001 };
+      jest.advanceTimersByTime(100);
+      jest.advanceTimersByTime(200);
+      subscription.remove();
+
+      expect(reports()).toEqual([
+        {
+          levels: [
+            { participantId: 'me', deviceUrn: 'local:mic', isLocal: true, level: expect.closeTo(2 / 3) },
+            { participantId: 'alice', deviceUrn: 'alice:audio', isLocal: false, level: 1 },
+          ],
+        },
+        {
+          levels: [
+            { participantId: 'me', deviceUrn: 'local:mic', isLocal: true, level: expect.closeTo(2 / 3) },
+            { participantId: 'alice', deviceUrn: 'alice:audio', isLocal: false, level: expect.closeTo(0) },
+          ],
+        },
+      ]);
+    });
+
+    it('stops reporting and closes the audio context when the interval is cleared', async () => {
+      await ExpoRealtimeIvsBroadcastModule.initializeLocalStreams();
+      const listener = jest.fn();
+      const subscription = ExpoRealtimeIvsBroadcastModule.addListener('onAudioLevels', listener);
+
+      await ExpoRealtimeIvsBroadcastModule.setAudioLevelsInterval(100);
+      jest.advanceTimersByTime(100);
+      await ExpoRealtimeIvsBroadcastModule.setAudioLevelsInterval(null);
+      jest.advanceTimersByTime(1000);
+      subscription.remove();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(closed).toBe(true);
+    });
+
+    it('rejects where the Web Audio API is missing', async () => {
+      delete (globalThis as { AudioContext?: unknown }).AudioContext;
+
+      await expect(ExpoRealtimeIvsBroadcastModule.setAudioLevelsInterval(100)).rejects.toMatchObject({
+        code: 'ERR_AUDIO_LEVELS_UNSUPPORTED',
+      });
+    });
+  });
+
+  describe('view binding', () => {
+    let views: number[];
+
+    beforeEach(() => {
+      views = [];
+    });
+
+    afterEach(() => {
+      views.forEach((id) => webStageMedia.unregisterView(id));
+    });
+
+    function registerView(binding: { participantId?: string; deviceUrn?: string } = {}) {
+      const id = webStageMedia.registerView(binding);
+      views.push(id);
+      return id;
+    }
+
+    const shown = (id: number) => webStageMedia.getViewVideo(id)?.deviceUrn ?? null;
+
+    it('shows a bound participant in its view and the rest in unbound views', async () => {
+      const stage = await join();
+      const unbound = registerView();
+      const boundToBob = registerView({ participantId: 'bob' });
+
+      stage.fire('stageParticipantStreamsAdded', bob, [remoteStream('bob:video', 'video')]);
+      stage.fire('stageParticipantStreamsAdded', alice, [remoteStream('alice:video', 'video')]);
+
+      expect(shown(boundToBob)).toBe('bob:video');
+      expect(shown(unbound)).toBe('alice:video');
+    });
+
+    it('shows the target participant first in unbound views', async () => {
+      await ExpoRealtimeIvsBroadcastModule.joinStage('token', { targetParticipantId: 'bob' });
+      const [stage] = stages;
+      const view = registerView();
+
+      stage.fire('stageParticipantStreamsAdded', alice, [remoteStream('alice:video', 'video')]);
+      stage.fire('stageParticipantStreamsAdded', bob, [remoteStream('bob:video', 'video')]);
+      expect(shown(view)).toBe('bob:video');
+    });
+
+    it('clears a view when its stream is removed and when the stage is left', async () => {
+      const stage = await join();
+      const view = registerView({ deviceUrn: 'alice:video' });
+      const video = remoteStream('alice:video', 'video');
+
+      stage.fire('stageParticipantStreamsAdded', alice, [video]);
+      expect(shown(view)).toBe('alice:video');
+      stage.fire('stageParticipantStreamsRemoved', alice, [video]);
+      expect(shown(view)).toBeNull();
+
+      stage.fire('stageParticipantStreamsAdded', alice, [video]);
+      await ExpoRealtimeIvsBroadcastModule.leaveStage();
+      expect(shown(view)).toBeNull();
+    });
+
+    it('shares the local camera track with the preview', async () => {
+      await ExpoRealtimeIvsBroadcastModule.initializeLocalStreams();
+
+      expect(webStageMedia.getLocalVideo()?.id).toBe('camera');
+    });
+  });
+});
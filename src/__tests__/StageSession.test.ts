@@ -0,0 +1,204 @@
+import { StageSession, StageSessionState } from '../StageSession';
+import { InvalidStateTransitionError } from '../errors';
+import { FakeExpoRealtimeIvsBroadcastModule } from '../testing';
+import { makeParticipantToken } from './fixtures/participantToken';
+
+jest.mock('../ExpoRealtimeIvsBroadcastModule', () => require('../testing').mockNativeModule());
+
+describe('StageSession', () => {
+  let module: FakeExpoRealtimeIvsBroadcastModule;
+  let session: StageSession;
+  let states: StageSessionState[];
+
+  beforeEach(() => {
+    module = new FakeExpoRealtimeIvsBroadcastModule();
+    session = new StageSession(module);
+    states = [];
+    session.on('onStateChanged', ({ state }) => states.push(state));
+  });
+
+  afterEach(() => {
+    session.dispose();
+  });
+
+  async function joined() {
+    await session.initialize();
+    await session.initializeLocalStreams();
+    await session.join(makeParticipantToken());
+  }
+
+  describe('transitions', () => {
+    it('walks the full lifecycle', async () => {
+      await joined();
+      await session.publish();
+      await session.unpublish();
+      await session.leave();
+
+      expect(states).toEqual(['initialized', 'joining', 'joined', 'publishing', 'joined', 'leaving', 'initialized']);
+    });
+
+    it('stays joining until the stage reports connected', async () => {
+      await session.initialize();
+      module.joinStage = async () => {};
+
+      await session.join(makeParticipantToken());
+      expect(session.state).toBe('joining');
+
+      module.emit('onStageConnectionStateChanged', { state: 'connecting' });
+      expect(session.state).toBe('joining');
+      module.emit('onStageConnectionStateChanged', { state: 'connected' });
+      expect(session.state).toBe('joined');
+    });
+
+    it('returns to initialized when the join rejects', async () => {
+      await session.initialize();
+      module.joinStage = async () => {
+        throw new Error('join failed');
+      };
+
+      await expect(session.join(makeParticipantToken())).rejects.toThrow('join failed');
+      expect(session.state).toBe('initialized');
+    });
+
+    it('returns to initialized when the stage disconnects', async () => {
+      await joined();
+      await session.publish();
+
+      module.emit('onStageConnectionStateChanged', { state: 'disconnected' });
+      expect(session.state).toBe('initialized');
+    });
+
+    it('falls back to joined when publishing fails', async () => {
+      await joined();
+      await session.publish();
+
+      module.emit('onPublishStateChanged', { state: 'failed', media: { audio: false, video: false } });
+      expect(session.state).toBe('joined');
+    });
+
+    it('restores the previous state when leaving rejects', async () => {
+      await joined();
+      module.leaveStage = async () => {
+        throw new Error('leave failed');
+      };
+
+      await expect(session.leave()).rejects.toThrow('leave failed');
+      expect(session.state).toBe('joined');
+    });
+
+    it('does not start publishing when the stage disconnects during publish()', async () => {
+      await joined();
+      module.setStreamsPublished = async () => {
+        module.emit('onStageConnectionStateChanged', { state: 'disconnected' });
+      };
+
+      await session.publish();
+      expect(session.state).toBe('initialized');
+    });
+
+    it('does not return to joined when the stage disconnects during unpublish()', async () => {
+      await joined();
+      await session.publish();
+      module.setStreamsPublished = async () => {
+        module.emit('onStageConnectionStateChanged', { state: 'disconnected' });
+      };
+
+      await session.unpublish();
+      expect(session.state).toBe('initialized');
+    });
+  });
+
+  describe('illegal actions', () => {
+    it('rejects joining before initialize()', async () => {
+      await expect(session.join(makeParticipantToken())).rejects.toThrow(InvalidStateTransitionError);
+      expect(module.callsTo('joinStage')).toHaveLength(0);
+    });
+
+    it('rejects initializing twice', async () => {
+      await session.initialize();
+      await expect(session.initialize()).rejects.toMatchObject({ state: 'initialized', action: 'initialize' });
+    });
+
+    it('rejects publishing before joining', async () => {
+      await session.initialize();
+      await expect(session.publish()).rejects.toMatchObject({ state: 'initialized', action: 'publish' });
+      expect(module.callsTo('setStreamsPublished')).toHaveLength(0);
+    });
+
+    it('rejects unpublishing when not publishing', async () => {
+      await joined();
+      await expect(session.unpublish()).rejects.toMatchObject({ state: 'joined', action: 'unpublish' });
+    });
+
+    it('rejects leaving when not on the stage', async () => {
+      await session.initialize();
+      await expect(session.leave()).rejects.toMatchObject({ state: 'initialized', action: 'leave' });
+    });
+
+    it('rejects local streams while publishing', async () => {
+      await joined();
+      await session.publish();
+      await expect(session.initializeLocalStreams()).rejects.toThrow(InvalidStateTransitionError);
+    });
+  });
+
+  describe('events', () => {
+    it('forwards every native event', () => {
+      const devices = jest.fn();
+      const levels = jest.fn();
+      const stats = jest.fn();
+      session.on('onDevicesChanged', devices);
+      session.on('onAudioLevels', levels);
+      session.on('onStatsUpdated', stats);
+
+      module.emit('onDevicesChanged', { devices: [] });
+      module.emit('onAudioLevels', { levels: [] });
+      module.emit('onStatsUpdated', { stats: [] });
+
+      expect(devices).toHaveBeenCalledWith({ devices: [] });
+      expect(levels).toHaveBeenCalledWith({ levels: [] });
+      expect(stats).toHaveBeenCalledWith({ stats: [] });
+    });
+
+    it('stops calling a listener once its subscription is removed', () => {
+      const listener = jest.fn();
+      session.on('onDevicesChanged', listener).remove();
+
+      module.emit('onDevicesChanged', { devices: [] });
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dispose()', () => {
+    it('removes every native subscription', () => {
+      expect(module.listenerCount('onStageConnectionStateChanged')).toBe(1);
+
+      session.dispose();
+
+      expect(module.listenerCount('onStageConnectionStateChanged')).toBe(0);
+      expect(module.listenerCount('onStatsUpdated')).toBe(0);
+    });
+
+    it('stops emitting to session listeners', async () => {
+      await session.initialize();
+      const listener = jest.fn();
+      session.on('onStageError', listener);
+
+      session.dispose();
+      module.emit('onStageError', { code: 1, description: 'boom', source: 'test', isFatal: false });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('rejects every action afterwards', async () => {
+      session.dispose();
+
+      await expect(session.initialize()).rejects.toMatchObject({ state: 'disposed', action: 'initialize' });
+    });
+
+    it('can be called more than once', () => {
+      session.dispose();
+      expect(() => session.dispose()).not.toThrow();
+    });
+  });
+});
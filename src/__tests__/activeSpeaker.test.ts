@@ -0,0 +1,169 @@
+import { act } from 'react';
+import { ActiveSpeakerDetector } from '../activeSpeaker';
+import { fakeModule } from '../testing';
+import { useActiveSpeaker } from '../useActiveSpeaker';
+import { renderHook } from './fixtures/renderHook';
+
+jest.mock('../ExpoRealtimeIvsBroadcastModule', () => require('../testing').mockNativeModule());
+
+describe('ActiveSpeakerDetector', () => {
+  let detector: ActiveSpeakerDetector;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    detector = new ActiveSpeakerDetector({ speakingThreshold: 0.5, silenceThreshold: 0.3, minHoldMs: 1000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // One report, `ms` after the previous one
+  function report(levels: Record<string, number>, ms = 100): string | null {
+    jest.advanceTimersByTime(ms);
+    return detector.update(Object.entries(levels).map(([participantId, level]) => ({ participantId, level })));
+  }
+
+  describe('thresholds', () => {
+    it('has no speaker until someone reaches the speaking threshold', () => {
+      expect(report({ a: 0.49 })).toBeNull();
+      expect(report({ a: 0.5 })).toBe('a');
+    });
+
+    it('keeps a speaker whose level dips between the two thresholds', () => {
+      report({ a: 0.6 });
+      jest.advanceTimersByTime(2000);
+
+      expect(report({ a: 0.35, b: 0.9 })).toBe('a');
+      expect(report({ a: 0.31, b: 0.9 })).toBe('a');
+      expect(report({ a: 0.29, b: 0.9 })).toBe('b');
+    });
+
+    it('does not start a participant speaking between the two thresholds', () => {
+      report({ a: 0.6 });
+      jest.advanceTimersByTime(2000);
+
+      expect(report({ a: 0, b: 0.45 })).toBe('a');
+    });
+
+    it('counts the loudest stream of each participant', () => {
+      expect(
+        detector.update([
+          { participantId: 'a', level: 0.1 },
+          { participantId: 'a', level: 0.7 },
+        ])
+      ).toBe('a');
+    });
+  });
+
+  describe('minHoldMs', () => {
+    it('holds a new speaker for minHoldMs even after they fall silent', () => {
+      report({ a: 0.8 });
+
+      expect(report({ a: 0, b: 0.9 }, 500)).toBe('a');
+      expect(report({ a: 0, b: 0.9 }, 499)).toBe('a');
+      expect(report({ a: 0, b: 0.9 }, 1)).toBe('b');
+    });
+
+    it('keeps a speaker who is still speaking past minHoldMs', () => {
+      report({ a: 0.6 });
+
+      expect(report({ a: 0.6, b: 0.9 }, 5000)).toBe('a');
+    });
+
+    it('keeps the last speaker when everyone goes silent', () => {
+      report({ a: 0.8 });
+
+      expect(report({}, 5000)).toBe('a');
+    });
+  });
+
+  describe('handoff', () => {
+    it('hands over to the loudest participant still speaking', () => {
+      report({ a: 0.8 });
+      jest.advanceTimersByTime(2000);
+
+      expect(report({ a: 0, b: 0.6, c: 0.9 })).toBe('c');
+    });
+
+    it('starts a new hold on every handoff', () => {
+      report({ a: 0.8 });
+      jest.advanceTimersByTime(2000);
+      expect(report({ b: 0.8 })).toBe('b');
+
+      expect(report({ c: 0.9 }, 999)).toBe('b');
+      expect(report({ c: 0.9 }, 1)).toBe('c');
+    });
+
+    it('clears a speaker who is removed', () => {
+      report({ a: 0.8 });
+      detector.remove('a');
+
+      expect(detector.activeSpeakerId).toBeNull();
+      expect(report({ b: 0.8 })).toBe('b');
+    });
+  });
+});
+
+describe('useActiveSpeaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    fakeModule.reset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  async function levels(ms: number, ...reports: { participantId: string; level: number; isLocal?: boolean }[]) {
+    await act(async () => {
+      jest.advanceTimersByTime(ms);
+      fakeModule.simulateAudioLevels(
+        reports.map(({ participantId, level, isLocal = false }) => ({
+          participantId,
+          deviceUrn: `${participantId}:audio`,
+          isLocal,
+          level,
+        }))
+      );
+    });
+  }
+
+  it('reports the active remote speaker and hands over after minHoldMs', async () => {
+    fakeModule.simulateParticipantJoin({ participantId: 'alice' });
+    fakeModule.simulateParticipantJoin({ participantId: 'bob' });
+    const { result, unmount } = await renderHook(() => useActiveSpeaker({ minHoldMs: 1000 }));
+    expect(fakeModule.audioLevelsIntervalMs).toBe(100);
+
+    await levels(100, { participantId: 'alice', level: 0.8 });
+    expect(result.current.activeSpeakerId).toBe('alice');
+    expect(result.current.activeSpeaker?.id).toBe('alice');
+
+    await levels(500, { participantId: 'bob', level: 0.9 });
+    expect(result.current.activeSpeakerId).toBe('alice');
+
+    await levels(500, { participantId: 'bob', level: 0.9 });
+    expect(result.current.activeSpeakerId).toBe('bob');
+    await unmount();
+  });
+
+  it('ignores the local participant unless includeLocal is set', async () => {
+    const { result, unmount } = await renderHook(() => useActiveSpeaker({ includeLocal: true }));
+
+    await levels(100, { participantId: 'me', level: 0.8, isLocal: true });
+    expect(result.current).toEqual({ activeSpeakerId: 'me', activeSpeaker: null, isLocal: true });
+    await unmount();
+
+    const remoteOnly = await renderHook(() => useActiveSpeaker());
+    await levels(100, { participantId: 'me', level: 0.8, isLocal: true });
+    expect(remoteOnly.result.current.activeSpeakerId).toBeNull();
+    await remoteOnly.unmount();
+  });
+
+  it('stops audio level updates on unmount', async () => {
+    const { unmount } = await renderHook(() => useActiveSpeaker());
+
+    await unmount();
+    expect(fakeModule.audioLevelsIntervalMs).toBeNull();
+  });
+});
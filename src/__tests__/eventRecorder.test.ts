@@ -0,0 +1,129 @@
+import { RECORDED_EVENT_NAMES, withCallRecording } from '../eventRecorder';
+import {
+  getParticipants,
+  initializeLocalStreams,
+  initializeStage,
+  joinStage,
+  selectCamera,
+  setMicrophoneMuted,
+  setStreamsPublished,
+  startEventRecording,
+} from '../index';
+import { fakeModule, replay } from '../testing';
+import { makeParticipantToken } from './fixtures/participantToken';
+
+jest.mock('../ExpoRealtimeIvsBroadcastModule', () => require('../testing').mockNativeModule());
+
+// Logs hold JSON, so compare in that form
+const asJson = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+function captureEvents() {
+  const events: { name: string; payload: unknown }[] = [];
+  const subscriptions = RECORDED_EVENT_NAMES.map((name) =>
+    fakeModule.addListener(name, (payload: unknown) => events.push({ name, payload }))
+  );
+  return { events, stop: () => subscriptions.forEach((sub) => sub.remove()) };
+}
+
+// The app's side of a short session; returns what each call resolved or rejected with
+async function session(token: string) {
+  const outcomes: unknown[] = [];
+  const settle = async (call: () => Promise<unknown>) => {
+    try {
+      outcomes.push({ result: await call() });
+    } catch (e) {
+      outcomes.push({ error: (e as Error).message });
+    }
+  };
+  await settle(() => initializeStage());
+  await settle(() => initializeLocalStreams({ bitrate: 96_000 }));
+  await settle(() => joinStage(token));
+  await settle(() => setStreamsPublished(true));
+  await settle(() => setMicrophoneMuted(true));
+  await settle(() => selectCamera('missing:camera'));
+  await settle(() => getParticipants());
+  return outcomes;
+}
+
+describe('EventRecorder', () => {
+  beforeEach(() => {
+    fakeModule.reset();
+  });
+
+  it('records module calls with their results and errors', async () => {
+    const recorder = startEventRecording();
+    await initializeStage();
+    await expect(selectCamera('missing:camera')).rejects.toThrow('No camera device found with URN missing:camera');
+    const log = recorder.stop();
+
+    const calls = log.entries.filter((entry) => entry.kind === 'call');
+    expect(calls).toEqual([
+      expect.objectContaining({ method: 'initializeStage', args: [null, null] }),
+      expect.objectContaining({
+        method: 'selectCamera',
+        args: ['missing:camera'],
+        error: { message: 'No camera device found with URN missing:camera', code: 'ERR_DEVICE_NOT_FOUND' },
+      }),
+    ]);
+    expect(recorder.isRecording).toBe(false);
+  });
+
+  it('leaves out ignored events and drops the oldest entries beyond maxEntries', async () => {
+    const recorder = startEventRecording({ ignoreEvents: ['onDevicesChanged'], maxEntries: 2 });
+    fakeModule.simulateDevicesChanged([]);
+    fakeModule.simulateDisconnect('first');
+    fakeModule.simulateDisconnect('second');
+    fakeModule.simulateDisconnect('third');
+    const log = recorder.stop();
+
+    expect(log.entries.map((entry) => entry.kind === 'event' && entry.payload)).toEqual([
+      { state: 'disconnected', error: 'second' },
+      { state: 'disconnected', error: 'third' },
+    ]);
+  });
+
+  it('replays a log into the same calls, results and events', async () => {
+    const token = makeParticipantToken();
+    const recorded = captureEvents();
+    const recorder = startEventRecording();
+
+    const recordedOutcomes = await session(token);
+    fakeModule.simulateParticipantJoin({ participantId: 'guest', userId: 'guest-user' });
+    fakeModule.simulateStreamMuted('guest', 'guest:video', true);
+    fakeModule.simulateDisconnect('Network connection lost');
+
+    const log = recorder.stop();
+    recorded.stop();
+    const recordedCalls = asJson(fakeModule.calls);
+
+    // A log as it would arrive attached to a bug report
+    fakeModule.reset();
+    const replayed = captureEvents();
+    const playback = replay(JSON.parse(JSON.stringify(log)));
+
+    const replayedOutcomes = await session(token);
+    playback.playAll();
+    playback.stop();
+    replayed.stop();
+
+    expect(replayedOutcomes).toEqual(asJson(recordedOutcomes));
+    expect(asJson(fakeModule.calls)).toEqual(recordedCalls);
+    expect(asJson(replayed.events)).toEqual(asJson(recorded.events));
+    expect(replayed.events.map((event) => event.name)).toEqual(
+      expect.arrayContaining([
+        'onParticipantJoined',
+        'onParticipantStreamsMutedChanged',
+        'onStageConnectionStateChanged',
+      ])
+    );
+  });
+
+  it('only records calls while a recorder is running', async () => {
+    const module = withCallRecording(fakeModule);
+    const recorder = startEventRecording();
+    recorder.stop();
+
+    await module.isCameraMuted();
+    expect(recorder.getLog().entries).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import type {
+  IvsLocalStageStream,
+  IvsLocalStageStreamOptions,
+  IvsStage,
+  IvsStageStrategy,
+  IvsStageStream,
+  IvsWebBroadcastSdk,
+} from '../../ivsWebBroadcast';
+
+type Listener = (...args: never[]) => void;
+
+/** A stage that records what the web module asks of it; tests fire the SDK's events with `fire` */
+export class StubStage implements IvsStage {
+  joined = false;
+  left = false;
+  refreshCount = 0;
+  joinError: Error | null = null;
+  private listeners = new Map<string, Set<Listener>>();
+
+  constructor(readonly token: string, readonly strategy: IvsStageStrategy) {}
+
+  async join(): Promise<void> {
+    if (this.joinError) throw this.joinError;
+    this.joined = true;
+  }
+
+  leave(): void {
+    this.left = true;
+  }
+
+  refreshStrategy(): void {
+    this.refreshCount++;
+  }
+
+  on(event: string, listener: Listener): void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+  }
+
+  off(event: string, listener: Listener): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  fire(event: string, ...args: unknown[]): void {
+    this.listeners.get(event)?.forEach((listener) => (listener as (...args: unknown[]) => void)(...args));
+  }
+}
+
+export class StubLocalStageStream implements IvsLocalStageStream {
+  readonly id: string;
+  readonly streamType: string;
+  isMuted = false;
+
+  constructor(readonly mediaStreamTrack: MediaStreamTrack, readonly options?: IvsLocalStageStreamOptions) {
+    this.id = `local:${mediaStreamTrack.id}`;
+    this.streamType = mediaStreamTrack.kind;
+  }
+
+  setMuted(muted: boolean): void {
+    this.isMuted = muted;
+  }
+}
+
+/** A capture track with the settings a browser would report */
+export function fakeTrack(kind: 'audio' | 'video', id: string, settings: MediaTrackSettings = {}): MediaStreamTrack {
+  return { kind, id, stop: jest.fn(), getSettings: () => settings } as unknown as MediaStreamTrack;
+}
+
+export function remoteStream(id: string, streamType: 'audio' | 'video', isMuted = false): IvsStageStream {
+  return { id, streamType, isMuted, mediaStreamTrack: fakeTrack(streamType, id) };
+}
+
+/**
+ * An SDK whose stages are all `StubStage`s, for `setIvsWebBroadcastSdk`.
+ * Enum values are the strings the real SDK uses.
+ */
+export function createIvsWebBroadcastStub(): { sdk: IvsWebBroadcastSdk; stages: StubStage[] } {
+  const stages: StubStage[] = [];
+  const sdk: IvsWebBroadcastSdk = {
+    Stage: class extends StubStage {
+      constructor(token: string, strategy: IvsStageStrategy) {
+        super(token, strategy);
+        stages.push(this);
+      }
+    },
+    LocalStageStream: StubLocalStageStream,
+    StageEvents: {
+      STAGE_CONNECTION_STATE_CHANGED: 'stageConnectionStateChanged',
+      STAGE_PARTICIPANT_JOINED: 'stageParticipantJoined',
+      STAGE_PARTICIPANT_LEFT: 'stageParticipantLeft',
+      STAGE_PARTICIPANT_PUBLISH_STATE_CHANGED: 'stageParticipantPublishStateChanged',
+      STAGE_PARTICIPANT_STREAMS_ADDED: 'stageParticipantStreamsAdded',
+      STAGE_PARTICIPANT_STREAMS_REMOVED: 'stageParticipantStreamsRemoved',
+      STAGE_STREAM_MUTE_CHANGED: 'stageStreamMuteChanged',
+      ERROR: 'error',
+    },
+    ConnectionState: {
+      CONNECTING: 'connecting',
+      CONNECTED: 'connected',
+      DISCONNECTED: 'disconnected',
+      ERRORED: 'errored',
+    },
+    StageParticipantPublishState: {
+      NOT_PUBLISHED: 'not_published',
+      ATTEMPTING_PUBLISH: 'attempting_publish',
+      PUBLISHED: 'published',
+      ERRORED: 'errored',
+    },
+    SubscribeType: { AUDIO_VIDEO: 'audio_video', AUDIO_ONLY: 'audio_only', NONE: 'none' },
+    StreamType: { AUDIO: 'audio', VIDEO: 'video' },
+    StageErrorCategory: { JOIN_ERROR: 'JOIN_ERROR' },
+  };
+  return { sdk, stages };
+}
@@ -0,0 +1,25 @@
+/**
+ * An unsigned participant token with the claims `parseParticipantToken` reads
+ */
+export function makeParticipantToken({
+  participantId = 'participant-1',
+  publish = true,
+  subscribe = true,
+  expiresInSeconds = 3600,
+}: {
+  participantId?: string;
+  publish?: boolean;
+  subscribe?: boolean;
+  expiresInSeconds?: number;
+} = {}): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims = {
+    jti: participantId,
+    resource: 'arn:aws:ivs:us-east-1:123456789012:stage/abcdef',
+    capabilities: { allow_publish: publish, allow_subscribe: subscribe },
+    iat: now,
+    exp: now + expiresInSeconds,
+  };
+  const payload = btoa(JSON.stringify(claims)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return ['header', payload, 'signature'].join('.');
+}
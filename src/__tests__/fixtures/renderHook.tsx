@@ -0,0 +1,36 @@
+import { act, createElement, ReactElement } from 'react';
+
+// jest-expo ships react-test-renderer without its type declarations
+const { create } = require('react-test-renderer') as {
+  create(element: ReactElement): { unmount(): void };
+};
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+export interface RenderHookResult<T> {
+  /** The hook's latest return value */
+  result: { current: T };
+  unmount(): Promise<void>;
+}
+
+/**
+ * Render `hook` in a bare component, flushing its effects and any promises they resolve
+ */
+export async function renderHook<T>(hook: () => T): Promise<RenderHookResult<T>> {
+  const result = {} as { current: T };
+  function Probe() {
+    result.current = hook();
+    return null;
+  }
+  let renderer: { unmount(): void } | undefined;
+  await act(async () => {
+    renderer = create(createElement(Probe));
+  });
+  return {
+    result,
+    unmount: () =>
+      act(async () => {
+        renderer?.unmount();
+      }),
+  };
+}
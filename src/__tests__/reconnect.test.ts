@@ -0,0 +1,191 @@
+import type { ReconnectPolicy } from '../ExpoRealtimeIvsBroadcast.types';
+import { computeReconnectDelay, StageReconnector } from '../reconnect';
+import { FakeExpoRealtimeIvsBroadcastModule } from '../testing';
+import { ParticipantTokenSource } from '../tokenProvider';
+import { makeParticipantToken } from './fixtures/participantToken';
+
+jest.mock('../ExpoRealtimeIvsBroadcastModule', () => require('../testing').mockNativeModule());
+
+describe('computeReconnectDelay', () => {
+  const noJitter: ReconnectPolicy = { jitter: 0 };
+
+  it('grows by the multiplier from the initial delay', () => {
+    expect([1, 2, 3, 4].map((attempt) => computeReconnectDelay(attempt, noJitter))).toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  it('caps the delay at maxDelayMs', () => {
+    expect(computeReconnectDelay(10, { ...noJitter, maxDelayMs: 5000 })).toBe(5000);
+  });
+
+  it('spreads the delay by the jitter fraction', () => {
+    expect(computeReconnectDelay(1, { jitter: 0.2 }, () => 0)).toBe(800);
+    expect(computeReconnectDelay(1, { jitter: 0.2 }, () => 0.5)).toBe(1000);
+    expect(computeReconnectDelay(1, { jitter: 0.2 }, () => 0.999)).toBe(1200);
+  });
+});
+
+describe('StageReconnector', () => {
+  let module: FakeExpoRealtimeIvsBroadcastModule;
+  let reconnector: StageReconnector;
+  let events: string[];
+
+  const policy: ReconnectPolicy = { jitter: 0, maxAttempts: 3 };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    module = new FakeExpoRealtimeIvsBroadcastModule();
+    reconnector = new StageReconnector(module);
+    events = [];
+    module.addListener('onReconnecting', ({ attempt, delayMs }) => events.push(`reconnecting ${attempt} ${delayMs}`));
+    module.addListener('onReconnected', ({ attempts }) => events.push(`reconnected ${attempts}`));
+    module.addListener('onReconnectFailed', ({ attempts, error }) => events.push(`failed ${attempts} ${error}`));
+  });
+
+  afterEach(() => {
+    reconnector.disarm();
+    jest.useRealTimers();
+  });
+
+  // Arms the reconnector and joins, as `joinStage` does
+  async function joinWith(reconnectPolicy: ReconnectPolicy = policy) {
+    const tokens = new ParticipantTokenSource(module, makeParticipantToken());
+    const token = await tokens.get('join');
+    reconnector.arm(tokens, undefined, reconnectPolicy);
+    await module.joinStage(token);
+    module.calls = [];
+  }
+
+  function dropConnection(error = 'network lost') {
+    module.emit('onStageConnectionStateChanged', { state: 'disconnected', error });
+  }
+
+  it('ignores a failed initial join', async () => {
+    reconnector.arm(new ParticipantTokenSource(module, makeParticipantToken()), undefined, policy);
+    module.emit('onStageConnectionStateChanged', { state: 'connecting' });
+    dropConnection('join rejected');
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(events).toEqual([]);
+    expect(module.callsTo('joinStage')).toHaveLength(0);
+  });
+
+  it('re-joins after the backoff delay', async () => {
+    await joinWith();
+    dropConnection();
+
+    expect(events).toEqual(['reconnecting 1 1000']);
+    await jest.advanceTimersByTimeAsync(999);
+    expect(module.callsTo('joinStage')).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(module.callsTo('joinStage')).toHaveLength(1);
+    expect(events).toEqual(['reconnecting 1 1000', 'reconnected 1']);
+  });
+
+  it('backs off between failed attempts and gives up after maxAttempts', async () => {
+    await joinWith();
+    module.joinStage = jest.fn(async () => {
+      throw new Error('still offline');
+    });
+    dropConnection();
+
+    await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+    expect(module.joinStage).toHaveBeenCalledTimes(3);
+    expect(events).toEqual([
+      'reconnecting 1 1000',
+      'reconnecting 2 2000',
+      'reconnecting 3 4000',
+      'failed 3 still offline',
+    ]);
+  });
+
+  it('times out an attempt that never connects', async () => {
+    await joinWith({ ...policy, maxAttempts: 1, connectTimeoutMs: 5000 });
+    module.joinStage = jest.fn(async () => {});
+    dropConnection();
+
+    await jest.advanceTimersByTimeAsync(1000 + 5000);
+    expect(events).toEqual(['reconnecting 1 1000', 'failed 1 Stage did not connect within 5000ms']);
+  });
+
+  describe('shouldRetry', () => {
+    it('gives up at once when the disconnect error is not retryable', async () => {
+      await joinWith({ ...policy, shouldRetry: (error) => error !== 'kicked' });
+      dropConnection('kicked');
+
+      await jest.advanceTimersByTimeAsync(60_000);
+      expect(events).toEqual(['failed 0 kicked']);
+      expect(module.callsTo('joinStage')).toHaveLength(0);
+    });
+
+    it('stops retrying when an attempt fails with a non-retryable error', async () => {
+      await joinWith({ ...policy, shouldRetry: (error) => error !== 'forbidden' });
+      module.joinStage = jest.fn(async () => {
+        throw new Error('forbidden');
+      });
+      dropConnection();
+
+      await jest.advanceTimersByTimeAsync(60_000);
+      expect(module.joinStage).toHaveBeenCalledTimes(1);
+      expect(events).toEqual(['reconnecting 1 1000', 'failed 1 forbidden']);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('abandons the pending attempt when disarmed', async () => {
+      await joinWith();
+      dropConnection();
+
+      reconnector.disarm();
+      await jest.advanceTimersByTimeAsync(60_000);
+      expect(module.callsTo('joinStage')).toHaveLength(0);
+      expect(events).toEqual(['reconnecting 1 1000']);
+    });
+
+    it('abandons an attempt that is waiting to connect when re-armed', async () => {
+      await joinWith();
+      module.joinStage = jest.fn(async () => {});
+      dropConnection();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      // A new joinStage call arms again; the old loop must not report on the new session
+      reconnector.arm(new ParticipantTokenSource(module, makeParticipantToken()), undefined, policy);
+      await jest.advanceTimersByTimeAsync(60_000);
+      expect(events).toEqual(['reconnecting 1 1000']);
+    });
+
+    it('does not reconnect after disarm', async () => {
+      await joinWith();
+      reconnector.disarm();
+      dropConnection();
+
+      await jest.advanceTimersByTimeAsync(60_000);
+      expect(events).toEqual([]);
+    });
+  });
+
+  it('restores publishing and mute state after reconnecting', async () => {
+    await joinWith();
+    reconnector.recordPublished(true);
+    reconnector.recordMicrophoneMuted(true);
+    reconnector.recordCameraMuted(true, 'Be right back');
+    dropConnection();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(module.calls.map(({ method, args }) => [method, ...args])).toEqual([
+      ['joinStage', expect.any(String), { targetParticipantId: undefined }],
+      ['setMicrophoneMuted', true],
+      ['setCameraMuted', true, 'Be right back'],
+      ['setStreamsPublished', true],
+    ]);
+    expect(events).toEqual(['reconnecting 1 1000', 'reconnected 1']);
+  });
+
+  it('leaves unmuted, unpublished state alone after reconnecting', async () => {
+    await joinWith();
+    dropConnection();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(module.calls.map(({ method }) => method)).toEqual(['joinStage']);
+  });
+});
@@ -0,0 +1,37 @@
+import { CodedError } from 'expo-modules-core';
+
+import { setCameraMuted } from '../index';
+import { fakeModule } from '../testing';
+
+jest.mock('../ExpoRealtimeIvsBroadcastModule', () => require('../testing').mockNativeModule());
+
+describe('setCameraMuted', () => {
+  beforeEach(() => {
+    fakeModule.reset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('passes the placeholder text to the native call', async () => {
+    await setCameraMuted(true, 'Be right back');
+
+    expect(fakeModule.callsTo('setPlaceholderOptions')[0]).toEqual([{ text: 'Be right back' }]);
+    expect(fakeModule.callsTo('setCameraMuted')[0]).toEqual([true, 'Be right back']);
+  });
+
+  it('still passes the text where placeholder options are unsupported', async () => {
+    jest
+      .spyOn(fakeModule, 'setPlaceholderOptions')
+      .mockRejectedValue(new CodedError('ERR_PLACEHOLDER_UNSUPPORTED', 'Not supported'));
+
+    await setCameraMuted(true, 'Be right back');
+    await setCameraMuted(true, { text: 'Back soon' });
+
+    expect(fakeModule.callsTo('setCameraMuted')).toEqual([
+      [true, 'Be right back'],
+      [true, 'Back soon'],
+    ]);
+  });
+});
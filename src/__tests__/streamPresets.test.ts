@@ -0,0 +1,21 @@
+import { resolveStreamPreset, STREAM_PRESETS } from '../streamPresets';
+
+describe('STREAM_PRESETS', () => {
+  it('is frozen down to the nested configs', () => {
+    const preset = STREAM_PRESETS['landscape-1080p'];
+
+    expect(Object.isFrozen(STREAM_PRESETS)).toBe(true);
+    expect(Object.isFrozen(preset.audio)).toBe(true);
+    expect(Object.isFrozen(preset.video)).toBe(true);
+    expect(Object.isFrozen(preset.video.simulcast)).toBe(true);
+  });
+
+  it('resolves to copies that can be changed without touching the preset', () => {
+    const resolved = resolveStreamPreset('landscape-1080p');
+    resolved.audio.bitrate = 32_000;
+
+    expect(STREAM_PRESETS['landscape-1080p'].audio.bitrate).toBe(96_000);
+    expect(resolved.video.simulcast).toEqual({ enabled: true });
+    expect(resolved.video.simulcast).not.toBe(STREAM_PRESETS['landscape-1080p'].video.simulcast);
+  });
+});
@@ -0,0 +1,112 @@
+import { act } from 'react';
+import { NetworkError, PublishRejectedError, StageError, TokenExpiredError } from '../errors';
+import { fakeModule } from '../testing';
+import { useStageConnection } from '../useStageConnection';
+import { renderHook } from './fixtures/renderHook';
+
+jest.mock('../ExpoRealtimeIvsBroadcastModule', () => require('../testing').mockNativeModule());
+
+describe('useStageConnection', () => {
+  beforeEach(() => {
+    fakeModule.reset();
+  });
+
+  async function emit(update: () => void) {
+    await act(async () => update());
+  }
+
+  it('starts disconnected and unpublished', async () => {
+    const { result, unmount } = await renderHook(useStageConnection);
+
+    expect(result.current).toEqual({
+      connectionState: 'disconnected',
+      publishState: 'not_published',
+      publishedMedia: { audio: false, video: false },
+      lastError: null,
+      isConnected: false,
+      isPublished: false,
+    });
+    await unmount();
+  });
+
+  it('follows the stage through connecting, connected and publishing', async () => {
+    const { result, unmount } = await renderHook(useStageConnection);
+
+    await emit(() => fakeModule.emit('onStageConnectionStateChanged', { state: 'connecting' }));
+    expect(result.current.connectionState).toBe('connecting');
+    expect(result.current.isConnected).toBe(false);
+
+    await emit(() => fakeModule.emit('onStageConnectionStateChanged', { state: 'connected' }));
+    expect(result.current.connectionState).toBe('connected');
+    expect(result.current.isConnected).toBe(true);
+
+    await emit(() =>
+      fakeModule.emit('onPublishStateChanged', { state: 'attempting', media: { audio: false, video: false } })
+    );
+    expect(result.current.publishState).toBe('attempting');
+    expect(result.current.isPublished).toBe(false);
+
+    await emit(() =>
+      fakeModule.emit('onPublishStateChanged', { state: 'published', media: { audio: true, video: false } })
+    );
+    expect(result.current.publishState).toBe('published');
+    expect(result.current.isPublished).toBe(true);
+    expect(result.current.publishedMedia).toEqual({ audio: true, video: false });
+    expect(result.current.lastError).toBeNull();
+    await unmount();
+  });
+
+  it('reports a failed publish as lastError', async () => {
+    const { result, unmount } = await renderHook(useStageConnection);
+    await emit(() => fakeModule.emit('onStageConnectionStateChanged', { state: 'connected' }));
+
+    await emit(() => fakeModule.simulatePublishFailed('Stage is at capacity'));
+
+    expect(result.current.publishState).toBe('failed');
+    expect(result.current.isPublished).toBe(false);
+    expect(result.current.lastError).toBeInstanceOf(PublishRejectedError);
+    expect(result.current.lastError?.message).toBe('Stage is at capacity');
+    await unmount();
+  });
+
+  it('ends publishing and keeps the error when the stage disconnects', async () => {
+    const { result, unmount } = await renderHook(useStageConnection);
+    await emit(() => fakeModule.emit('onStageConnectionStateChanged', { state: 'connected' }));
+    await emit(() =>
+      fakeModule.emit('onPublishStateChanged', { state: 'published', media: { audio: true, video: true } })
+    );
+
+    await emit(() => fakeModule.simulateDisconnect('Network connection lost'));
+
+    expect(result.current.connectionState).toBe('disconnected');
+    expect(result.current.isConnected).toBe(false);
+    expect(result.current.publishState).toBe('not_published');
+    expect(result.current.isPublished).toBe(false);
+    expect(result.current.publishedMedia).toEqual({ audio: false, video: false });
+    expect(result.current.lastError).toBeInstanceOf(NetworkError);
+    await unmount();
+  });
+
+  it('classifies onStageError and clears it once connected again', async () => {
+    const { result, unmount } = await renderHook(useStageConnection);
+
+    await emit(() => fakeModule.simulateStageError(1001, 'Participant token expired', false));
+    expect(result.current.lastError).toBeInstanceOf(TokenExpiredError);
+    expect(result.current.lastError).toMatchObject({ code: 1001, isFatal: false });
+
+    await emit(() => fakeModule.emit('onStageConnectionStateChanged', { state: 'connecting' }));
+    expect(result.current.lastError).toBeInstanceOf(StageError);
+
+    await emit(() => fakeModule.emit('onStageConnectionStateChanged', { state: 'connected' }));
+    expect(result.current.lastError).toBeNull();
+    await unmount();
+  });
+
+  it('removes its listeners on unmount', async () => {
+    const { unmount } = await renderHook(useStageConnection);
+    expect(fakeModule.listenerCount('onStageError')).toBe(1);
+
+    await unmount();
+    expect(fakeModule.listenerCount('onStageError')).toBe(0);
+  });
+});
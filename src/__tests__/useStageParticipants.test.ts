@@ -0,0 +1,211 @@
+import { act } from 'react';
+import type { Participant, StageStream } from '../ExpoRealtimeIvsBroadcast.types';
+import { fakeModule } from '../testing';
+import { useStageParticipants } from '../useStageParticipants';
+import { renderHook } from './fixtures/renderHook';
+
+jest.mock('../ExpoRealtimeIvsBroadcastModule', () => require('../testing').mockNativeModule());
+
+const audio: StageStream = { deviceUrn: 'alice:audio', mediaType: 'audio', muted: false };
+const video: StageStream = { deviceUrn: 'alice:video', mediaType: 'video', muted: false };
+
+function joined(participantId: string, userId?: string) {
+  fakeModule.emit('onParticipantJoined', {
+    participantId,
+    userId,
+    attributes: { name: participantId },
+    isLocal: false,
+    joinedAt: 1,
+  });
+}
+
+describe('useStageParticipants', () => {
+  beforeEach(() => {
+    fakeModule.reset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function emit(update: () => void) {
+    await act(async () => update());
+  }
+
+  it('adds participants on join and their streams as they arrive', async () => {
+    const { result, unmount } = await renderHook(useStageParticipants);
+
+    await emit(() => joined('alice', 'user-alice'));
+    await emit(() => fakeModule.emit('onParticipantStreamsAdded', { participantId: 'alice', streams: [audio, video] }));
+
+    expect(result.current.participants).toEqual([
+      {
+        id: 'alice',
+        userId: 'user-alice',
+        attributes: { name: 'alice' },
+        isLocal: false,
+        joinedAt: 1,
+        streams: [audio, video],
+      },
+    ]);
+    await unmount();
+  });
+
+  it('creates the participant when streams arrive before the join', async () => {
+    const { result, unmount } = await renderHook(useStageParticipants);
+
+    await emit(() => fakeModule.emit('onParticipantStreamsAdded', { participantId: 'alice', streams: [audio] }));
+    expect(result.current.participants).toEqual([
+      expect.objectContaining({ id: 'alice', attributes: {}, isLocal: false, streams: [audio] }),
+    ]);
+
+    await emit(() => joined('alice', 'user-alice'));
+    expect(result.current.participants).toEqual([
+      expect.objectContaining({ id: 'alice', userId: 'user-alice', attributes: { name: 'alice' }, streams: [audio] }),
+    ]);
+    await unmount();
+  });
+
+  it('keeps one entry and its streams when a join is reported twice', async () => {
+    const { result, unmount } = await renderHook(useStageParticipants);
+
+    await emit(() => joined('alice'));
+    await emit(() => fakeModule.emit('onParticipantStreamsAdded', { participantId: 'alice', streams: [audio] }));
+    await emit(() => joined('alice'));
+
+    expect(result.current.participants).toHaveLength(1);
+    expect(result.current.participants[0].streams).toEqual([audio]);
+    await unmount();
+  });
+
+  it('ignores streams that are already known', async () => {
+    const { result, unmount } = await renderHook(useStageParticipants);
+
+    await emit(() => fakeModule.emit('onParticipantStreamsAdded', { participantId: 'alice', streams: [audio] }));
+    await emit(() => fakeModule.emit('onParticipantStreamsAdded', { participantId: 'alice', streams: [audio, video] }));
+
+    expect(result.current.participants[0].streams).toEqual([audio, video]);
+    await unmount();
+  });
+
+  it('drops a participant that leaves before its streams are removed', async () => {
+    const { result, unmount } = await renderHook(useStageParticipants);
+    await emit(() => joined('alice'));
+    await emit(() => fakeModule.emit('onParticipantStreamsAdded', { participantId: 'alice', streams: [audio, video] }));
+
+    await emit(() =>
+      fakeModule.emit('onParticipantLeft', { participantId: 'alice', attributes: {}, isLocal: false, joinedAt: 1 })
+    );
+    await emit(() =>
+      fakeModule.emit('onParticipantStreamsRemoved', {
+        participantId: 'alice',
+        streams: [{ deviceUrn: audio.deviceUrn }, { deviceUrn: video.deviceUrn }],
+      })
+    );
+
+    expect(result.current.participants).toEqual([]);
+    await unmount();
+  });
+
+  it('removes and mutes individual streams', async () => {
+    const { result, unmount } = await renderHook(useStageParticipants);
+    await emit(() => fakeModule.emit('onParticipantStreamsAdded', { participantId: 'alice', streams: [audio, video] }));
+
+    await emit(() =>
+      fakeModule.emit('onParticipantStreamsMutedChanged', {
+        participantId: 'alice',
+        streams: [{ ...audio, muted: true }],
+      })
+    );
+    await emit(() =>
+      fakeModule.emit('onParticipantStreamsRemoved', {
+        participantId: 'alice',
+        streams: [{ deviceUrn: video.deviceUrn }],
+      })
+    );
+
+    expect(result.current.participants[0].streams).toEqual([{ ...audio, muted: true }]);
+    await unmount();
+  });
+
+  it('clears every participant when the stage disconnects', async () => {
+    const { result, unmount } = await renderHook(useStageParticipants);
+    await emit(() => joined('alice'));
+    await emit(() => joined('bob'));
+
+    await emit(() => fakeModule.emit('onStageConnectionStateChanged', { state: 'connecting' }));
+    expect(result.current.participants).toHaveLength(2);
+
+    await emit(() => fakeModule.emit('onStageConnectionStateChanged', { state: 'disconnected' }));
+    expect(result.current.participants).toEqual([]);
+    await unmount();
+  });
+
+  describe('hydration', () => {
+    it('loads participants already on the stage when mounted', async () => {
+      fakeModule.simulateParticipantJoin({ participantId: 'alice', userId: 'user-alice', streams: [audio] });
+
+      const { result, unmount } = await renderHook(useStageParticipants);
+
+      expect(fakeModule.callsTo('getParticipants')).toHaveLength(1);
+      expect(result.current.participants).toEqual([
+        expect.objectContaining({ id: 'alice', userId: 'user-alice', streams: [audio] }),
+      ]);
+      await unmount();
+    });
+
+    it('merges the snapshot with events that arrived while it was loading', async () => {
+      let resolveSnapshot!: (participants: Participant[]) => void;
+      jest
+        .spyOn(fakeModule, 'getParticipants')
+        .mockImplementation(() => new Promise((resolve) => (resolveSnapshot = resolve)));
+      const { result, unmount } = await renderHook(useStageParticipants);
+
+      await emit(() => joined('bob'));
+      await emit(() =>
+        fakeModule.emit('onParticipantLeft', { participantId: 'carol', attributes: {}, isLocal: false, joinedAt: 1 })
+      );
+      await emit(() =>
+        resolveSnapshot([
+          { id: 'alice', attributes: {}, isLocal: false, joinedAt: 1, streams: [audio] },
+          { id: 'bob', attributes: {}, isLocal: false, joinedAt: 1, streams: [] },
+          { id: 'carol', attributes: {}, isLocal: false, joinedAt: 1, streams: [] },
+        ])
+      );
+
+      expect(result.current.participants.map((participant) => participant.id)).toEqual(['bob', 'alice']);
+      await unmount();
+    });
+
+    it('reports a failed snapshot through onStageError', async () => {
+      jest.spyOn(fakeModule, 'getParticipants').mockRejectedValue(new Error('Stage not joined'));
+      const onStageError = jest.fn();
+      const subscription = fakeModule.addListener('onStageError', onStageError);
+
+      const { result, unmount } = await renderHook(useStageParticipants);
+
+      expect(onStageError).toHaveBeenCalledWith({
+        code: 0,
+        description: 'Stage not joined',
+        source: 'useStageParticipants.getParticipants',
+        isFatal: false,
+      });
+      expect(result.current.participants).toEqual([]);
+      subscription.remove();
+      await unmount();
+    });
+
+    it('ignores a snapshot that resolves after unmounting', async () => {
+      let resolveSnapshot!: (participants: Participant[]) => void;
+      jest
+        .spyOn(fakeModule, 'getParticipants')
+        .mockImplementation(() => new Promise((resolve) => (resolveSnapshot = resolve)));
+      const { result, unmount } = await renderHook(useStageParticipants);
+
+      await unmount();
+      await emit(() => resolveSnapshot([{ id: 'alice', attributes: {}, isLocal: false, joinedAt: 1, streams: [] }]));
+
+      expect(result.current.participants).toEqual([]);
+    });
+  });
+});
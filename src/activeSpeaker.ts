@@ -0,0 +1,115 @@
+import type { AudioLevel } from './ExpoRealtimeIvsBroadcast.types';
+
+export const DEFAULT_AUDIO_LEVELS_INTERVAL_MS = 100;
+
+export interface ActiveSpeakerOptions {
+  /**
+   * Level at or above which a participant starts speaking. About -30 dBFS.
+   * @default 0.5
+   */
+  speakingThreshold?: number;
+  /**
+   * Level below which a speaking participant stops. Keep it below `speakingThreshold`
+   * so a voice hovering around one value doesn't flicker.
+   * @default 0.35
+   */
+  silenceThreshold?: number;
+  /**
+   * Once selected, a speaker stays active for at least this long, even if someone else speaks up
+   * @default 1500
+   */
+  minHoldMs?: number;
+}
+
+export const DEFAULT_ACTIVE_SPEAKER_OPTIONS: Required<ActiveSpeakerOptions> = {
+  speakingThreshold: 0.5,
+  silenceThreshold: 0.35,
+  minHoldMs: 1500,
+};
+
+/**
+ * Turns a stream of audio levels into a single active speaker.
+ *
+ * A participant starts speaking at `speakingThreshold` and stops below `silenceThreshold`.
+ * The active speaker only changes once it has stopped speaking and held the spot for `minHoldMs`;
+ * the loudest participant still speaking then takes over. When everyone is silent, the last
+ * speaker stays active.
+ *
+ * Has no dependency on the native module, so it can be driven with synthetic levels:
+ *
+ * @example
+ * const detector = new ActiveSpeakerDetector({ minHoldMs: 1000 });
+ * detector.update([{ participantId: 'a', level: 0.8 }], 0); // 'a'
+ * detector.update([{ participantId: 'b', level: 0.9 }], 500); // still 'a', held
+ * detector.update([{ participantId: 'b', level: 0.9 }], 1000); // 'b'
+ */
+export class ActiveSpeakerDetector {
+  private readonly options: Required<ActiveSpeakerOptions>;
+  private readonly speaking = new Set<string>();
+  private active: string | null = null;
+  private activeSince = 0;
+
+  constructor(options: ActiveSpeakerOptions = {}) {
+    // Explicit `undefined`s (e.g. from hook options) fall back to the defaults too
+    this.options = {
+      speakingThreshold: options.speakingThreshold ?? DEFAULT_ACTIVE_SPEAKER_OPTIONS.speakingThreshold,
+      silenceThreshold: options.silenceThreshold ?? DEFAULT_ACTIVE_SPEAKER_OPTIONS.silenceThreshold,
+      minHoldMs: options.minHoldMs ?? DEFAULT_ACTIVE_SPEAKER_OPTIONS.minHoldMs,
+    };
+  }
+
+  get activeSpeakerId(): string | null {
+    return this.active;
+  }
+
+  /**
+   * Feed one report of levels. Participants missing from the report count as silent.
+   *
+   * @param now - Time of the report in milliseconds; defaults to `Date.now()`
+   * @returns The active speaker's participant ID, or `null` if nobody has spoken yet
+   */
+  update(levels: Pick<AudioLevel, 'participantId' | 'level'>[], now = Date.now()): string | null {
+    const { speakingThreshold, silenceThreshold, minHoldMs } = this.options;
+
+    // A participant can publish more than one audio stream; the loudest one counts
+    const loudest = new Map<string, number>();
+    for (const { participantId, level } of levels) {
+      loudest.set(participantId, Math.max(loudest.get(participantId) ?? 0, level));
+    }
+
+    for (const participantId of this.speaking) {
+      if ((loudest.get(participantId) ?? 0) < silenceThreshold) this.speaking.delete(participantId);
+    }
+    for (const [participantId, level] of loudest) {
+      if (level >= speakingThreshold) this.speaking.add(participantId);
+    }
+
+    if (this.active !== null && (this.speaking.has(this.active) || now - this.activeSince < minHoldMs)) {
+      return this.active;
+    }
+
+    let next: string | null = null;
+    for (const participantId of this.speaking) {
+      if (next === null || loudest.get(participantId)! > loudest.get(next)!) next = participantId;
+    }
+    if (next !== null && next !== this.active) {
+      this.active = next;
+      this.activeSince = now;
+    }
+    return this.active;
+  }
+
+  /**
+   * Forget a participant, e.g. after they leave. Clears the active speaker if it was them.
+   */
+  remove(participantId: string) {
+    this.speaking.delete(participantId);
+    if (this.active === participantId) this.active = null;
+  }
+
+  reset() {
+    this.speaking.clear();
+    this.active = null;
+    this.activeSince = 0;
+  }
+}
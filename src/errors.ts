@@ -0,0 +1,219 @@
+import type { CameraControl } from './ExpoRealtimeIvsBroadcast.types';
+
+/**
+ * Thrown when a local stream configuration is rejected in JavaScript,
+ * before it is handed to the native module.
+ */
+export class InvalidStreamConfigError extends Error {
+  /** The offending configuration key, e.g. `'maxBitrate'` */
+  readonly field: string;
+  /** The value that was rejected */
+  readonly value: unknown;
+
+  constructor(field: string, value: unknown, reason: string) {
+    super(`Invalid stream configuration for "${field}" (${String(value)}): ${reason}`);
+    this.name = 'InvalidStreamConfigError';
+    this.field = field;
+    this.value = value;
+  }
+}
+
+/**
+ * Thrown by `StageSession` when an action is not allowed from the current state,
+ * e.g. publishing before the stage has been joined.
+ */
+export class InvalidStateTransitionError extends Error {
+  /** The session state when the action was attempted */
+  readonly state: string;
+  /** The rejected action, e.g. `'publish'` */
+  readonly action: string;
+
+  constructor(state: string, action: string) {
+    super(`Cannot ${action} while the stage session is "${state}"`);
+    this.name = 'InvalidStateTransitionError';
+    this.state = state;
+    this.action = action;
+  }
+}
+
+/**
+ * Broad category of a stage error, used to decide what to show and whether to retry
+ */
+export type StageErrorCategory =
+  | 'token_expired'
+  | 'network'
+  | 'permission_denied'
+  | 'publish_rejected'
+  | 'device'
+  | 'unknown';
+
+export interface StageErrorDetails {
+  /** Native error code, when the error came from the SDK */
+  code?: number;
+  /** Where the error was raised, e.g. `'IVSStageManager.joinStage.joinCall'` */
+  source?: string;
+  isFatal?: boolean;
+  /** The original error, when wrapping a rejection */
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors raised by the stage, whether reported through `onStageError`
+ * or as a rejected promise. Use `classifyStageError` to turn a payload into the right subclass.
+ */
+export class StageError extends Error {
+  readonly category: StageErrorCategory = 'unknown';
+  /** Whether repeating the same operation may succeed */
+  readonly retryable: boolean = false;
+  readonly code?: number;
+  readonly source?: string;
+  readonly isFatal: boolean;
+
+  constructor(message: string, details: StageErrorDetails = {}) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = 'StageError';
+    this.code = details.code;
+    this.source = details.source;
+    this.isFatal = details.isFatal ?? false;
+  }
+}
+
+/**
+ * The participant token expired. Join again with a new token.
+ */
+export class TokenExpiredError extends StageError {
+  override readonly category = 'token_expired';
+
+  constructor(message: string, details?: StageErrorDetails) {
+    super(message, details);
+    this.name = 'TokenExpiredError';
+  }
+}
+
+/**
+ * The connection failed, timed out or dropped. Usually transient.
+ */
+export class NetworkError extends StageError {
+  override readonly category = 'network';
+  override readonly retryable = true;
+
+  constructor(message: string, details?: StageErrorDetails) {
+    super(message, details);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The token is not allowed to do this, or camera/microphone access was denied.
+ */
+export class PermissionDeniedError extends StageError {
+  override readonly category = 'permission_denied';
+
+  constructor(message: string, details?: StageErrorDetails) {
+    super(message, details);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * The stage refused the local streams, e.g. it is at capacity or the codec is unsupported.
+ */
+export class PublishRejectedError extends StageError {
+  override readonly category = 'publish_rejected';
+
+  constructor(message: string, details?: StageErrorDetails) {
+    super(message, details);
+    this.name = 'PublishRejectedError';
+  }
+}
+
+/**
+ * A camera or microphone could not be opened or stopped working.
+ */
+export class DeviceError extends StageError {
+  override readonly category = 'device';
+
+  constructor(message: string, details?: StageErrorDetails) {
+    super(message, details);
+    this.name = 'DeviceError';
+  }
+}
+
+/**
+ * The active camera does not support a control, e.g. `setTorch` on a front camera without a flash.
+ * Android always rejects camera controls with this error.
+ */
+export class CameraControlUnsupportedError extends DeviceError {
+  /** The control that was attempted */
+  readonly control: CameraControl;
+
+  constructor(control: CameraControl, details?: StageErrorDetails) {
+    super(`The active camera does not support ${control}`, details);
+    this.name = 'CameraControlUnsupportedError';
+    this.control = control;
+  }
+}
+
+/**
+ * The platform cannot draw a camera-muted placeholder. Android and web reject `setPlaceholderOptions`
+ * with this error; muting the camera still works.
+ */
+export class PlaceholderUnsupportedError extends DeviceError {
+  constructor(details?: StageErrorDetails) {
+    super('Camera-muted placeholders are not supported on this platform', details);
+    this.name = 'PlaceholderUnsupportedError';
+  }
+}
+
+/**
+ * Thrown by `parseParticipantToken` when a string is not a decodable IVS participant token
+ */
+export class InvalidParticipantTokenError extends Error {
+  constructor(reason: string) {
+    super(`Invalid participant token: ${reason}`);
+    this.name = 'InvalidParticipantTokenError';
+  }
+}
+
+/**
+ * Thrown by `joinStage` when the participant token has already expired
+ */
+export class ParticipantTokenExpiredError extends TokenExpiredError {
+  readonly expiresAt: Date;
+
+  constructor(expiresAt: Date) {
+    super(`Participant token expired at ${expiresAt.toISOString()}`);
+    this.name = 'ParticipantTokenExpiredError';
+    this.expiresAt = expiresAt;
+  }
+}
+
+/**
+ * Thrown when an action needs a token capability the current participant token lacks,
+ * e.g. publishing with a subscribe-only token
+ */
+export class MissingTokenCapabilityError extends PermissionDeniedError {
+  readonly capability: string;
+
+  constructor(capability: string) {
+    super(`Participant token does not grant the ${capability} capability`);
+    this.name = 'MissingTokenCapabilityError';
+    this.capability = capability;
+  }
+}
+
+/**
+ * Thrown when a `TokenProvider` rejects or returns a token that cannot be used to join
+ */
+export class TokenProviderError extends Error {
+  /** When the provider was called: `'join'`, `'reconnect'` or `'refresh'` */
+  readonly phase: string;
+
+  /** `cause` is the error thrown by the provider or by token validation */
+  constructor(phase: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Token provider failed during ${phase}: ${reason}`, { cause });
+    this.name = 'TokenProviderError';
+    this.phase = phase;
+  }
+}
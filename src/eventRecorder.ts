@@ -0,0 +1,226 @@
+import type { ExpoRealtimeIvsBroadcastModuleType } from './ExpoRealtimeIvsBroadcastModule';
+import type { ExpoRealtimeIvsBroadcastModuleEvents } from './ExpoRealtimeIvsBroadcast.types';
+
+type EventName = keyof ExpoRealtimeIvsBroadcastModuleEvents;
+
+// Keyed by event name so a new event fails to compile until it is added here
+const RECORDED_EVENTS: Record<EventName, true> = {
+  onStageConnectionStateChanged: true,
+  onPublishStateChanged: true,
+  onStageError: true,
+  onParticipantJoined: true,
+  onParticipantLeft: true,
+  onParticipantStreamsAdded: true,
+  onParticipantStreamsRemoved: true,
+  onParticipantStreamsMutedChanged: true,
+  onCameraSwapped: true,
+  onCameraSwapError: true,
+  onCameraMuteStateChanged: true,
+  onDevicesChanged: true,
+  onPiPStateChanged: true,
+  onPiPError: true,
+  onAudioLevels: true,
+  onStatsUpdated: true,
+  onReconnecting: true,
+  onReconnected: true,
+  onReconnectFailed: true,
+  onTokenProviderError: true,
+};
+
+export const RECORDED_EVENT_NAMES = Object.keys(RECORDED_EVENTS) as EventName[];
+
+// Event emitter plumbing, not calls made on behalf of the app
+const UNRECORDED_METHODS = new Set([
+  'addListener',
+  'removeListener',
+  'removeListeners',
+  'removeAllListeners',
+  'emit',
+  'listenerCount',
+  'startObserving',
+  'stopObserving',
+]);
+
+export const EVENT_LOG_VERSION = 1;
+
+export interface RecordedEvent {
+  kind: 'event';
+  /** Milliseconds since recording started */
+  at: number;
+  name: EventName;
+  payload: unknown;
+}
+
+export interface RecordedCall {
+  kind: 'call';
+  /** Milliseconds since recording started, when the call was made */
+  at: number;
+  method: string;
+  args: unknown[];
+  /** How long the call took to settle; missing while it is pending */
+  durationMs?: number;
+  result?: unknown;
+  error?: { message: string; code?: string | number };
+}
+
+export type EventLogEntry = RecordedEvent | RecordedCall;
+
+/**
+ * A recording from `EventRecorder`. Plain JSON, so it can be attached to a bug report
+ * and fed back through `replay` from `expo-realtime-ivs-broadcast/testing`.
+ */
+export interface EventLog {
+  version: typeof EVENT_LOG_VERSION;
+  /** Milliseconds since the epoch */
+  startedAt: number;
+  /** Entries in the order they happened */
+  entries: EventLogEntry[];
+}
+
+export interface EventRecorderOptions {
+  /**
+   * Oldest entries are dropped beyond this many. `onAudioLevels` and `onStatsUpdated` arrive often,
+   * so long sessions can grow quickly.
+   * @default 5000
+   */
+  maxEntries?: number;
+  /**
+   * Events left out of the log, e.g. `['onAudioLevels']`
+   * @default []
+   */
+  ignoreEvents?: EventName[];
+}
+
+export const DEFAULT_EVENT_RECORDER_MAX_ENTRIES = 5000;
+
+// Recorders currently running; calls are only wrapped while there is at least one
+const activeRecorders = new Set<EventRecorder>();
+
+// Round-trip through JSON so the log holds no functions, undefined or shared references
+function toJson(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Records every module event and every call made to the native module, with its result.
+ * Start one with `startEventRecording`.
+ */
+export class EventRecorder {
+  private readonly module: ExpoRealtimeIvsBroadcastModuleType;
+  private readonly maxEntries: number;
+  private readonly startedAt = Date.now();
+  private entries: EventLogEntry[] = [];
+  private subscriptions: { remove(): void }[];
+
+  /** @internal */
+  constructor(module: ExpoRealtimeIvsBroadcastModuleType, options: EventRecorderOptions = {}) {
+    this.module = module;
+    this.maxEntries = options.maxEntries ?? DEFAULT_EVENT_RECORDER_MAX_ENTRIES;
+    const ignored = new Set(options.ignoreEvents ?? []);
+    this.subscriptions = RECORDED_EVENT_NAMES.filter((name) => !ignored.has(name)).map((name) =>
+      this.module.addListener(name, (payload: unknown) => {
+        this.push({ kind: 'event', at: this.now(), name, payload: toJson(payload) });
+      })
+    );
+    activeRecorders.add(this);
+  }
+
+  get isRecording(): boolean {
+    return activeRecorders.has(this);
+  }
+
+  /** Snapshot of the log so far; recording continues */
+  getLog(): EventLog {
+    return { version: EVENT_LOG_VERSION, startedAt: this.startedAt, entries: toJson(this.entries) as EventLogEntry[] };
+  }
+
+  /** Stop recording and return the log */
+  stop(): EventLog {
+    this.subscriptions.forEach((sub) => sub.remove());
+    this.subscriptions = [];
+    activeRecorders.delete(this);
+    return this.getLog();
+  }
+
+  /** @internal Called by the recording module wrapper; the entry is completed when the call settles */
+  recordCall(method: string, args: unknown[]): RecordedCall {
+    const entry: RecordedCall = { kind: 'call', at: this.now(), method, args: (toJson(args) as unknown[]) ?? [] };
+    this.push(entry);
+    return entry;
+  }
+
+  /** @internal */
+  settleCall(entry: RecordedCall, outcome: { result: unknown } | { error: unknown }) {
+    entry.durationMs = this.now() - entry.at;
+    if ('result' in outcome) {
+      entry.result = toJson(outcome.result);
+    } else {
+      const error = outcome.error as { message?: unknown; code?: unknown } | null;
+      const code = error?.code;
+      entry.error = {
+        message: typeof error?.message === 'string' ? error.message : String(outcome.error),
+        ...(typeof code === 'string' || typeof code === 'number' ? { code } : {}),
+      };
+    }
+  }
+
+  private now() {
+    return Date.now() - this.startedAt;
+  }
+
+  private push(entry: EventLogEntry) {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) this.entries.splice(0, this.entries.length - this.maxEntries);
+  }
+}
+
+/**
+ * Wrap the native module so calls are recorded while any `EventRecorder` is running.
+ * Functions are bound to the original module, which native host objects require.
+ */
+export function withCallRecording<T extends object>(module: T): T {
+  // Keyed by the function itself, so a method replaced on the module later (e.g. by `Replay`) is wrapped afresh
+  const bound = new WeakMap<object, unknown>();
+  return new Proxy(module, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function') return value;
+      if (!bound.has(value)) {
+        const method = String(property);
+        bound.set(
+          value,
+          UNRECORDED_METHODS.has(method)
+            ? value.bind(target)
+            : (...args: unknown[]) => {
+                if (activeRecorders.size === 0) return value.apply(target, args);
+                const entries = [...activeRecorders].map((recorder) => [recorder, recorder.recordCall(method, args)] as const);
+                const settle = (outcome: { result: unknown } | { error: unknown }) =>
+                  entries.forEach(([recorder, entry]) => recorder.settleCall(entry, outcome));
+                let returned: unknown;
+                try {
+                  returned = value.apply(target, args);
+                } catch (error) {
+                  settle({ error });
+                  throw error;
+                }
+                if (returned instanceof Promise) {
+                  returned.then(
+                    (result) => settle({ result }),
+                    (error) => settle({ error })
+                  );
+                } else {
+                  settle({ result: returned });
+                }
+                return returned;
+              }
+        );
+      }
+      return bound.get(value);
+    },
+  });
+}
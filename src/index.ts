@@ -4,77 +4,494 @@ import {
     LocalAudioConfig, 
     LocalVideoConfig, 
     PermissionStatusMap,
+    Participant,
+    LocalStreamsConfiguration,
     StageConnectionStatePayload,
     PublishStatePayload,
+    PublishedMedia,
     StageErrorPayload,
     CameraSwappedPayload,
+    MediaDevice,
+    DevicesChangedPayload,
+    CameraCapabilities,
+    CameraControl,
+    PlaceholderOptions,
     CameraSwapErrorPayload,
     ParticipantPayload,
     ParticipantStreamsPayload,
     ParticipantStreamsRemovedPayload,
+    ParticipantStreamsMutedChangedPayload,
     PiPOptions,
     PiPStateChangedPayload,
     PiPErrorPayload,
+    JoinStageOptions,
+    ReconnectingPayload,
+    ReconnectedPayload,
+    ReconnectFailedPayload,
+    TokenProvider,
+    TokenProviderErrorPayload,
+    SubscribeStrategy,
+    SubscribeType,
+    SubscribeTypeResolver,
+    StreamStats,
+    StatsUpdatedPayload,
+    AudioLevelsPayload,
 } from './ExpoRealtimeIvsBroadcast.types';
+import { validateLocalAudioConfig, validateLocalVideoConfig, validatePlaceholderOptions } from './streamConfig';
+import { StageReconnector } from './reconnect';
+import { assertTokenCapability } from './participantToken';
+import { ParticipantTokenSource } from './tokenProvider';
+import { SubscribeStrategyController } from './subscribeStrategy';
+import { DEFAULT_STATS_INTERVAL_MS, StatsUpdater, StreamStatsSampler } from './streamStats';
+import { DEFAULT_AUDIO_LEVELS_INTERVAL_MS } from './activeSpeaker';
+import { SharedInterval } from './sharedInterval';
+import { EventRecorder, EventRecorderOptions } from './eventRecorder';
+import { emitStageError, toStageError } from './stageErrors';
+import { CameraControlUnsupportedError, PlaceholderUnsupportedError } from './errors';
+import { resolveStreamPreset, StreamQualityPreset, StreamPresetOverrides } from './streamPresets';
 
 // Re-export all type definitions
 export * from './ExpoRealtimeIvsBroadcast.types';
 
+// Export stream configuration limits and errors
+export {
+  STAGE_AUDIO_LIMITS,
+  STAGE_VIDEO_LIMITS,
+  validateLocalAudioConfig,
+  validateLocalVideoConfig,
+  validatePlaceholderOptions,
+} from './streamConfig';
+export {
+  InvalidStreamConfigError,
+  InvalidStateTransitionError,
+  InvalidParticipantTokenError,
+  ParticipantTokenExpiredError,
+  MissingTokenCapabilityError,
+  TokenProviderError,
+  StageError,
+  TokenExpiredError,
+  NetworkError,
+  PermissionDeniedError,
+  PublishRejectedError,
+  DeviceError,
+  CameraControlUnsupportedError,
+  PlaceholderUnsupportedError,
+} from './errors';
+export type { StageErrorCategory, StageErrorDetails } from './errors';
+export { classifyStageError, STAGE_ERROR_CODES } from './stageErrors';
+export { STREAM_PRESETS, resolveStreamPreset } from './streamPresets';
+export type { StreamQualityPreset, StreamPresetOverrides, ResolvedStreamConfig } from './streamPresets';
+export { DEFAULT_RECONNECT_POLICY, computeReconnectDelay } from './reconnect';
+export { parseParticipantToken, isParticipantTokenExpired } from './participantToken';
+export type { ParticipantToken, ParticipantTokenCapability } from './participantToken';
+export { DEFAULT_TOKEN_REFRESH_MARGIN_MS } from './tokenProvider';
+export { DEFAULT_SUBSCRIBE_TYPE } from './subscribeStrategy';
+export { NETWORK_QUALITY_THRESHOLDS, DEFAULT_STATS_INTERVAL_MS, rateNetworkQuality } from './streamStats';
+export { ActiveSpeakerDetector, DEFAULT_ACTIVE_SPEAKER_OPTIONS, DEFAULT_AUDIO_LEVELS_INTERVAL_MS } from './activeSpeaker';
+export type { ActiveSpeakerOptions } from './activeSpeaker';
+export { EventRecorder, EVENT_LOG_VERSION, DEFAULT_EVENT_RECORDER_MAX_ENTRIES } from './eventRecorder';
+export type { EventLog, EventLogEntry, RecordedEvent, RecordedCall, EventRecorderOptions } from './eventRecorder';
+
 // Export the native view components
 export { ExpoIVSStagePreviewView } from './ExpoIVSStagePreviewView';
 export { ExpoIVSRemoteStreamView } from './ExpoIVSRemoteStreamView';
 
-// Export the custom hook
+// Export the stage lifecycle controller
+export { StageSession } from './StageSession';
+export type { StageSessionState, StageSessionStateChangedPayload, StageSessionEvents } from './StageSession';
+
+// Export the custom hooks
 export { useStageParticipants } from './useStageParticipants';
+export { useStageConnection } from './useStageConnection';
+export type { StageConnection } from './useStageConnection';
+export { useStreamStats } from './useStreamStats';
+export type { StreamStatsOptions, StreamStatsState } from './useStreamStats';
+export { useActiveSpeaker } from './useActiveSpeaker';
+export type { ActiveSpeakerHookOptions, ActiveSpeaker } from './useActiveSpeaker';
 
 // --- Native Module Methods ---
+
+// Native rejections surface as `StageError` subclasses instead of raw CodedErrors
+async function callNative<T>(method: string, call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (e) {
+    throw toStageError(e, method);
+  }
+}
+
+// Code native modules reject unsupported camera controls with
+const CAMERA_CONTROL_UNSUPPORTED = 'ERR_CAMERA_CONTROL_UNSUPPORTED';
+
+async function callCameraControl(method: string, control: CameraControl, call: () => Promise<void>): Promise<void> {
+  try {
+    await call();
+  } catch (e) {
+    if ((e as { code?: unknown } | null)?.code === CAMERA_CONTROL_UNSUPPORTED) {
+      throw new CameraControlUnsupportedError(control, { source: method, cause: e });
+    }
+    throw toStageError(e, method);
+  }
+}
+
+/**
+ * Set the default audio/video configuration used for local streams.
+ * Configs are validated before being sent to native code.
+ *
+ * @throws {InvalidStreamConfigError} if a config is outside IVS Stage limits
+ */
 export async function initializeStage(audioConfig?: LocalAudioConfig, videoConfig?: LocalVideoConfig): Promise<void> {
-  return await ExpoRealtimeIvsBroadcastModule.initializeStage(audioConfig, videoConfig);
+  if (audioConfig) validateLocalAudioConfig(audioConfig);
+  if (videoConfig) validateLocalVideoConfig(videoConfig);
+  return await callNative('initializeStage', () => ExpoRealtimeIvsBroadcastModule.initializeStage(audioConfig, videoConfig));
 }
 
-export async function initializeLocalStreams(audioConfig?: LocalAudioConfig, videoConfig?: LocalVideoConfig): Promise<void> {
-  return await ExpoRealtimeIvsBroadcastModule.initializeLocalStreams(audioConfig, videoConfig);
+/**
+ * Create the local camera and microphone streams.
+ * Configs passed here override the ones given to `initializeStage`.
+ *
+ * Accepts either explicit configs or a named preset with optional field overrides:
+ * `initializeLocalStreams('portrait-720p', { video: { maxBitrate: 1_500_000 } })`
+ *
+ * @returns The configuration the native SDK actually applied
+ * @throws {InvalidStreamConfigError} if a config is outside IVS Stage limits
+ */
+export async function initializeLocalStreams(
+  preset: StreamQualityPreset,
+  overrides?: StreamPresetOverrides
+): Promise<LocalStreamsConfiguration>;
+export async function initializeLocalStreams(
+  audioConfig?: LocalAudioConfig,
+  videoConfig?: LocalVideoConfig
+): Promise<LocalStreamsConfiguration>;
+export async function initializeLocalStreams(
+  audioConfigOrPreset?: LocalAudioConfig | StreamQualityPreset,
+  videoConfigOrOverrides?: LocalVideoConfig | StreamPresetOverrides
+): Promise<LocalStreamsConfiguration> {
+  let audioConfig: LocalAudioConfig | undefined;
+  let videoConfig: LocalVideoConfig | undefined;
+  if (typeof audioConfigOrPreset === 'string') {
+    ({ audio: audioConfig, video: videoConfig } = resolveStreamPreset(
+      audioConfigOrPreset,
+      videoConfigOrOverrides as StreamPresetOverrides | undefined
+    ));
+  } else {
+    audioConfig = audioConfigOrPreset;
+    videoConfig = videoConfigOrOverrides as LocalVideoConfig | undefined;
+  }
+
+  if (audioConfig) validateLocalAudioConfig(audioConfig);
+  if (videoConfig) validateLocalVideoConfig(videoConfig);
+  return await callNative('initializeLocalStreams', () => ExpoRealtimeIvsBroadcastModule.initializeLocalStreams(audioConfig, videoConfig));
 }
 
-export async function joinStage(token: string, options?: { targetParticipantId?: string }): Promise<void> {
-  return await ExpoRealtimeIvsBroadcastModule.joinStage(token, options);
+const reconnector = new StageReconnector(ExpoRealtimeIvsBroadcastModule);
+
+// Tokens for the stage we last joined; also used to check capabilities before publishing
+let tokenSource: ParticipantTokenSource | null = null;
+
+/**
+ * Join a stage with a participant token, or with a provider that fetches one.
+ * A provider is called for the initial join, before each reconnect attempt, and ahead of the token's expiry.
+ * @param token - A participant token, or a `TokenProvider` for sessions that outlive a single token
+ * @param options.targetParticipantId - Only render this participant's streams
+ * @param options.reconnect - Opt in to re-joining after an unexpected disconnect. See `ReconnectPolicy`.
+ * @param options.tokenRefreshMarginMs - How long before expiry a provider is asked for a new token
+ * @throws {InvalidParticipantTokenError} if the token cannot be decoded
+ * @throws {ParticipantTokenExpiredError} if the token has already expired
+ * @throws {TokenProviderError} if the provider fails or returns an unusable token
+ */
+export async function joinStage(token: string | TokenProvider, options?: JoinStageOptions): Promise<void> {
+  const { reconnect, tokenRefreshMarginMs, ...nativeOptions } = options ?? {};
+  reconnector.disarm();
+  tokenSource?.dispose();
+  tokenSource = null;
+
+  const source = new ParticipantTokenSource(ExpoRealtimeIvsBroadcastModule, token, tokenRefreshMarginMs);
+  let resolvedToken: string;
+  try {
+    resolvedToken = await source.get('join');
+  } catch (e) {
+    source.dispose();
+    throw e;
+  }
+  tokenSource = source;
+
+  // Armed before the call so the first 'connected' is not missed; it only acts on disconnects after that
+  if (reconnect) {
+    reconnector.arm(source, nativeOptions.targetParticipantId, reconnect === true ? {} : reconnect);
+  }
+  try {
+    return await callNative('joinStage', () => ExpoRealtimeIvsBroadcastModule.joinStage(resolvedToken, nativeOptions));
+  } catch (e) {
+    reconnector.disarm();
+    throw e;
+  }
 }
 
 export async function leaveStage(): Promise<void> {
-  return await ExpoRealtimeIvsBroadcastModule.leaveStage();
+  // An intentional leave must not trigger a reconnect
+  reconnector.disarm();
+  tokenSource?.dispose();
+  tokenSource = null;
+  statsSampler.reset();
+  return await callNative('leaveStage', () => ExpoRealtimeIvsBroadcastModule.leaveStage());
 }
 
+/**
+ * @throws {MissingTokenCapabilityError} when publishing with a token that lacks the PUBLISH capability
+ */
 export async function setStreamsPublished(published: boolean): Promise<void> {
-  return await ExpoRealtimeIvsBroadcastModule.setStreamsPublished(published);
+  if (published) assertTokenCapability(tokenSource?.current ?? null, 'PUBLISH');
+  reconnector.recordPublished(published);
+  return await callNative('setStreamsPublished', () => ExpoRealtimeIvsBroadcastModule.setStreamsPublished(published));
+}
+
+/**
+ * Choose which local media kinds are published, e.g. `{ audio: true, video: false }` to go
+ * audio-only without muting the camera. Takes effect immediately when already publishing,
+ * and `onPublishStateChanged` reports the media now live. Both kinds are published by default.
+ */
+export async function setPublishedMedia(media: PublishedMedia): Promise<void> {
+  return await callNative('setPublishedMedia', () => ExpoRealtimeIvsBroadcastModule.setPublishedMedia(media));
+}
+
+/**
+ * The selection last passed to `setPublishedMedia`
+ */
+export async function getPublishedMedia(): Promise<PublishedMedia> {
+  return await callNative('getPublishedMedia', () => ExpoRealtimeIvsBroadcastModule.getPublishedMedia());
 }
 
 export async function swapCamera(): Promise<void> {
-  return await ExpoRealtimeIvsBroadcastModule.swapCamera();
+  return await callNative('swapCamera', () => ExpoRealtimeIvsBroadcastModule.swapCamera());
+}
+
+/**
+ * Cameras and microphones available to the local participant
+ */
+export async function listDevices(): Promise<MediaDevice[]> {
+  return await callNative('listDevices', () => ExpoRealtimeIvsBroadcastModule.listDevices());
+}
+
+/**
+ * Switch the local camera to the one with this URN. Before local streams are initialized,
+ * the camera is remembered and used when they are.
+ * @throws {DeviceError} if no camera has this URN
+ */
+export async function selectCamera(urn: string): Promise<void> {
+  return await callNative('selectCamera', () => ExpoRealtimeIvsBroadcastModule.selectCamera(urn));
+}
+
+/**
+ * Capture audio from the microphone with this URN, e.g. a Bluetooth headset
+ * @throws {DeviceError} if no microphone has this URN
+ */
+export async function selectMicrophone(urn: string): Promise<void> {
+  return await callNative('selectMicrophone', () => ExpoRealtimeIvsBroadcastModule.selectMicrophone(urn));
+}
+
+/**
+ * What the active camera supports. Controls are unavailable on Android, where every capability reports unsupported.
+ * @throws {DeviceError} if no camera is active
+ */
+export async function getCameraCapabilities(): Promise<CameraCapabilities> {
+  return await callNative('getCameraCapabilities', () => ExpoRealtimeIvsBroadcastModule.getCameraCapabilities());
+}
+
+/**
+ * Zoom the active camera. The factor is clamped to `minZoom`...`maxZoom` from `getCameraCapabilities`.
+ * @throws {CameraControlUnsupportedError} if the camera cannot zoom
+ */
+export async function setZoom(factor: number): Promise<void> {
+  return await callCameraControl('setZoom', 'zoom', () => ExpoRealtimeIvsBroadcastModule.setZoom(factor));
+}
+
+/**
+ * @throws {CameraControlUnsupportedError} if the active camera has no torch
+ */
+export async function setTorch(on: boolean): Promise<void> {
+  return await callCameraControl('setTorch', 'torch', () => ExpoRealtimeIvsBroadcastModule.setTorch(on));
+}
+
+/**
+ * Focus and meter exposure on a point of the preview. `x` and `y` run from 0 to 1
+ * across the preview as shown, from the top left.
+ * @throws {CameraControlUnsupportedError} if the active camera cannot focus on a point
+ */
+export async function setFocusPoint(x: number, y: number): Promise<void> {
+  return await callCameraControl('setFocusPoint', 'focus', () => ExpoRealtimeIvsBroadcastModule.setFocusPoint(x, y));
+}
+
+/**
+ * Brighten or darken the image, in EV units. Clamped to `minExposureBias`...`maxExposureBias`.
+ * @throws {CameraControlUnsupportedError} if the active camera does not support exposure bias
+ */
+export async function setExposureBias(value: number): Promise<void> {
+  return await callCameraControl('setExposureBias', 'exposure', () => ExpoRealtimeIvsBroadcastModule.setExposureBias(value));
 }
 
 export async function setMicrophoneMuted(muted: boolean): Promise<void> {
-  return await ExpoRealtimeIvsBroadcastModule.setMicrophoneMuted(muted);
+  reconnector.recordMicrophoneMuted(muted);
+  return await callNative('setMicrophoneMuted', () => ExpoRealtimeIvsBroadcastModule.setMicrophoneMuted(muted));
 }
 
+// Options last sent to native code; `setPlaceholderOptions` updates are merged into them
+let placeholderOptions: PlaceholderOptions = {};
+
 /**
  * Mute or unmute the camera.
- * When muted, a placeholder frame with text is sent instead of camera video.
+ * When muted, a placeholder frame is sent instead of camera video.
  * @param muted - Whether to mute the camera
- * @param placeholderText - Optional text to show on placeholder (default: "Host is away")
+ * @param placeholder - Text to show on the placeholder (default: "Host is away"), or options for the whole frame.
+ * Applied as with `setPlaceholderOptions`.
+ * @throws {InvalidStreamConfigError} if a placeholder option is invalid
+ */
+export async function setCameraMuted(muted: boolean, placeholder?: string | PlaceholderOptions): Promise<void> {
+  if (placeholder !== undefined) {
+    try {
+      await setPlaceholderOptions(typeof placeholder === 'string' ? { text: placeholder } : placeholder);
+    } catch (e) {
+      // Muting works without a placeholder; `onCameraMuteStateChanged` reports `placeholderActive: false`
+      if (!(e instanceof PlaceholderUnsupportedError)) throw e;
+    }
+  }
+  // The requested text, even where the options call was rejected; native code still passes it on
+  const requestedText = typeof placeholder === 'string' ? placeholder : placeholder?.text;
+  const placeholderText = requestedText ?? placeholderOptions.text ?? null;
+  reconnector.recordCameraMuted(muted, placeholderText);
+  return await callNative('setCameraMuted', () => ExpoRealtimeIvsBroadcastModule.setCameraMuted(muted, placeholderText));
+}
+
+// Code native modules reject `setPlaceholderOptions` with where no placeholder can be drawn
+const PLACEHOLDER_UNSUPPORTED = 'ERR_PLACEHOLDER_UNSUPPORTED';
+
+/**
+ * Change what the camera-muted placeholder shows. Fields are merged into the current options;
+ * set one to `undefined` to go back to its default. Redraws the frame right away if the camera is muted.
+ * @throws {InvalidStreamConfigError} if an option is invalid
+ * @throws {StageError} if `imageUri` cannot be loaded
+ * @throws {PlaceholderUnsupportedError} on Android and web, which do not draw placeholders yet
  */
-export async function setCameraMuted(muted: boolean, placeholderText?: string): Promise<void> {
-  return await ExpoRealtimeIvsBroadcastModule.setCameraMuted(muted, placeholderText ?? null);
+export async function setPlaceholderOptions(options: PlaceholderOptions): Promise<void> {
+  validatePlaceholderOptions(options);
+  const merged = { ...placeholderOptions, ...options };
+  try {
+    await ExpoRealtimeIvsBroadcastModule.setPlaceholderOptions(merged);
+  } catch (e) {
+    if ((e as { code?: unknown } | null)?.code === PLACEHOLDER_UNSUPPORTED) {
+      throw new PlaceholderUnsupportedError({ source: 'setPlaceholderOptions', cause: e });
+    }
+    throw toStageError(e, 'setPlaceholderOptions');
+  }
+  placeholderOptions = merged;
 }
 
 /**
  * Check if the camera is currently muted
  */
 export async function isCameraMuted(): Promise<boolean> {
-  return await ExpoRealtimeIvsBroadcastModule.isCameraMuted();
+  return await callNative('isCameraMuted', () => ExpoRealtimeIvsBroadcastModule.isCameraMuted());
+}
+
+/**
+ * Snapshot of the remote participants currently on the stage and their streams.
+ * Empty when not connected.
+ */
+export async function getParticipants(): Promise<Participant[]> {
+  return await callNative('getParticipants', () => ExpoRealtimeIvsBroadcastModule.getParticipants());
+}
+
+const subscribeStrategy = new SubscribeStrategyController(ExpoRealtimeIvsBroadcastModule);
+
+/**
+ * Choose what to receive from remote participants. Applies immediately to participants
+ * already on the stage and persists across joins until changed.
+ *
+ * @param strategy - A subscribe type for everyone, a function over each participant's
+ * attributes, or a default with per-participant overrides
+ *
+ * @example
+ * // Only download video from hosts
+ * await setSubscribeStrategy({
+ *   default: 'audio_only',
+ *   resolve: ({ attributes }) => (attributes.role === 'host' ? 'audio_video' : undefined),
+ * });
+ *
+ * @remarks
+ * A `resolve` function runs in JavaScript after the participant joins, so until it has been
+ * evaluated the participant is subscribed with the default type.
+ */
+export async function setSubscribeStrategy(
+  strategy: SubscribeType | SubscribeTypeResolver | SubscribeStrategy
+): Promise<void> {
+  return await callNative('setSubscribeStrategy', () => subscribeStrategy.set(strategy));
+}
+
+const statsSampler = new StreamStatsSampler();
+
+/**
+ * Network and media statistics for local and remote streams.
+ * Bitrate and packet loss are measured since the previous sample of each stream, so the first
+ * call for a stream has no `bitrate`.
+ *
+ * @param participantId - Only streams of this participant; the local participant's ID selects the local streams
+ * @param deviceUrn - Only the stream with this device URN
+ * @returns Stats for every matching stream, or an empty array when not connected
+ */
+export async function getStreamStats(participantId?: string, deviceUrn?: string): Promise<StreamStats[]> {
+  const raw = await callNative('getStreamStats', () =>
+    ExpoRealtimeIvsBroadcastModule.getStreamStats(participantId ?? null, deviceUrn ?? null)
+  );
+  const now = Date.now();
+  return raw.map((stream) => statsSampler.parse(stream, now));
+}
+
+const statsUpdater = new StatsUpdater(ExpoRealtimeIvsBroadcastModule, () => getStreamStats());
+
+/**
+ * Start emitting `onStatsUpdated` with stats for every stream.
+ * Updates run while any returned subscription is active, at the shortest requested interval.
+ *
+ * @param intervalMs - Time between samples, in milliseconds
+ * @returns Call `remove()` to stop receiving updates
+ */
+export function startStatsUpdates(intervalMs: number = DEFAULT_STATS_INTERVAL_MS): EventSubscription {
+  return statsUpdater.start(intervalMs);
+}
+
+const audioLevelsInterval = new SharedInterval((intervalMs) => {
+  ExpoRealtimeIvsBroadcastModule.setAudioLevelsInterval(intervalMs).catch((e) =>
+    emitStageError(ExpoRealtimeIvsBroadcastModule, 'startAudioLevelUpdates', e)
+  );
+});
+
+/**
+ * Start emitting `onAudioLevels` with the level of every local and remote audio stream.
+ * Updates run while any returned subscription is active, at the shortest requested interval.
+ *
+ * @param intervalMs - Time between reports, in milliseconds. Each report carries the loudest level since the previous one.
+ * @returns Call `remove()` to stop receiving updates
+ */
+export function startAudioLevelUpdates(intervalMs: number = DEFAULT_AUDIO_LEVELS_INTERVAL_MS): EventSubscription {
+  return audioLevelsInterval.request(intervalMs);
+}
+
+/**
+ * Start recording every module event and every call made to the native module, with its result,
+ * for a bug report. Recording is opt-in and costs nothing until started.
+ *
+ * @example
+ * const recorder = startEventRecording({ ignoreEvents: ['onAudioLevels'] });
+ * // ...reproduce the issue...
+ * await uploadDiagnostics(JSON.stringify(recorder.stop()));
+ */
+export function startEventRecording(options?: EventRecorderOptions): EventRecorder {
+  return new EventRecorder(ExpoRealtimeIvsBroadcastModule, options);
 }
 
 export async function requestPermissions(): Promise<PermissionStatusMap> {
-  return await ExpoRealtimeIvsBroadcastModule.requestPermissions();
+  return await callNative('requestPermissions', () => ExpoRealtimeIvsBroadcastModule.requestPermissions());
 }
 
 // --- Event Emitter ---
@@ -102,6 +519,15 @@ export function addOnCameraSwappedListener(
   return ExpoRealtimeIvsBroadcastModule.addListener('onCameraSwapped', listener);
 }
 
+/**
+ * Fired when a camera or microphone (Bluetooth, USB, wired) is connected or disconnected
+ */
+export function addOnDevicesChangedListener(
+  listener: (event: DevicesChangedPayload) => void
+): EventSubscription {
+  return ExpoRealtimeIvsBroadcastModule.addListener('onDevicesChanged', listener);
+}
+
 export function addOnCameraSwapErrorListener(
   listener: (event: CameraSwapErrorPayload) => void
 ): EventSubscription {
@@ -138,6 +564,66 @@ export function addOnParticipantStreamsRemovedListener(
   return ExpoRealtimeIvsBroadcastModule.addListener('onParticipantStreamsRemoved', listener);
 }
 
+export function addOnParticipantStreamsMutedChangedListener(
+  listener: (event: ParticipantStreamsMutedChangedPayload) => void
+): EventSubscription {
+  return ExpoRealtimeIvsBroadcastModule.addListener('onParticipantStreamsMutedChanged', listener);
+}
+
+/**
+ * Fired on every report while `startAudioLevelUpdates` is active
+ */
+export function addOnAudioLevelsListener(
+  listener: (event: AudioLevelsPayload) => void
+): EventSubscription {
+  return ExpoRealtimeIvsBroadcastModule.addListener('onAudioLevels', listener);
+}
+
+/**
+ * Fired on every sample while `startStatsUpdates` is active
+ */
+export function addOnStatsUpdatedListener(
+  listener: (event: StatsUpdatedPayload) => void
+): EventSubscription {
+  return ExpoRealtimeIvsBroadcastModule.addListener('onStatsUpdated', listener);
+}
+
+/**
+ * Fired before each reconnect attempt when `joinStage` was called with a reconnect policy
+ */
+export function addOnReconnectingListener(
+  listener: (event: ReconnectingPayload) => void
+): EventSubscription {
+  return ExpoRealtimeIvsBroadcastModule.addListener('onReconnecting', listener);
+}
+
+/**
+ * Fired once the stage is connected again and publish/mute state has been restored
+ */
+export function addOnReconnectedListener(
+  listener: (event: ReconnectedPayload) => void
+): EventSubscription {
+  return ExpoRealtimeIvsBroadcastModule.addListener('onReconnected', listener);
+}
+
+/**
+ * Fired when the reconnect policy gives up. The stage stays disconnected.
+ */
+export function addOnReconnectFailedListener(
+  listener: (event: ReconnectFailedPayload) => void
+): EventSubscription {
+  return ExpoRealtimeIvsBroadcastModule.addListener('onReconnectFailed', listener);
+}
+
+/**
+ * Fired when a `TokenProvider` passed to `joinStage` rejects or returns an unusable token
+ */
+export function addOnTokenProviderErrorListener(
+  listener: (event: TokenProviderErrorPayload) => void
+): EventSubscription {
+  return ExpoRealtimeIvsBroadcastModule.addListener('onTokenProviderError', listener);
+}
+
 // --- Picture-in-Picture Methods ---
 
 /**
@@ -146,29 +632,32 @@ export function addOnParticipantStreamsRemovedListener(
  * @param options Configuration options for PiP behavior
  * @returns Promise resolving to true if PiP was enabled successfully
  * 
- * @platform iOS 15.0+, Android 8.0+ (API 26+)
+ * @platform iOS 15.0+, Android 8.0+ (API 26+), web browsers with video Picture-in-Picture
  * 
  * @remarks
  * - iOS: Requires `UIBackgroundModes` with `audio` in Info.plist for background playback
  * - Android: The consuming app must add `android:supportsPictureInPicture="true"` to their Activity
+ * - The config plugin's `enablePiP` option applies both during prebuild
+ * - Web: Shows the `<video>` of the stream view picked by `sourceView`; `preferredAspectRatio` is ignored
  */
 export async function enablePictureInPicture(options?: PiPOptions): Promise<boolean> {
-  return await ExpoRealtimeIvsBroadcastModule.enablePictureInPicture(options);
+  return await callNative('enablePictureInPicture', () => ExpoRealtimeIvsBroadcastModule.enablePictureInPicture(options));
 }
 
 /**
  * Disable Picture-in-Picture mode and clean up resources.
  */
 export async function disablePictureInPicture(): Promise<void> {
-  return await ExpoRealtimeIvsBroadcastModule.disablePictureInPicture();
+  return await callNative('disablePictureInPicture', () => ExpoRealtimeIvsBroadcastModule.disablePictureInPicture());
 }
 
 /**
  * Manually start Picture-in-Picture mode.
  * PiP must be enabled first via `enablePictureInPicture()`.
+ * On web, call it from a user gesture; browsers refuse PiP otherwise.
  */
 export async function startPictureInPicture(): Promise<void> {
-  return await ExpoRealtimeIvsBroadcastModule.startPictureInPicture();
+  return await callNative('startPictureInPicture', () => ExpoRealtimeIvsBroadcastModule.startPictureInPicture());
 }
 
 /**
@@ -178,7 +667,7 @@ export async function startPictureInPicture(): Promise<void> {
  * On Android, this is a hint to the system - PiP is typically exited by user interaction.
  */
 export async function stopPictureInPicture(): Promise<void> {
-  return await ExpoRealtimeIvsBroadcastModule.stopPictureInPicture();
+  return await callNative('stopPictureInPicture', () => ExpoRealtimeIvsBroadcastModule.stopPictureInPicture());
 }
 
 /**
@@ -187,7 +676,7 @@ export async function stopPictureInPicture(): Promise<void> {
  * @returns Promise resolving to true if PiP is currently active
  */
 export async function isPictureInPictureActive(): Promise<boolean> {
-  return await ExpoRealtimeIvsBroadcastModule.isPictureInPictureActive();
+  return await callNative('isPictureInPictureActive', () => ExpoRealtimeIvsBroadcastModule.isPictureInPictureActive());
 }
 
 /**
@@ -198,9 +687,10 @@ export async function isPictureInPictureActive(): Promise<boolean> {
  * @remarks
  * - iOS: Requires iOS 15.0+
  * - Android: Requires Android 8.0+ (API 26+) and device/activity support
+ * - Web: Requires `document.pictureInPictureEnabled`, which Firefox lacks
  */
 export async function isPictureInPictureSupported(): Promise<boolean> {
-  return await ExpoRealtimeIvsBroadcastModule.isPictureInPictureSupported();
+  return await callNative('isPictureInPictureSupported', () => ExpoRealtimeIvsBroadcastModule.isPictureInPictureSupported());
 }
 
 // --- PiP Event Listeners ---
@@ -0,0 +1,100 @@
+import { CodedError } from 'expo-modules-core';
+
+// The parts of the IVS Web Broadcast SDK (`amazon-ivs-web-broadcast`) the web module uses.
+// Declared structurally so the SDK stays an optional dependency, and so tests can pass a stub.
+
+export interface IvsParticipantInfo {
+  id: string;
+  userId?: string;
+  isLocal: boolean;
+  attributes: Record<string, string>;
+}
+
+export interface IvsStageStream {
+  id: string;
+  mediaStreamTrack: MediaStreamTrack;
+  streamType: string;
+  isMuted: boolean;
+  requestRTCStats?(): Promise<RTCStatsReport | undefined>;
+}
+
+export interface IvsLocalStageStream extends IvsStageStream {
+  setMuted(muted: boolean): void;
+}
+
+export interface IvsLocalStageStreamOptions {
+  maxBitrate?: number;
+  maxFramerate?: number;
+  simulcast?: { enabled: boolean };
+}
+
+export interface IvsStageError {
+  code: number;
+  category?: string;
+  message: string;
+  participantId?: string;
+}
+
+export interface IvsStageStrategy {
+  stageStreamsToPublish(): IvsLocalStageStream[];
+  shouldPublishParticipant(participant: IvsParticipantInfo): boolean;
+  shouldSubscribeToParticipant(participant: IvsParticipantInfo): string;
+}
+
+export interface IvsStage {
+  join(): Promise<void>;
+  leave(): void;
+  refreshStrategy(): void;
+  on(event: string, listener: (...args: never[]) => void): void;
+  off?(event: string, listener: (...args: never[]) => void): void;
+}
+
+export interface IvsWebBroadcastSdk {
+  Stage: new (token: string, strategy: IvsStageStrategy) => IvsStage;
+  LocalStageStream: new (track: MediaStreamTrack, options?: IvsLocalStageStreamOptions) => IvsLocalStageStream;
+  StageEvents: {
+    STAGE_CONNECTION_STATE_CHANGED: string;
+    STAGE_PARTICIPANT_JOINED: string;
+    STAGE_PARTICIPANT_LEFT: string;
+    STAGE_PARTICIPANT_PUBLISH_STATE_CHANGED: string;
+    STAGE_PARTICIPANT_STREAMS_ADDED: string;
+    STAGE_PARTICIPANT_STREAMS_REMOVED: string;
+    STAGE_STREAM_MUTE_CHANGED: string;
+    ERROR: string;
+  };
+  ConnectionState: { CONNECTING: string; CONNECTED: string; DISCONNECTED: string; ERRORED: string };
+  StageParticipantPublishState: {
+    NOT_PUBLISHED: string;
+    ATTEMPTING_PUBLISH: string;
+    PUBLISHED: string;
+    ERRORED: string;
+  };
+  SubscribeType: { AUDIO_VIDEO: string; AUDIO_ONLY: string; NONE: string };
+  StreamType: { AUDIO: string; VIDEO: string };
+  StageErrorCategory?: { JOIN_ERROR: string };
+}
+
+let sdk: IvsWebBroadcastSdk | null = null;
+
+/**
+ * Use `stub` in place of `amazon-ivs-web-broadcast`, e.g. to exercise the web module in jsdom.
+ * Pass `null` to load the real SDK again.
+ */
+export function setIvsWebBroadcastSdk(stub: IvsWebBroadcastSdk | null): void {
+  sdk = stub;
+}
+
+/** The SDK, loaded on first use */
+export function getIvsWebBroadcastSdk(): IvsWebBroadcastSdk {
+  if (!sdk) {
+    try {
+      sdk = require('amazon-ivs-web-broadcast') as IvsWebBroadcastSdk;
+    } catch {
+      throw new CodedError(
+        'ERR_WEB_BROADCAST_SDK_MISSING',
+        'The IVS Web Broadcast SDK is not installed. Add `amazon-ivs-web-broadcast` to use stages on web.'
+      );
+    }
+  }
+  return sdk;
+}
@@ -0,0 +1,161 @@
+import {
+  InvalidParticipantTokenError,
+  MissingTokenCapabilityError,
+  ParticipantTokenExpiredError,
+} from './errors';
+
+export type ParticipantTokenCapability = 'PUBLISH' | 'SUBSCRIBE';
+
+/**
+ * Claims carried by an IVS participant token
+ */
+export interface ParticipantToken {
+  /** The participant ID assigned by IVS (`jti` claim) */
+  participantId: string;
+  /** The `userId` passed to CreateParticipantToken, if any */
+  userId?: string;
+  /** ARN of the stage the token was issued for */
+  stageArn: string;
+  capabilities: ParticipantTokenCapability[];
+  attributes: Record<string, string>;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+const BASE64URL_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// Hermes does not guarantee `atob`/`TextDecoder`, so decode base64url and UTF-8 by hand
+function decodeBase64Url(input: string): string {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of input.replace(/=+$/, '')) {
+    const value = BASE64URL_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new InvalidParticipantTokenError('payload is not base64url encoded');
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  let result = '';
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i];
+    let codePoint: number;
+    let length: number;
+    if (byte < 0x80) {
+      codePoint = byte;
+      length = 1;
+    } else if (byte >= 0xf0) {
+      codePoint = byte & 0x07;
+      length = 4;
+    } else if (byte >= 0xe0) {
+      codePoint = byte & 0x0f;
+      length = 3;
+    } else {
+      codePoint = byte & 0x1f;
+      length = 2;
+    }
+    for (let j = 1; j < length; j++) {
+      codePoint = (codePoint << 6) | (bytes[i + j] & 0x3f);
+    }
+    result += String.fromCodePoint(codePoint);
+    i += length;
+  }
+  return result;
+}
+
+function readEpochSeconds(claims: Record<string, unknown>, claim: string): Date {
+  const value = claims[claim];
+  if (typeof value !== 'number') {
+    throw new InvalidParticipantTokenError(`missing "${claim}" claim`);
+  }
+  return new Date(value * 1000);
+}
+
+/**
+ * Decode an IVS participant token without verifying its signature.
+ * Useful for checking expiry and capabilities before handing the token to the native SDK.
+ *
+ * @throws {InvalidParticipantTokenError} if the token is not a JWT or lacks required claims
+ */
+export function parseParticipantToken(token: string): ParticipantToken {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3) {
+    throw new InvalidParticipantTokenError('expected a JWT with three segments');
+  }
+
+  let claims: Record<string, unknown>;
+  try {
+    claims = JSON.parse(decodeBase64Url(parts[1]));
+  } catch (e) {
+    if (e instanceof InvalidParticipantTokenError) throw e;
+    throw new InvalidParticipantTokenError('payload is not valid JSON');
+  }
+  if (typeof claims !== 'object' || claims === null) {
+    throw new InvalidParticipantTokenError('payload is not an object');
+  }
+
+  const participantId = claims.jti;
+  if (typeof participantId !== 'string') {
+    throw new InvalidParticipantTokenError('missing "jti" claim');
+  }
+  const stageArn = claims.resource;
+  if (typeof stageArn !== 'string') {
+    throw new InvalidParticipantTokenError('missing "resource" claim');
+  }
+
+  const rawCapabilities = (claims.capabilities ?? {}) as Record<string, unknown>;
+  const capabilities: ParticipantTokenCapability[] = [];
+  if (rawCapabilities.allow_publish === true) capabilities.push('PUBLISH');
+  if (rawCapabilities.allow_subscribe === true) capabilities.push('SUBSCRIBE');
+
+  const attributes: Record<string, string> = {};
+  if (typeof claims.attributes === 'object' && claims.attributes !== null) {
+    for (const [key, value] of Object.entries(claims.attributes)) {
+      if (typeof value === 'string') attributes[key] = value;
+    }
+  }
+
+  return {
+    participantId,
+    userId: typeof claims.user_id === 'string' ? claims.user_id : undefined,
+    stageArn,
+    capabilities,
+    attributes,
+    issuedAt: readEpochSeconds(claims, 'iat'),
+    expiresAt: readEpochSeconds(claims, 'exp'),
+  };
+}
+
+/**
+ * Whether the token has expired, or will within `marginMs`
+ */
+export function isParticipantTokenExpired(token: ParticipantToken, marginMs = 0, now = Date.now()): boolean {
+  return token.expiresAt.getTime() - marginMs <= now;
+}
+
+/**
+ * Parse a token about to be used for joining and reject it if it has expired.
+ * @internal
+ */
+export function assertTokenCanJoin(token: string): ParticipantToken {
+  const parsed = parseParticipantToken(token);
+  if (isParticipantTokenExpired(parsed)) {
+    throw new ParticipantTokenExpiredError(parsed.expiresAt);
+  }
+  return parsed;
+}
+
+/**
+ * @internal
+ */
+export function assertTokenCapability(token: ParticipantToken | null, capability: ParticipantTokenCapability) {
+  if (token && !token.capabilities.includes(capability)) {
+    throw new MissingTokenCapabilityError(capability);
+  }
+}
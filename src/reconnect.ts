@@ -0,0 +1,209 @@
+import { EventSubscription } from 'expo-modules-core';
+import type { ExpoRealtimeIvsBroadcastModuleType } from './ExpoRealtimeIvsBroadcastModule';
+import type { ReconnectPolicy, StageConnectionStatePayload } from './ExpoRealtimeIvsBroadcast.types';
+import { ParticipantTokenExpiredError } from './errors';
+import { assertTokenCanJoin } from './participantToken';
+import type { ParticipantTokenSource } from './tokenProvider';
+
+export const DEFAULT_RECONNECT_POLICY: Required<Omit<ReconnectPolicy, 'shouldRetry' | 'refreshToken'>> = {
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 30_000,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+  connectTimeoutMs: 15_000,
+};
+
+/**
+ * Backoff delay before the given 1-based attempt.
+ *
+ * @param random - Source of randomness for jitter, in [0, 1)
+ */
+export function computeReconnectDelay(
+  attempt: number,
+  policy: ReconnectPolicy = {},
+  random: () => number = Math.random
+): number {
+  const { initialDelayMs, maxDelayMs, backoffMultiplier, jitter } = { ...DEFAULT_RECONNECT_POLICY, ...policy };
+  const base = Math.min(maxDelayMs, initialDelayMs * Math.pow(backoffMultiplier, attempt - 1));
+  const spread = Math.min(Math.max(jitter, 0), 1);
+  return Math.round(base * (1 - spread + random() * 2 * spread));
+}
+
+// Native sends 'error' in addition to the typed states when a join cannot start
+function isUnexpectedDisconnect({ state, error }: StageConnectionStatePayload): boolean {
+  return error !== undefined && state !== 'connected' && state !== 'connecting';
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Watches the stage connection and re-joins after an unexpected disconnect,
+ * restoring the publish and mute state recorded through the module wrappers.
+ * Armed by `joinStage` when a reconnect policy is given, disarmed by `leaveStage`.
+ * Disconnects are only acted on once the join has connected; a failed initial join is the caller's to handle.
+ */
+export class StageReconnector {
+  private readonly module: ExpoRealtimeIvsBroadcastModuleType;
+  private subscription: EventSubscription | null = null;
+  private tokens: ParticipantTokenSource | null = null;
+  private targetParticipantId?: string;
+  private policy: ReconnectPolicy | null = null;
+  // Bumped on every arm/disarm so an in-flight attempt loop can tell it was cancelled
+  private generation = 0;
+  private reconnecting = false;
+  // Set by the first 'connected' after `arm`
+  private hasConnected = false;
+  private cancelPendingDelay: (() => void) | null = null;
+
+  // Last state requested by the app, re-applied after reconnecting
+  private published = false;
+  private microphoneMuted = false;
+  private cameraMuted = false;
+  private placeholderText: string | null = null;
+
+  constructor(module: ExpoRealtimeIvsBroadcastModuleType) {
+    this.module = module;
+  }
+
+  arm(tokens: ParticipantTokenSource, targetParticipantId: string | undefined, policy: ReconnectPolicy) {
+    this.disarm();
+    this.tokens = tokens;
+    this.targetParticipantId = targetParticipantId;
+    this.policy = policy;
+    this.subscription = this.module.addListener('onStageConnectionStateChanged', (payload) => {
+      if (payload.state === 'connected') this.hasConnected = true;
+      if (!this.hasConnected || this.reconnecting || !isUnexpectedDisconnect(payload)) return;
+      this.reconnect(payload.error ?? 'Stage disconnected');
+    });
+  }
+
+  disarm() {
+    this.generation++;
+    this.policy = null;
+    this.tokens = null;
+    this.reconnecting = false;
+    this.hasConnected = false;
+    this.subscription?.remove();
+    this.subscription = null;
+    this.cancelPendingDelay?.();
+  }
+
+  recordPublished(published: boolean) {
+    this.published = published;
+  }
+
+  recordMicrophoneMuted(muted: boolean) {
+    this.microphoneMuted = muted;
+  }
+
+  recordCameraMuted(muted: boolean, placeholderText: string | null) {
+    this.cameraMuted = muted;
+    this.placeholderText = placeholderText;
+  }
+
+  private async reconnect(initialError: string) {
+    const { policy, tokens } = this;
+    if (!policy || !tokens) return;
+    const generation = this.generation;
+    const { maxAttempts, connectTimeoutMs } = { ...DEFAULT_RECONNECT_POLICY, ...policy };
+    const shouldRetry = policy.shouldRetry ?? (() => true);
+
+    if (!shouldRetry(initialError)) {
+      this.module.emit('onReconnectFailed', { attempts: 0, error: initialError });
+      this.disarm();
+      return;
+    }
+
+    this.reconnecting = true;
+    let error = initialError;
+    let attempt = 0;
+
+    while (attempt < maxAttempts) {
+      attempt++;
+      const delayMs = computeReconnectDelay(attempt, policy);
+      this.module.emit('onReconnecting', { attempt, maxAttempts, delayMs, error });
+
+      await this.delay(delayMs);
+      if (generation !== this.generation) return;
+
+      try {
+        let token: string;
+        if (policy.refreshToken && !tokens.refreshable) {
+          token = await policy.refreshToken();
+          assertTokenCanJoin(token);
+        } else {
+          token = await tokens.get('reconnect');
+        }
+        const connected = this.waitForConnection(connectTimeoutMs);
+        // Observed below; keeps a rejected join from leaving this promise unhandled
+        connected.catch(() => {});
+        await this.module.joinStage(token, { targetParticipantId: this.targetParticipantId });
+        await connected;
+        if (generation !== this.generation) return;
+
+        await this.restoreLocalState();
+        this.reconnecting = false;
+        this.module.emit('onReconnected', { attempts: attempt });
+        return;
+      } catch (e) {
+        if (generation !== this.generation) return;
+        error = errorMessage(e);
+        // Without a way to refresh it, an expired token will never succeed
+        if (e instanceof ParticipantTokenExpiredError && !policy.refreshToken && !tokens.refreshable) break;
+        if (!shouldRetry(error)) break;
+      }
+    }
+
+    this.module.emit('onReconnectFailed', { attempts: attempt, error });
+    this.disarm();
+  }
+
+  private async restoreLocalState() {
+    if (this.microphoneMuted) {
+      await this.module.setMicrophoneMuted(true);
+    }
+    if (this.cameraMuted) {
+      await this.module.setCameraMuted(true, this.placeholderText);
+    }
+    if (this.published) {
+      await this.module.setStreamsPublished(true);
+    }
+  }
+
+  private waitForConnection(timeoutMs: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        subscription.remove();
+        reject(new Error(`Stage did not connect within ${timeoutMs}ms`));
+      }, timeoutMs);
+      const subscription = this.module.addListener('onStageConnectionStateChanged', (payload) => {
+        if (payload.state === 'connected') {
+          clearTimeout(timer);
+          subscription.remove();
+          resolve();
+        } else if (isUnexpectedDisconnect(payload) || payload.state === 'disconnected') {
+          clearTimeout(timer);
+          subscription.remove();
+          reject(new Error(payload.error ?? 'Stage disconnected while reconnecting'));
+        }
+      });
+    });
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.cancelPendingDelay = null;
+        resolve();
+      }, ms);
+      this.cancelPendingDelay = () => {
+        clearTimeout(timer);
+        this.cancelPendingDelay = null;
+        resolve();
+      };
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { EventSubscription } from 'expo-modules-core';
+
+/**
+ * Tracks interval requests from independent callers and reports the shortest one still active,
+ * or `null` once every request has been removed.
+ */
+export class SharedInterval {
+  private readonly onChange: (intervalMs: number | null) => void;
+  private readonly requests = new Map<symbol, number>();
+  private current: number | null = null;
+
+  constructor(onChange: (intervalMs: number | null) => void) {
+    this.onChange = onChange;
+  }
+
+  request(intervalMs: number): EventSubscription {
+    const key = Symbol('interval');
+    this.requests.set(key, intervalMs);
+    this.update();
+    return {
+      remove: () => {
+        if (this.requests.delete(key)) this.update();
+      },
+    };
+  }
+
+  private update() {
+    const intervalMs = this.requests.size > 0 ? Math.min(...this.requests.values()) : null;
+    if (intervalMs === this.current) return;
+    this.current = intervalMs;
+    this.onChange(intervalMs);
+  }
+}
@@ -0,0 +1,118 @@
+import { Platform } from 'expo-modules-core';
+import type { ExpoRealtimeIvsBroadcastModuleType } from './ExpoRealtimeIvsBroadcastModule';
+import type { StageErrorPayload } from './ExpoRealtimeIvsBroadcast.types';
+import {
+  DeviceError,
+  InvalidParticipantTokenError,
+  InvalidStateTransitionError,
+  InvalidStreamConfigError,
+  NetworkError,
+  PermissionDeniedError,
+  PublishRejectedError,
+  StageError,
+  StageErrorCategory,
+  StageErrorDetails,
+  TokenExpiredError,
+  TokenProviderError,
+} from './errors';
+
+/**
+ * IVS stage error codes and the category each maps to.
+ * Codes follow the Web Broadcast SDK's `StageErrorCode` numbering, so they are only looked up on web.
+ * The native SDKs report `NSError` and `BroadcastException` codes, which are classified by description.
+ */
+export const STAGE_ERROR_CODES: Record<number, StageErrorCategory> = {
+  1: 'permission_denied', // TOKEN_MALFORMED
+  2: 'token_expired', // TOKEN_EXPIRED
+  3: 'network', // TIMEOUT
+  4: 'network', // FAILED
+  5: 'network', // CANCELED
+  6: 'publish_rejected', // STAGE_AT_CAPACITY
+  7: 'publish_rejected', // CODEC_MISMATCH
+  8: 'permission_denied', // TOKEN_NOT_ALLOWED
+  9: 'unknown', // STAGE_DELETED
+  10: 'network', // PARTICIPANT_DISCONNECTED
+};
+
+// Checked in order against the lowercased description when the code is not looked up or not in the table
+const DESCRIPTION_PATTERNS: [RegExp, StageErrorCategory][] = [
+  [/expired/, 'token_expired'],
+  [/permission|denied|not allowed|unauthori[sz]ed|not authori[sz]ed|malformed/, 'permission_denied'],
+  [/camera|microphone|device|capture/, 'device'],
+  [/capacity|codec|publish/, 'publish_rejected'],
+  [/network|timeout|timed out|connection|offline|unreachable|socket/, 'network'],
+];
+
+const ERROR_CLASSES: Record<
+  StageErrorCategory,
+  new (message: string, details?: StageErrorDetails) => StageError
+> = {
+  token_expired: TokenExpiredError,
+  network: NetworkError,
+  permission_denied: PermissionDeniedError,
+  publish_rejected: PublishRejectedError,
+  device: DeviceError,
+  unknown: StageError,
+};
+
+function categorize(code: number | undefined, description: string): StageErrorCategory {
+  // Native codes come from other numberings, where e.g. 2 does not mean an expired token
+  if (Platform.OS === 'web' && code !== undefined && STAGE_ERROR_CODES[code]) {
+    return STAGE_ERROR_CODES[code];
+  }
+  const text = description.toLowerCase();
+  return DESCRIPTION_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? 'unknown';
+}
+
+/**
+ * Turn an `onStageError` payload into the matching `StageError` subclass.
+ * On web the code is looked up in `STAGE_ERROR_CODES` first. Native codes, and codes missing
+ * from the table, fall back to the description.
+ *
+ * @example
+ * addOnStageErrorListener((payload) => {
+ *   const error = classifyStageError(payload);
+ *   if (error instanceof TokenExpiredError) refreshTokenAndRejoin();
+ *   else if (error.retryable) scheduleRetry();
+ * });
+ */
+export function classifyStageError(payload: Partial<StageErrorPayload>): StageError {
+  const description = payload.description ?? 'Unknown stage error';
+  const code = typeof payload.code === 'number' ? payload.code : undefined;
+  const ErrorClass = ERROR_CLASSES[categorize(code, description)];
+  return new ErrorClass(description, { code, source: payload.source, isFatal: payload.isFatal });
+}
+
+/**
+ * Wrap a rejection from the native module in a `StageError`.
+ * Errors raised in JavaScript before reaching native code are passed through unchanged.
+ * @internal
+ */
+export function toStageError(e: unknown, source?: string): Error {
+  if (
+    e instanceof StageError ||
+    e instanceof InvalidStreamConfigError ||
+    e instanceof InvalidStateTransitionError ||
+    e instanceof InvalidParticipantTokenError ||
+    e instanceof TokenProviderError
+  ) {
+    return e;
+  }
+  const description = e instanceof Error ? e.message : String(e);
+  // Expo CodedErrors carry a string code like 'ERR_...', so only numeric codes are looked up
+  const rawCode = (e as { code?: unknown } | null)?.code;
+  const code = typeof rawCode === 'number' ? rawCode : undefined;
+  const ErrorClass = ERROR_CLASSES[categorize(code, description)];
+  return new ErrorClass(description, { code, source, isFatal: false, cause: e });
+}
+
+/**
+ * Report a failure in work the library runs in the background, where there is no promise to reject,
+ * as a non-fatal `onStageError`. `code` is `0` unless the failure came with a numeric code.
+ * @internal
+ */
+export function emitStageError(module: Pick<ExpoRealtimeIvsBroadcastModuleType, 'emit'>, source: string, e: unknown) {
+  const error = toStageError(e, source);
+  const code = error instanceof StageError ? error.code : undefined;
+  module.emit('onStageError', { code: code ?? 0, description: error.message, source, isFatal: false });
+}
@@ -0,0 +1,160 @@
+import { InvalidStreamConfigError } from './errors';
+import type {
+  LocalAudioConfig,
+  LocalVideoConfig,
+  PlaceholderOptions,
+  VideoDegradationPreference,
+} from './ExpoRealtimeIvsBroadcast.types';
+
+/**
+ * Limits enforced by IVS Stages for a published video stream.
+ * Values outside these ranges are rejected before they reach the native SDK.
+ */
+export const STAGE_VIDEO_LIMITS = {
+  minDimension: 160,
+  maxDimension: 1920,
+  minFramerate: 10,
+  maxFramerate: 30,
+  minBitrate: 100_000,
+  maxBitrate: 8_500_000,
+} as const;
+
+/**
+ * Limits enforced by IVS Stages for a published audio stream
+ */
+export const STAGE_AUDIO_LIMITS = {
+  minBitrate: 12_000,
+  maxBitrate: 128_000,
+} as const;
+
+const DEGRADATION_PREFERENCES: VideoDegradationPreference[] = [
+  'balanced',
+  'maintain_framerate',
+  'maintain_resolution',
+];
+
+function assertIntegerInRange(field: string, value: unknown, min: number, max: number) {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw new InvalidStreamConfigError(field, value, 'must be an integer');
+  }
+  if (value < min || value > max) {
+    throw new InvalidStreamConfigError(field, value, `must be between ${min} and ${max}`);
+  }
+}
+
+/**
+ * Validate a video configuration against `STAGE_VIDEO_LIMITS`.
+ *
+ * @throws {InvalidStreamConfigError} if any field is missing a counterpart or out of range
+ */
+export function validateLocalVideoConfig(config: LocalVideoConfig): void {
+  const { enabled, width, height, targetFramerate, minBitrate, maxBitrate, degradationPreference, simulcast } = config;
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    throw new InvalidStreamConfigError('enabled', enabled, 'must be a boolean');
+  }
+
+  if ((width === undefined) !== (height === undefined)) {
+    const field = width === undefined ? 'width' : 'height';
+    throw new InvalidStreamConfigError(field, undefined, '`width` and `height` must be set together');
+  }
+  if (width !== undefined && height !== undefined) {
+    assertIntegerInRange('width', width, STAGE_VIDEO_LIMITS.minDimension, STAGE_VIDEO_LIMITS.maxDimension);
+    assertIntegerInRange('height', height, STAGE_VIDEO_LIMITS.minDimension, STAGE_VIDEO_LIMITS.maxDimension);
+  }
+
+  if (targetFramerate !== undefined) {
+    assertIntegerInRange(
+      'targetFramerate',
+      targetFramerate,
+      STAGE_VIDEO_LIMITS.minFramerate,
+      STAGE_VIDEO_LIMITS.maxFramerate
+    );
+  }
+
+  if (minBitrate !== undefined) {
+    assertIntegerInRange('minBitrate', minBitrate, STAGE_VIDEO_LIMITS.minBitrate, STAGE_VIDEO_LIMITS.maxBitrate);
+  }
+  if (maxBitrate !== undefined) {
+    assertIntegerInRange('maxBitrate', maxBitrate, STAGE_VIDEO_LIMITS.minBitrate, STAGE_VIDEO_LIMITS.maxBitrate);
+  }
+  if (minBitrate !== undefined && maxBitrate !== undefined && minBitrate > maxBitrate) {
+    throw new InvalidStreamConfigError('minBitrate', minBitrate, 'must not exceed `maxBitrate`');
+  }
+
+  if (degradationPreference !== undefined && !DEGRADATION_PREFERENCES.includes(degradationPreference)) {
+    throw new InvalidStreamConfigError(
+      'degradationPreference',
+      degradationPreference,
+      `must be one of ${DEGRADATION_PREFERENCES.join(', ')}`
+    );
+  }
+
+  if (simulcast !== undefined && typeof simulcast.enabled !== 'boolean') {
+    throw new InvalidStreamConfigError('simulcast.enabled', simulcast.enabled, 'must be a boolean');
+  }
+}
+
+/**
+ * Validate an audio configuration against `STAGE_AUDIO_LIMITS`.
+ *
+ * @throws {InvalidStreamConfigError} if a field is out of range or the combination is unsupported
+ */
+export function validateLocalAudioConfig(config: LocalAudioConfig): void {
+  const { bitrate, channels, echoCancellation, autoGainControl, noiseSuppression } = config;
+
+  if (bitrate !== undefined) {
+    assertIntegerInRange('bitrate', bitrate, STAGE_AUDIO_LIMITS.minBitrate, STAGE_AUDIO_LIMITS.maxBitrate);
+  }
+
+  if (channels !== undefined && channels !== 1 && channels !== 2) {
+    throw new InvalidStreamConfigError('channels', channels, 'must be 1 (mono) or 2 (stereo)');
+  }
+
+  const flags = { echoCancellation, autoGainControl, noiseSuppression };
+  for (const [field, value] of Object.entries(flags)) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      throw new InvalidStreamConfigError(field, value, 'must be a boolean');
+    }
+  }
+
+  // Voice processing (echo cancellation / gain control) downmixes to mono on both platforms
+  if (channels === 2) {
+    if (echoCancellation !== false) {
+      throw new InvalidStreamConfigError('echoCancellation', echoCancellation, 'must be false for stereo audio');
+    }
+    if (autoGainControl !== false) {
+      throw new InvalidStreamConfigError('autoGainControl', autoGainControl, 'must be false for stereo audio');
+    }
+  }
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const PLACEHOLDER_TEXT_POSITIONS = ['top', 'center', 'bottom'];
+
+/**
+ * Validate camera-muted placeholder options. `fontSize` is limited to 8-200 pixels of the 720x1280 frame.
+ *
+ * @throws {InvalidStreamConfigError} if a color is not a hex string or a field is out of range
+ */
+export function validatePlaceholderOptions(options: PlaceholderOptions): void {
+  const { text, backgroundColor, textColor, fontSize, imageUri, textPosition } = options;
+
+  if (text !== undefined && typeof text !== 'string') {
+    throw new InvalidStreamConfigError('text', text, 'must be a string');
+  }
+  for (const [field, color] of [['backgroundColor', backgroundColor], ['textColor', textColor]] as const) {
+    if (color !== undefined && (typeof color !== 'string' || !HEX_COLOR.test(color))) {
+      throw new InvalidStreamConfigError(field, color, 'must be a hex color like #RRGGBB');
+    }
+  }
+  if (fontSize !== undefined && (typeof fontSize !== 'number' || !(fontSize >= 8 && fontSize <= 200))) {
+    throw new InvalidStreamConfigError('fontSize', fontSize, 'must be between 8 and 200');
+  }
+  if (imageUri !== undefined && (typeof imageUri !== 'string' || imageUri.length === 0)) {
+    throw new InvalidStreamConfigError('imageUri', imageUri, 'must be a non-empty string');
+  }
+  if (textPosition !== undefined && !PLACEHOLDER_TEXT_POSITIONS.includes(textPosition)) {
+    throw new InvalidStreamConfigError('textPosition', textPosition, `must be one of ${PLACEHOLDER_TEXT_POSITIONS.join(', ')}`);
+  }
+}
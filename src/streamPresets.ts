@@ -0,0 +1,102 @@
+import { InvalidStreamConfigError } from './errors';
+import type { LocalAudioConfig, LocalVideoConfig } from './ExpoRealtimeIvsBroadcast.types';
+
+export type StreamQualityPreset = 'portrait-720p' | 'landscape-1080p' | 'low-bandwidth-360p' | 'audio-only';
+
+/**
+ * A fully resolved preset. Pass `audio` and `video` straight to `initializeLocalStreams`.
+ */
+export interface ResolvedStreamConfig {
+  audio: LocalAudioConfig;
+  video: LocalVideoConfig;
+}
+
+/**
+ * Field-by-field overrides applied on top of a preset
+ */
+export interface StreamPresetOverrides {
+  audio?: Partial<LocalAudioConfig>;
+  video?: Partial<LocalVideoConfig>;
+}
+
+type DeepReadonly<T> = { readonly [K in keyof T]: T[K] extends object ? DeepReadonly<T[K]> : T[K] };
+
+// Freezes every nested object too, so no caller can change a preset for everyone else
+function deepFreeze<T extends object>(value: T): DeepReadonly<T> {
+  for (const nested of Object.values(value)) {
+    if (nested && typeof nested === 'object') deepFreeze(nested);
+  }
+  return Object.freeze(value) as DeepReadonly<T>;
+}
+
+/**
+ * The concrete values behind each named preset, frozen all the way down.
+ * Use `resolveStreamPreset` for a copy to change.
+ */
+export const STREAM_PRESETS: DeepReadonly<Record<StreamQualityPreset, ResolvedStreamConfig>> = deepFreeze({
+  'portrait-720p': {
+    audio: { bitrate: 64_000 },
+    video: {
+      width: 720,
+      height: 1280,
+      targetFramerate: 30,
+      minBitrate: 300_000,
+      maxBitrate: 2_500_000,
+      degradationPreference: 'balanced',
+    },
+  },
+  'landscape-1080p': {
+    audio: { bitrate: 96_000 },
+    video: {
+      width: 1920,
+      height: 1080,
+      targetFramerate: 30,
+      minBitrate: 1_000_000,
+      maxBitrate: 6_000_000,
+      degradationPreference: 'maintain_resolution',
+      simulcast: { enabled: true },
+    },
+  },
+  'low-bandwidth-360p': {
+    audio: { bitrate: 32_000 },
+    video: {
+      width: 360,
+      height: 640,
+      targetFramerate: 15,
+      minBitrate: 100_000,
+      maxBitrate: 600_000,
+      degradationPreference: 'maintain_framerate',
+    },
+  },
+  'audio-only': {
+    audio: { bitrate: 96_000 },
+    video: { enabled: false },
+  },
+});
+
+/**
+ * Resolve a named preset into concrete audio/video configs, applying any overrides.
+ * The returned objects are fresh copies and safe to mutate.
+ *
+ * @example
+ * resolveStreamPreset('portrait-720p', { video: { maxBitrate: 1_500_000 } });
+ */
+export function resolveStreamPreset(
+  preset: StreamQualityPreset,
+  overrides: StreamPresetOverrides = {}
+): ResolvedStreamConfig {
+  const base = STREAM_PRESETS[preset];
+  if (!base) {
+    throw new InvalidStreamConfigError('preset', preset, `must be one of ${Object.keys(STREAM_PRESETS).join(', ')}`);
+  }
+
+  const video: LocalVideoConfig = { ...base.video, ...overrides.video };
+  if (video.simulcast) {
+    video.simulcast = { ...video.simulcast };
+  }
+
+  return {
+    audio: { ...base.audio, ...overrides.audio },
+    video,
+  };
+}
@@ -0,0 +1,161 @@
+import { EventSubscription } from 'expo-modules-core';
+import type { ExpoRealtimeIvsBroadcastModuleType, NativeStreamStats } from './ExpoRealtimeIvsBroadcastModule';
+import type { NetworkQuality, StreamStats } from './ExpoRealtimeIvsBroadcast.types';
+import { SharedInterval } from './sharedInterval';
+import { emitStageError } from './stageErrors';
+
+/**
+ * Limits used by `rateNetworkQuality`. A sample at or above a `poor` limit is rated 'poor';
+ * otherwise one at or above a `fair` limit is rated 'fair'; anything else is 'good'.
+ */
+export const NETWORK_QUALITY_THRESHOLDS = {
+  fair: { packetLossPercent: 1, roundTripTimeMs: 200, jitterMs: 30 },
+  poor: { packetLossPercent: 5, roundTripTimeMs: 400, jitterMs: 50 },
+} as const;
+
+export const DEFAULT_STATS_INTERVAL_MS = 1000;
+
+type Report = Record<string, string>;
+
+function readNumber(report: Report | undefined, field: string): number | undefined {
+  const value = report?.[field];
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function findReport(reports: Report[], type: string): Report | undefined {
+  return reports.find((report) => report.type === type);
+}
+
+// Counters carried between samples of the same stream, for per-interval rates
+type Counters = { bytes: number; packets: number; packetsLost: number; at: number };
+
+/**
+ * Turns the SDK's raw WebRTC stats into `StreamStats`.
+ * Bitrate and loss are deltas, so the previous counters of each stream are kept between calls.
+ */
+export class StreamStatsSampler {
+  private previous = new Map<string, Counters>();
+
+  parse(raw: NativeStreamStats, now = Date.now()): StreamStats {
+    const reports = Object.values(raw.reports);
+    // Local streams are described by what we send and the far end's receiver reports;
+    // remote streams by what we receive
+    const rtp = findReport(reports, raw.isLocal ? 'outbound-rtp' : 'inbound-rtp');
+    const remote = raw.isLocal ? findReport(reports, 'remote-inbound-rtp') : undefined;
+    const candidatePair = reports.find(
+      (report) => report.type === 'candidate-pair' && (report.nominated === 'true' || report.state === 'succeeded')
+    );
+
+    const bytes = readNumber(rtp, raw.isLocal ? 'bytesSent' : 'bytesReceived');
+    const packets = readNumber(rtp, raw.isLocal ? 'packetsSent' : 'packetsReceived');
+    const packetsLost = readNumber(raw.isLocal ? remote : rtp, 'packetsLost');
+    const jitter = readNumber(raw.isLocal ? remote : rtp, 'jitter');
+    const roundTripTime = readNumber(remote, 'roundTripTime') ?? readNumber(candidatePair, 'currentRoundTripTime');
+
+    const stats: StreamStats = {
+      participantId: raw.participantId,
+      deviceUrn: raw.deviceUrn,
+      mediaType: raw.mediaType,
+      isLocal: raw.isLocal,
+      packetsLost,
+      roundTripTimeMs: roundTripTime !== undefined ? roundTripTime * 1000 : undefined,
+      jitterMs: jitter !== undefined ? jitter * 1000 : undefined,
+      framesPerSecond: readNumber(rtp, 'framesPerSecond'),
+      timestamp: now,
+    };
+
+    if (bytes === undefined || packets === undefined) return stats;
+    const current: Counters = { bytes, packets, packetsLost: packetsLost ?? 0, at: now };
+    const previous = this.previous.get(raw.deviceUrn);
+    this.previous.set(raw.deviceUrn, current);
+
+    // Counters restart when a stream is republished, which shows up as a decrease
+    const hasDelta = previous !== undefined && current.at > previous.at && current.bytes >= previous.bytes;
+    const base = hasDelta ? previous : { bytes: 0, packets: 0, packetsLost: 0, at: now };
+    if (hasDelta) {
+      stats.bitrate = Math.round(((current.bytes - base.bytes) * 8 * 1000) / (current.at - base.at));
+    }
+    if (packetsLost !== undefined) {
+      const lost = Math.max(current.packetsLost - base.packetsLost, 0);
+      const total = lost + Math.max(current.packets - base.packets, 0);
+      stats.packetLossPercent = total > 0 ? (lost / total) * 100 : 0;
+    }
+    return stats;
+  }
+
+  reset() {
+    this.previous.clear();
+  }
+}
+
+/**
+ * Rate network quality from one or more samples, using the worst packet loss,
+ * round-trip time and jitter among them. Returns `null` when no sample reports any of them.
+ * See `NETWORK_QUALITY_THRESHOLDS`.
+ */
+export function rateNetworkQuality(samples: StreamStats[]): NetworkQuality | null {
+  const worst = (field: 'packetLossPercent' | 'roundTripTimeMs' | 'jitterMs') => {
+    const values = samples.map((sample) => sample[field]).filter((value): value is number => value !== undefined);
+    return values.length > 0 ? Math.max(...values) : undefined;
+  };
+  const measured = {
+    packetLossPercent: worst('packetLossPercent'),
+    roundTripTimeMs: worst('roundTripTimeMs'),
+    jitterMs: worst('jitterMs'),
+  };
+  if (Object.values(measured).every((value) => value === undefined)) return null;
+
+  const reaches = (limits: (typeof NETWORK_QUALITY_THRESHOLDS)['fair' | 'poor']) =>
+    (Object.keys(limits) as (keyof typeof limits)[]).some((field) => (measured[field] ?? 0) >= limits[field]);
+  if (reaches(NETWORK_QUALITY_THRESHOLDS.poor)) return 'poor';
+  if (reaches(NETWORK_QUALITY_THRESHOLDS.fair)) return 'fair';
+  return 'good';
+}
+
+/**
+ * Polls stats for every stream and emits them as `onStatsUpdated`.
+ * Runs while at least one caller holds a subscription, at the shortest interval requested.
+ */
+export class StatsUpdater {
+  private readonly module: ExpoRealtimeIvsBroadcastModuleType;
+  private readonly collect: () => Promise<StreamStats[]>;
+  private readonly interval = new SharedInterval((intervalMs) => this.reschedule(intervalMs));
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+  // Set after a failed poll so a run of failures is reported once
+  private failing = false;
+
+  constructor(module: ExpoRealtimeIvsBroadcastModuleType, collect: () => Promise<StreamStats[]>) {
+    this.module = module;
+    this.collect = collect;
+  }
+
+  start(intervalMs: number): EventSubscription {
+    return this.interval.request(intervalMs);
+  }
+
+  private reschedule(intervalMs: number | null) {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = intervalMs !== null ? setInterval(() => this.poll(), intervalMs) : null;
+  }
+
+  private async poll() {
+    // Skip a tick rather than queue requests behind a slow one
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const stats = await this.collect();
+      this.failing = false;
+      if (stats.length > 0 && this.timer) {
+        this.module.emit('onStatsUpdated', { stats });
+      }
+    } catch (e) {
+      if (!this.failing && this.timer) emitStageError(this.module, 'startStatsUpdates', e);
+      this.failing = true;
+    } finally {
+      this.polling = false;
+    }
+  }
+}
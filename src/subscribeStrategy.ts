@@ -0,0 +1,100 @@
+import { EventSubscription } from 'expo-modules-core';
+import type { ExpoRealtimeIvsBroadcastModuleType } from './ExpoRealtimeIvsBroadcastModule';
+import type {
+  ParticipantPayload,
+  SubscribeStrategy,
+  SubscribeType,
+  SubscribeTypeResolver,
+} from './ExpoRealtimeIvsBroadcast.types';
+import { emitStageError } from './stageErrors';
+
+export const DEFAULT_SUBSCRIBE_TYPE: SubscribeType = 'audio_video';
+
+function normalizeStrategy(strategy: SubscribeType | SubscribeTypeResolver | SubscribeStrategy): SubscribeStrategy {
+  if (typeof strategy === 'string') return { default: strategy };
+  if (typeof strategy === 'function') return { resolve: strategy };
+  return strategy;
+}
+
+/**
+ * Keeps the native subscribe strategy in sync with the one set from JavaScript.
+ * Native code only knows a default and a per-participant map, so a `resolve` function is
+ * evaluated here as participants join and its results are sent down as overrides.
+ */
+export class SubscribeStrategyController {
+  private readonly module: ExpoRealtimeIvsBroadcastModuleType;
+  private defaultType: SubscribeType = DEFAULT_SUBSCRIBE_TYPE;
+  private overrides: Record<string, SubscribeType> = {};
+  private resolver: SubscribeTypeResolver | null = null;
+  // Results of `resolver`, keyed by participant ID
+  private resolved: Record<string, SubscribeType> = {};
+  private subscriptions: EventSubscription[] = [];
+  // Bumped on every `set` so a stale snapshot evaluation is dropped
+  private generation = 0;
+
+  constructor(module: ExpoRealtimeIvsBroadcastModuleType) {
+    this.module = module;
+  }
+
+  async set(strategy: SubscribeType | SubscribeTypeResolver | SubscribeStrategy): Promise<void> {
+    const { default: defaultType, participants, resolve } = normalizeStrategy(strategy);
+    const generation = ++this.generation;
+    this.defaultType = defaultType ?? DEFAULT_SUBSCRIBE_TYPE;
+    this.overrides = { ...participants };
+    this.resolver = resolve ?? null;
+    this.resolved = {};
+    this.unsubscribe();
+
+    if (this.resolver) {
+      this.subscribe();
+      // Participants already on the stage have no join event left to evaluate on
+      const snapshot = await this.module.getParticipants();
+      if (generation !== this.generation) return;
+      for (const participant of snapshot) {
+        const { id, streams: _streams, ...info } = participant;
+        this.evaluate({ ...info, participantId: id });
+      }
+    }
+    await this.push();
+  }
+
+  private subscribe() {
+    this.subscriptions = [
+      this.module.addListener('onParticipantJoined', (participant) => {
+        if (this.evaluate(participant)) {
+          this.push().catch((e) => emitStageError(this.module, 'setSubscribeStrategy', e));
+        }
+      }),
+      this.module.addListener('onParticipantLeft', ({ participantId }) => {
+        delete this.resolved[participantId];
+      }),
+      this.module.addListener('onStageConnectionStateChanged', ({ state }) => {
+        if (state === 'disconnected') this.resolved = {};
+      }),
+    ];
+  }
+
+  private unsubscribe() {
+    this.subscriptions.forEach((sub) => sub.remove());
+    this.subscriptions = [];
+  }
+
+  // Returns whether the participant's effective subscribe type may have changed
+  private evaluate(participant: ParticipantPayload): boolean {
+    if (!this.resolver || participant.isLocal) return false;
+    let type: SubscribeType | undefined;
+    try {
+      type = this.resolver(participant);
+    } catch (e) {
+      // The participant keeps its current type
+      emitStageError(this.module, 'setSubscribeStrategy.resolve', e);
+    }
+    if (type === undefined || type === this.resolved[participant.participantId]) return false;
+    this.resolved[participant.participantId] = type;
+    return true;
+  }
+
+  private async push() {
+    await this.module.setSubscribeStrategy(this.defaultType, { ...this.resolved, ...this.overrides });
+  }
+}
@@ -0,0 +1,535 @@
+import type { EventSubscription } from 'expo-modules-core';
+import type { ExpoRealtimeIvsBroadcastModuleType, NativeStreamStats } from '../ExpoRealtimeIvsBroadcastModule';
+import type {
+  AudioLevel,
+  CameraCapabilities,
+  ExpoRealtimeIvsBroadcastModuleEvents,
+  LocalAudioConfig,
+  LocalStreamsConfiguration,
+  LocalVideoConfig,
+  MediaDevice,
+  Participant,
+  ParticipantPayload,
+  PermissionStatusMap,
+  PiPOptions,
+  PlaceholderOptions,
+  PublishedMedia,
+  PublishStatePayload,
+  StageConnectionStatePayload,
+  StageStream,
+  SubscribeType,
+} from '../ExpoRealtimeIvsBroadcast.types';
+
+type Events = ExpoRealtimeIvsBroadcastModuleEvents;
+type EventName = keyof Events;
+type Payload<E extends EventName> = Parameters<Events[E]>[0];
+
+export interface FakeCall {
+  method: string;
+  args: unknown[];
+}
+
+export interface SimulatedParticipant {
+  /** Generated when omitted */
+  participantId?: string;
+  userId?: string;
+  attributes?: Record<string, string>;
+  /**
+   * Streams published on join, reported with `onParticipantStreamsAdded`
+   * @default one audio and one video stream, unmuted
+   */
+  streams?: StageStream[];
+}
+
+export const FAKE_DEVICES: MediaDevice[] = [
+  { urn: 'fake:camera:front', name: 'Front Camera', type: 'camera', position: 'front' },
+  { urn: 'fake:camera:back', name: 'Back Camera', type: 'camera', position: 'back' },
+  { urn: 'fake:microphone:builtin', name: 'iPhone Microphone', type: 'microphone', position: 'other' },
+];
+
+const DEFAULT_CAMERA_CAPABILITIES: CameraCapabilities = {
+  minZoom: 1,
+  maxZoom: 10,
+  zoom: 1,
+  hasTorch: true,
+  torch: false,
+  supportsFocusPoint: true,
+  minExposureBias: -8,
+  maxExposureBias: 8,
+  exposureBias: 0,
+};
+
+// Native modules reject with coded errors; `code` is what the wrappers in index.ts inspect
+function codedError(code: string, message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * In-memory stand-in for the native module, for Jest.
+ *
+ * It keeps the stage state native code would (connection, publishing, participants, devices,
+ * camera and PiP state) and emits the same events, synchronously. Every call is recorded in `calls`.
+ * The `simulate*` methods play the part of the SDK and remote participants.
+ */
+export class FakeExpoRealtimeIvsBroadcastModule implements ExpoRealtimeIvsBroadcastModuleType {
+  /** Every module method called, in order */
+  calls: FakeCall[] = [];
+  /** Returned by `requestPermissions` */
+  permissions: PermissionStatusMap = { camera: 'granted', microphone: 'granted' };
+  /** Returned by `isPictureInPictureSupported` */
+  pipSupported = true;
+
+  connectionState: StageConnectionStatePayload['state'] = 'disconnected';
+  publishState: PublishStatePayload['state'] = 'not_published';
+  token: string | null = null;
+  audioConfig: LocalAudioConfig = {};
+  videoConfig: LocalVideoConfig = {};
+  localStreamsInitialized = false;
+  published = false;
+  publishedMedia: PublishedMedia = { audio: true, video: true };
+  microphoneMuted = false;
+  cameraMuted = false;
+  placeholderOptions: PlaceholderOptions = {};
+  devices: MediaDevice[] = [...FAKE_DEVICES];
+  cameraUrn = FAKE_DEVICES[0].urn;
+  microphoneUrn = FAKE_DEVICES[2].urn;
+  cameraCapabilities: CameraCapabilities = { ...DEFAULT_CAMERA_CAPABILITIES };
+  subscribeStrategy: { defaultType: SubscribeType; overrides: Record<string, SubscribeType> } = {
+    defaultType: 'audio_video',
+    overrides: {},
+  };
+  audioLevelsIntervalMs: number | null = null;
+  /** Returned by `getStreamStats`, filtered by its arguments */
+  streamStats: NativeStreamStats[] = [];
+  pipEnabled = false;
+  pipActive = false;
+
+  private participants = new Map<string, Participant>();
+  // Each set only ever holds listeners for its own event; `addListener` and `emit` keep the payload types matched
+  private listeners = new Map<EventName, Set<(event: never) => void>>();
+  private nextParticipantId = 1;
+
+  // MARK: - Events
+
+  addListener<E extends EventName>(eventName: E, listener: (event: Payload<E>) => void): EventSubscription {
+    const set = this.listeners.get(eventName) ?? new Set();
+    set.add(listener);
+    this.listeners.set(eventName, set);
+    return { remove: () => set.delete(listener) };
+  }
+
+  removeListeners(_count: number): void {
+    // Listeners are removed through their subscriptions
+  }
+
+  emit<E extends EventName>(eventName: E, event: Payload<E>): void {
+    [...(this.listeners.get(eventName) ?? [])].forEach((listener) => (listener as (event: Payload<E>) => void)(event));
+  }
+
+  listenerCount(eventName: EventName): number {
+    return this.listeners.get(eventName)?.size ?? 0;
+  }
+
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+
+  /**
+   * Restore the initial state and forget recorded calls. Listeners are kept, since the library
+   * subscribes some of its own when it is first imported.
+   */
+  reset(): void {
+    const listeners = this.listeners;
+    Object.assign(this, new FakeExpoRealtimeIvsBroadcastModule());
+    this.listeners = listeners;
+  }
+
+  private record(method: string, args: unknown[]) {
+    this.calls.push({ method, args });
+  }
+
+  /** Calls recorded for one method */
+  callsTo(method: keyof ExpoRealtimeIvsBroadcastModuleType): unknown[][] {
+    return this.calls.filter((call) => call.method === method).map((call) => call.args);
+  }
+
+  // MARK: - Stage
+
+  async initializeStage(audioConfig?: LocalAudioConfig, videoConfig?: LocalVideoConfig): Promise<void> {
+    this.record('initializeStage', [audioConfig, videoConfig]);
+    if (audioConfig) this.audioConfig = audioConfig;
+    if (videoConfig) this.videoConfig = videoConfig;
+  }
+
+  async initializeLocalStreams(
+    audioConfig?: LocalAudioConfig,
+    videoConfig?: LocalVideoConfig
+  ): Promise<LocalStreamsConfiguration> {
+    this.record('initializeLocalStreams', [audioConfig, videoConfig]);
+    if (audioConfig) this.audioConfig = audioConfig;
+    if (videoConfig) this.videoConfig = videoConfig;
+    this.localStreamsInitialized = true;
+    return this.effectiveConfiguration();
+  }
+
+  private effectiveConfiguration(): LocalStreamsConfiguration {
+    const audio = this.audioConfig;
+    const video = this.videoConfig;
+    return {
+      audio: {
+        bitrate: audio.bitrate ?? 64_000,
+        channels: audio.channels ?? 1,
+        echoCancellation: audio.echoCancellation ?? true,
+        autoGainControl: audio.autoGainControl ?? true,
+        noiseSuppression: audio.noiseSuppression ?? true,
+      },
+      video:
+        video.enabled === false
+          ? null
+          : {
+              width: video.width ?? 720,
+              height: video.height ?? 1280,
+              targetFramerate: video.targetFramerate ?? 30,
+              minBitrate: video.minBitrate ?? 300_000,
+              maxBitrate: video.maxBitrate ?? 2_500_000,
+            },
+    };
+  }
+
+  async joinStage(token: string, options?: { targetParticipantId?: string }): Promise<void> {
+    this.record('joinStage', [token, options]);
+    this.token = token;
+    this.setConnectionState('connecting');
+    this.setConnectionState('connected');
+    this.updatePublishState();
+  }
+
+  async leaveStage(): Promise<void> {
+    this.record('leaveStage', []);
+    this.token = null;
+    this.participants.clear();
+    this.setConnectionState('disconnected');
+    this.updatePublishState();
+  }
+
+  async setStreamsPublished(published: boolean): Promise<void> {
+    this.record('setStreamsPublished', [published]);
+    this.published = published;
+    this.updatePublishState();
+  }
+
+  async setPublishedMedia(media: PublishedMedia): Promise<void> {
+    this.record('setPublishedMedia', [media]);
+    this.publishedMedia = { ...media };
+    if (this.publishState === 'published') this.emitPublishState('published');
+  }
+
+  async getPublishedMedia(): Promise<PublishedMedia> {
+    this.record('getPublishedMedia', []);
+    return { ...this.publishedMedia };
+  }
+
+  async getParticipants(): Promise<Participant[]> {
+    this.record('getParticipants', []);
+    return [...this.participants.values()].map((p) => ({ ...p, streams: p.streams.map((s) => ({ ...s })) }));
+  }
+
+  async setSubscribeStrategy(defaultType: SubscribeType, overrides: Record<string, SubscribeType>): Promise<void> {
+    this.record('setSubscribeStrategy', [defaultType, overrides]);
+    this.subscribeStrategy = { defaultType, overrides: { ...overrides } };
+  }
+
+  async requestPermissions(): Promise<PermissionStatusMap> {
+    this.record('requestPermissions', []);
+    return { ...this.permissions };
+  }
+
+  private setConnectionState(state: StageConnectionStatePayload['state'], error?: string) {
+    this.connectionState = state;
+    this.emit('onStageConnectionStateChanged', error !== undefined ? { state, error } : { state });
+  }
+
+  // Publishing follows the SDK: attempting, then published, once connected with streams and publishing on
+  private updatePublishState() {
+    const shouldPublish = this.published && this.localStreamsInitialized && this.connectionState === 'connected';
+    if (shouldPublish && this.publishState !== 'published') {
+      this.emitPublishState('attempting');
+      this.emitPublishState('published');
+    } else if (!shouldPublish && this.publishState !== 'not_published') {
+      this.emitPublishState('not_published');
+    }
+  }
+
+  private emitPublishState(state: PublishStatePayload['state']) {
+    this.publishState = state;
+    const live = state === 'published';
+    const media = {
+      audio: live && this.publishedMedia.audio,
+      video: live && this.publishedMedia.video && this.videoConfig.enabled !== false,
+    };
+    this.emit('onPublishStateChanged', { state, media });
+  }
+
+  // MARK: - Local Media
+
+  async setMicrophoneMuted(muted: boolean): Promise<void> {
+    this.record('setMicrophoneMuted', [muted]);
+    this.microphoneMuted = muted;
+  }
+
+  async setCameraMuted(muted: boolean, placeholderText?: string | null): Promise<void> {
+    this.record('setCameraMuted', [muted, placeholderText]);
+    if (placeholderText != null) this.placeholderOptions = { ...this.placeholderOptions, text: placeholderText };
+    this.cameraMuted = muted;
+    this.emit('onCameraMuteStateChanged', { muted, placeholderActive: muted });
+  }
+
+  async setPlaceholderOptions(options: PlaceholderOptions): Promise<void> {
+    this.record('setPlaceholderOptions', [options]);
+    this.placeholderOptions = { ...options };
+  }
+
+  async isCameraMuted(): Promise<boolean> {
+    this.record('isCameraMuted', []);
+    return this.cameraMuted;
+  }
+
+  async setAudioLevelsInterval(intervalMs: number | null): Promise<void> {
+    this.record('setAudioLevelsInterval', [intervalMs]);
+    this.audioLevelsIntervalMs = intervalMs;
+  }
+
+  async getStreamStats(participantId?: string | null, deviceUrn?: string | null): Promise<NativeStreamStats[]> {
+    this.record('getStreamStats', [participantId, deviceUrn]);
+    return this.streamStats.filter(
+      (s) => (participantId == null || s.participantId === participantId) && (deviceUrn == null || s.deviceUrn === deviceUrn)
+    );
+  }
+
+  // MARK: - Devices
+
+  async swapCamera(): Promise<void> {
+    this.record('swapCamera', []);
+    const next = this.devices.find((d) => d.type === 'camera' && d.urn !== this.cameraUrn);
+    if (next) this.switchCamera(next);
+  }
+
+  async listDevices(): Promise<MediaDevice[]> {
+    this.record('listDevices', []);
+    return this.devices.map((d) => ({ ...d }));
+  }
+
+  async selectCamera(urn: string): Promise<void> {
+    this.record('selectCamera', [urn]);
+    const camera = this.findDevice('camera', urn);
+    if (camera.urn !== this.cameraUrn) this.switchCamera(camera);
+  }
+
+  async selectMicrophone(urn: string): Promise<void> {
+    this.record('selectMicrophone', [urn]);
+    this.microphoneUrn = this.findDevice('microphone', urn).urn;
+  }
+
+  private findDevice(type: MediaDevice['type'], urn: string): MediaDevice {
+    const device = this.devices.find((d) => d.type === type && d.urn === urn);
+    if (!device) throw codedError('ERR_DEVICE_NOT_FOUND', `No ${type} device found with URN ${urn}`);
+    return device;
+  }
+
+  private switchCamera(camera: MediaDevice) {
+    this.cameraUrn = camera.urn;
+    if (!this.localStreamsInitialized) return;
+    this.emit('onCameraSwapped', { device: { ...camera }, newCameraURN: camera.urn, newCameraName: camera.name });
+  }
+
+  // MARK: - Camera Controls
+
+  async getCameraCapabilities(): Promise<CameraCapabilities> {
+    this.record('getCameraCapabilities', []);
+    this.requireCamera();
+    return { ...this.cameraCapabilities };
+  }
+
+  async setZoom(factor: number): Promise<void> {
+    this.record('setZoom', [factor]);
+    const { minZoom, maxZoom } = this.requireCamera();
+    if (maxZoom <= minZoom) throw this.unsupported('zoom');
+    this.cameraCapabilities.zoom = clamp(factor, minZoom, maxZoom);
+  }
+
+  async setTorch(on: boolean): Promise<void> {
+    this.record('setTorch', [on]);
+    if (!this.requireCamera().hasTorch) throw this.unsupported('torch');
+    this.cameraCapabilities.torch = on;
+  }
+
+  async setFocusPoint(x: number, y: number): Promise<void> {
+    this.record('setFocusPoint', [x, y]);
+    if (!this.requireCamera().supportsFocusPoint) throw this.unsupported('focus');
+  }
+
+  async setExposureBias(value: number): Promise<void> {
+    this.record('setExposureBias', [value]);
+    const { minExposureBias, maxExposureBias } = this.requireCamera();
+    if (maxExposureBias <= minExposureBias) throw this.unsupported('exposure');
+    this.cameraCapabilities.exposureBias = clamp(value, minExposureBias, maxExposureBias);
+  }
+
+  private requireCamera(): CameraCapabilities {
+    if (!this.localStreamsInitialized || this.videoConfig.enabled === false) {
+      throw codedError('ERR_NO_ACTIVE_CAMERA', 'No camera is active. Initialize local streams with video enabled first.');
+    }
+    return this.cameraCapabilities;
+  }
+
+  private unsupported(control: string): Error {
+    return codedError('ERR_CAMERA_CONTROL_UNSUPPORTED', `The active camera does not support ${control}`);
+  }
+
+  // MARK: - Picture-in-Picture
+
+  async enablePictureInPicture(options?: PiPOptions): Promise<boolean> {
+    this.record('enablePictureInPicture', [options]);
+    this.pipEnabled = this.pipSupported;
+    return this.pipEnabled;
+  }
+
+  async disablePictureInPicture(): Promise<void> {
+    this.record('disablePictureInPicture', []);
+    if (this.pipActive) await this.stopPictureInPicture();
+    this.pipEnabled = false;
+  }
+
+  async startPictureInPicture(): Promise<void> {
+    this.record('startPictureInPicture', []);
+    if (!this.pipEnabled) {
+      this.emit('onPiPError', { error: 'Picture-in-Picture is not enabled' });
+      return;
+    }
+    this.pipActive = true;
+    this.emit('onPiPStateChanged', { state: 'started' });
+  }
+
+  async stopPictureInPicture(): Promise<void> {
+    this.record('stopPictureInPicture', []);
+    if (!this.pipActive) return;
+    this.pipActive = false;
+    this.emit('onPiPStateChanged', { state: 'stopped' });
+  }
+
+  async isPictureInPictureActive(): Promise<boolean> {
+    this.record('isPictureInPictureActive', []);
+    return this.pipActive;
+  }
+
+  async isPictureInPictureSupported(): Promise<boolean> {
+    this.record('isPictureInPictureSupported', []);
+    return this.pipSupported;
+  }
+
+  // MARK: - Simulation
+
+  /**
+   * A remote participant joins and publishes its streams.
+   * @returns The participant as `getParticipants` now reports it
+   */
+  simulateParticipantJoin(participant: SimulatedParticipant = {}): Participant {
+    const id = participant.participantId ?? `participant-${this.nextParticipantId++}`;
+    const streams = participant.streams ?? [
+      { deviceUrn: `${id}:audio`, mediaType: 'audio', muted: false },
+      { deviceUrn: `${id}:video`, mediaType: 'video', muted: false },
+    ];
+    const joined: Participant = {
+      id,
+      userId: participant.userId,
+      attributes: { ...participant.attributes },
+      isLocal: false,
+      joinedAt: Date.now(),
+      streams: [],
+    };
+    this.participants.set(id, joined);
+    this.emit('onParticipantJoined', this.participantPayload(joined));
+    if (streams.length > 0) this.simulateStreamsAdded(id, streams);
+    return joined;
+  }
+
+  simulateParticipantLeave(participantId: string): void {
+    const participant = this.requireParticipant(participantId);
+    if (participant.streams.length > 0) {
+      this.simulateStreamsRemoved(participantId, participant.streams.map((s) => s.deviceUrn));
+    }
+    this.participants.delete(participantId);
+    this.emit('onParticipantLeft', this.participantPayload(participant));
+  }
+
+  simulateStreamsAdded(participantId: string, streams: StageStream[]): void {
+    const participant = this.requireParticipant(participantId);
+    participant.streams.push(...streams.map((s) => ({ ...s })));
+    this.emit('onParticipantStreamsAdded', { participantId, streams: streams.map((s) => ({ ...s })) });
+  }
+
+  simulateStreamsRemoved(participantId: string, deviceUrns: string[]): void {
+    const participant = this.requireParticipant(participantId);
+    participant.streams = participant.streams.filter((s) => !deviceUrns.includes(s.deviceUrn));
+    this.emit('onParticipantStreamsRemoved', { participantId, streams: deviceUrns.map((deviceUrn) => ({ deviceUrn })) });
+  }
+
+  /** A remote participant mutes or unmutes one of its streams */
+  simulateStreamMuted(participantId: string, deviceUrn: string, muted: boolean): void {
+    const stream = this.requireParticipant(participantId).streams.find((s) => s.deviceUrn === deviceUrn);
+    if (!stream) throw new Error(`Participant ${participantId} has no stream ${deviceUrn}`);
+    if (stream.muted === muted) return;
+    stream.muted = muted;
+    this.emit('onParticipantStreamsMutedChanged', { participantId, streams: [{ ...stream }] });
+  }
+
+  /**
+   * The connection drops. Remote participants are gone and publishing stops.
+   * With an `error`, a `reconnect` policy passed to `joinStage` starts re-joining.
+   */
+  simulateDisconnect(error?: string): void {
+    this.participants.clear();
+    this.setConnectionState('disconnected', error);
+    this.updatePublishState();
+  }
+
+  /**
+   * The SDK reports an error. Outside web, `classifyStageError` categorizes it by `description`,
+   * e.g. `simulateStageError(2, 'Token expired')`; on web by `code`, see `STAGE_ERROR_CODES`.
+   * A fatal error also disconnects the stage, as the SDK does.
+   */
+  simulateStageError(code: number, description = `Simulated stage error ${code}`, isFatal = true): void {
+    this.emit('onStageError', { code, description, source: 'FakeExpoRealtimeIvsBroadcastModule', isFatal });
+    if (isFatal && this.connectionState !== 'disconnected') this.simulateDisconnect(description);
+  }
+
+  /** The SDK refuses to publish, e.g. because the stage is at capacity */
+  simulatePublishFailed(error = 'Publish failed'): void {
+    this.publishState = 'failed';
+    this.emit('onPublishStateChanged', { state: 'failed', error, media: { audio: false, video: false } });
+  }
+
+  /** One `onAudioLevels` report. Nothing is emitted unless `startAudioLevelUpdates` is active. */
+  simulateAudioLevels(levels: AudioLevel[]): void {
+    if (this.audioLevelsIntervalMs === null) return;
+    this.emit('onAudioLevels', { levels });
+  }
+
+  /** A device is connected or disconnected; replaces the device list */
+  simulateDevicesChanged(devices: MediaDevice[]): void {
+    this.devices = devices.map((d) => ({ ...d }));
+    this.emit('onDevicesChanged', { devices: devices.map((d) => ({ ...d })) });
+  }
+
+  private requireParticipant(participantId: string): Participant {
+    const participant = this.participants.get(participantId);
+    if (!participant) throw new Error(`No participant ${participantId} on the fake stage`);
+    return participant;
+  }
+
+  private participantPayload({ id, streams: _streams, ...info }: Participant): ParticipantPayload {
+    return { ...info, participantId: id };
+  }
+}
@@ -0,0 +1,45 @@
+import { EventLog, withCallRecording } from '../eventRecorder';
+import { FakeExpoRealtimeIvsBroadcastModule } from './FakeExpoRealtimeIvsBroadcastModule';
+import { Replay, ReplayOptions } from './replay';
+
+export { FakeExpoRealtimeIvsBroadcastModule, FAKE_DEVICES } from './FakeExpoRealtimeIvsBroadcastModule';
+export type { FakeCall, SimulatedParticipant } from './FakeExpoRealtimeIvsBroadcastModule';
+export { Replay } from './replay';
+export type { ReplayOptions } from './replay';
+export { setIvsWebBroadcastSdk } from '../ivsWebBroadcast';
+export type { IvsWebBroadcastSdk } from '../ivsWebBroadcast';
+
+/**
+ * The fake the library uses once the native module is mocked with `mockNativeModule`.
+ * Call `fakeModule.reset()` between tests.
+ */
+export const fakeModule = new FakeExpoRealtimeIvsBroadcastModule();
+
+/**
+ * Factory for `jest.mock` that replaces the native module with `fakeModule`. As with the real module,
+ * calls go through the recording wrapper, so `startEventRecording` logs them:
+ *
+ * @example
+ * jest.mock('expo-realtime-ivs-broadcast/build/ExpoRealtimeIvsBroadcastModule', () =>
+ *   require('expo-realtime-ivs-broadcast/testing').mockNativeModule()
+ * );
+ */
+export function mockNativeModule() {
+  return { __esModule: true, default: withCallRecording(fakeModule) };
+}
+
+/**
+ * Feed a recording from `startEventRecording` back through the fake module, to debug hooks
+ * and screens offline against what a user's device reported.
+ *
+ * @example
+ * const session = replay(require('./bug-1234.json'));
+ * render(<ViewerScreen />);
+ * act(() => {
+ *   session.advanceTo(5_000);
+ * });
+ * expect(screen.queryByTestId('remote-video')).toBeTruthy();
+ */
+export function replay(log: EventLog, options: ReplayOptions = {}): Replay {
+  return new Replay(log, options.module ?? fakeModule, options);
+}
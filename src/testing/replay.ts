@@ -0,0 +1,149 @@
+import type { ExpoRealtimeIvsBroadcastModuleEvents } from '../ExpoRealtimeIvsBroadcast.types';
+import { EVENT_LOG_VERSION, EventLog, RecordedCall, RecordedEvent } from '../eventRecorder';
+import type { FakeExpoRealtimeIvsBroadcastModule } from './FakeExpoRealtimeIvsBroadcastModule';
+
+type EventName = keyof ExpoRealtimeIvsBroadcastModuleEvents;
+
+export interface ReplayOptions {
+  /**
+   * Answer module calls with the results recorded for the same method, in order.
+   * Once a method's recorded results run out, the fake answers it as usual.
+   * @default true
+   */
+  recordedResults?: boolean;
+  /**
+   * Module the events are emitted from
+   * @default fakeModule
+   */
+  module?: FakeExpoRealtimeIvsBroadcastModule;
+}
+
+// Rebuild what the native module returned; rejections keep their message and code
+function settle(call: RecordedCall): Promise<unknown> {
+  if (call.error) {
+    const { message, code } = call.error;
+    return Promise.reject(Object.assign(new Error(message), code !== undefined ? { code } : {}));
+  }
+  return Promise.resolve(call.result);
+}
+
+/**
+ * Plays an `EventLog` back through a fake module; create one with `replay`.
+ * Events are emitted only when asked, so each step can be inspected. `play()` follows the recorded timing instead.
+ */
+export class Replay {
+  private readonly module: FakeExpoRealtimeIvsBroadcastModule;
+  private readonly events: RecordedEvent[];
+  private readonly patched: string[] = [];
+  private position = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private finishPlay: (() => void) | null = null;
+
+  constructor(log: EventLog, module: FakeExpoRealtimeIvsBroadcastModule, options: ReplayOptions = {}) {
+    if (log.version !== EVENT_LOG_VERSION) {
+      throw new Error(`Unsupported event log version ${log.version}; expected ${EVENT_LOG_VERSION}`);
+    }
+    this.module = module;
+    this.events = log.entries.filter((entry): entry is RecordedEvent => entry.kind === 'event');
+    if (options.recordedResults ?? true) {
+      this.answerWithRecordedResults(log.entries.filter((entry): entry is RecordedCall => entry.kind === 'call'));
+    }
+  }
+
+  /** Recording time, in milliseconds, of the last event emitted */
+  get time(): number {
+    return this.position > 0 ? this.events[this.position - 1].at : 0;
+  }
+
+  get done(): boolean {
+    return this.position >= this.events.length;
+  }
+
+  /** Events not emitted yet */
+  get remaining(): RecordedEvent[] {
+    return this.events.slice(this.position);
+  }
+
+  /** Emit the next event. Returns it, or `undefined` when the log is finished. */
+  step(): RecordedEvent | undefined {
+    const event = this.events[this.position];
+    if (!event) return undefined;
+    this.position++;
+    this.module.emit(event.name as EventName, event.payload as never);
+    return event;
+  }
+
+  /** Emit every event recorded up to `at` milliseconds into the recording */
+  advanceTo(at: number): RecordedEvent[] {
+    const emitted: RecordedEvent[] = [];
+    while (!this.done && this.events[this.position].at <= at) {
+      emitted.push(this.step()!);
+    }
+    return emitted;
+  }
+
+  /** Emit every remaining event */
+  playAll(): RecordedEvent[] {
+    return this.advanceTo(Infinity);
+  }
+
+  /**
+   * Emit the remaining events with the recorded gaps between them, divided by `speed`.
+   * Resolves when the log is finished or `stop()` is called.
+   */
+  play(speed = 1): Promise<void> {
+    this.pause();
+    return new Promise((resolve) => {
+      this.finishPlay = resolve;
+      const next = () => {
+        if (this.done) {
+          this.pause();
+          return;
+        }
+        const delay = Math.max(this.events[this.position].at - this.time, 0) / speed;
+        this.timer = setTimeout(() => {
+          this.step();
+          next();
+        }, delay);
+      };
+      next();
+    });
+  }
+
+  /** Stop `play()` and give the module its own behavior back */
+  stop(): void {
+    this.pause();
+    const module = this.module as unknown as Record<string, unknown>;
+    this.patched.forEach((method) => delete module[method]);
+    this.patched.length = 0;
+  }
+
+  private pause() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.finishPlay?.();
+    this.finishPlay = null;
+  }
+
+  // Shadow the fake's methods on the instance; `stop()` deletes them to expose the originals again
+  private answerWithRecordedResults(calls: RecordedCall[]) {
+    const module = this.module as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>;
+    const byMethod = new Map<string, RecordedCall[]>();
+    // Calls still pending when the recording stopped have nothing to answer with
+    calls.filter((call) => call.durationMs !== undefined).forEach((call) => {
+      byMethod.set(call.method, [...(byMethod.get(call.method) ?? []), call]);
+    });
+
+    byMethod.forEach((queue, method) => {
+      const original = module[method];
+      if (typeof original !== 'function') return;
+      module[method] = (...args: unknown[]) => {
+        const recorded = queue.shift();
+        if (!recorded) return original.apply(this.module, args);
+        this.module.calls.push({ method, args });
+        return settle(recorded);
+      };
+      this.patched.push(method);
+    });
+  }
+}
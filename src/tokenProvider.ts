@@ -0,0 +1,111 @@
+import type { ExpoRealtimeIvsBroadcastModuleType } from './ExpoRealtimeIvsBroadcastModule';
+import type { TokenProvider, TokenProviderPhase } from './ExpoRealtimeIvsBroadcast.types';
+import { TokenProviderError } from './errors';
+import { assertTokenCanJoin, isParticipantTokenExpired, ParticipantToken } from './participantToken';
+
+export const DEFAULT_TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+// Delay before retrying a failed ahead-of-expiry refresh
+const REFRESH_RETRY_MS = 30_000;
+// setTimeout overflows past 2^31 - 1 ms
+const MAX_TIMER_MS = 2_147_483_647;
+
+/**
+ * Hands out participant tokens for joining and re-joining.
+ * A fixed token is returned as-is; a `TokenProvider` is called when no cached token
+ * is valid for at least `marginMs`, and again ahead of expiry so a re-join never waits on it.
+ */
+export class ParticipantTokenSource {
+  private readonly module: ExpoRealtimeIvsBroadcastModuleType;
+  private readonly provider: TokenProvider | null;
+  private readonly marginMs: number;
+  private token: string | null;
+  private parsed: ParticipantToken | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private disposed = false;
+
+  constructor(
+    module: ExpoRealtimeIvsBroadcastModuleType,
+    source: string | TokenProvider,
+    marginMs = DEFAULT_TOKEN_REFRESH_MARGIN_MS
+  ) {
+    this.module = module;
+    this.provider = typeof source === 'function' ? source : null;
+    this.token = typeof source === 'string' ? source : null;
+    this.marginMs = marginMs;
+  }
+
+  /** Whether a new token can be obtained once the current one expires */
+  get refreshable(): boolean {
+    return this.provider !== null;
+  }
+
+  /** Decoded form of the token most recently handed out */
+  get current(): ParticipantToken | null {
+    return this.parsed;
+  }
+
+  /**
+   * Resolve a token to join with. Fixed tokens are checked for expiry;
+   * provider failures are emitted as `onTokenProviderError` and rethrown as `TokenProviderError`.
+   */
+  async get(phase: Exclude<TokenProviderPhase, 'refresh'>): Promise<string> {
+    if (!this.provider) {
+      this.parsed = assertTokenCanJoin(this.token!);
+      return this.token!;
+    }
+    if (this.token && this.parsed && !isParticipantTokenExpired(this.parsed, this.marginMs)) {
+      return this.token;
+    }
+    return await this.fetch(phase);
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.clearRefreshTimer();
+  }
+
+  private async fetch(phase: TokenProviderPhase): Promise<string> {
+    try {
+      const token = await this.provider!();
+      const parsed = assertTokenCanJoin(token);
+      if (this.disposed) return token;
+      this.token = token;
+      this.parsed = parsed;
+      this.scheduleRefresh();
+      return token;
+    } catch (e) {
+      const error = new TokenProviderError(phase, e);
+      if (!this.disposed) {
+        this.module.emit('onTokenProviderError', { phase, error: error.message });
+      }
+      throw error;
+    }
+  }
+
+  private scheduleRefresh() {
+    this.clearRefreshTimer();
+    if (!this.parsed) return;
+    const delay = this.parsed.expiresAt.getTime() - this.marginMs - Date.now();
+    this.startRefreshTimer(Math.max(delay, 0));
+  }
+
+  private startRefreshTimer(delay: number) {
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.fetch('refresh').catch(() => {
+        // Already reported; keep trying while the cached token is still usable
+        if (!this.disposed && this.parsed && !isParticipantTokenExpired(this.parsed)) {
+          this.startRefreshTimer(REFRESH_RETRY_MS);
+        }
+      });
+    }, Math.min(delay, MAX_TIMER_MS));
+  }
+
+  private clearRefreshTimer() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import { addOnAudioLevelsListener, startAudioLevelUpdates } from './index';
+import { useStageParticipants } from './useStageParticipants';
+import { ActiveSpeakerDetector, ActiveSpeakerOptions, DEFAULT_AUDIO_LEVELS_INTERVAL_MS } from './activeSpeaker';
+import type { AudioLevelsPayload, Participant } from './ExpoRealtimeIvsBroadcast.types';
+
+export interface ActiveSpeakerHookOptions extends ActiveSpeakerOptions {
+  /**
+   * Let the local participant become the active speaker
+   * @default false
+   */
+  includeLocal?: boolean;
+  /** @default 100 */
+  intervalMs?: number;
+}
+
+export interface ActiveSpeaker {
+  /** `null` until someone speaks, or after the active speaker leaves */
+  activeSpeakerId: string | null;
+  /** The active speaker's entry from `useStageParticipants`; `null` when it is the local participant */
+  activeSpeaker: Participant | null;
+  isLocal: boolean;
+}
+
+export const useActiveSpeaker = (options: ActiveSpeakerHookOptions = {}): ActiveSpeaker => {
+  const {
+    includeLocal = false,
+    intervalMs = DEFAULT_AUDIO_LEVELS_INTERVAL_MS,
+    speakingThreshold,
+    silenceThreshold,
+    minHoldMs,
+  } = options;
+  const { participants } = useStageParticipants();
+  const [active, setActive] = useState<{ id: string; isLocal: boolean } | null>(null);
+
+  useEffect(() => {
+    const detector = new ActiveSpeakerDetector({ speakingThreshold, silenceThreshold, minHoldMs });
+    // The active speaker can be missing from a report, so remember which IDs are ours
+    const localIds = new Set<string>();
+
+    const onAudioLevels = ({ levels }: AudioLevelsPayload) => {
+      const considered = includeLocal ? levels : levels.filter((l) => !l.isLocal);
+      considered.forEach((l) => l.isLocal && localIds.add(l.participantId));
+      const id = detector.update(considered);
+      const isLocal = id !== null && localIds.has(id);
+      setActive((prev) => (prev?.id === id && prev.isLocal === isLocal ? prev : id === null ? null : { id, isLocal }));
+    };
+
+    const subscriptions = [addOnAudioLevelsListener(onAudioLevels), startAudioLevelUpdates(intervalMs)];
+
+    return () => {
+      subscriptions.forEach((sub) => sub.remove());
+      setActive(null);
+    };
+  }, [includeLocal, intervalMs, speakingThreshold, silenceThreshold, minHoldMs]);
+
+  // A remote speaker who has left is no longer active
+  const activeSpeaker = active && !active.isLocal ? participants.find((p) => p.id === active.id) ?? null : null;
+  const activeSpeakerId = active?.isLocal || activeSpeaker ? active!.id : null;
+
+  return { activeSpeakerId, activeSpeaker, isLocal: activeSpeakerId !== null && active!.isLocal };
+};
@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import {
+  addOnStageConnectionStateChangedListener,
+  addOnPublishStateChangedListener,
+  addOnStageErrorListener,
+} from './index';
+import { classifyStageError } from './stageErrors';
+import type { StageError } from './errors';
+import type {
+  PublishedMedia,
+  PublishStatePayload,
+  StageConnectionStatePayload,
+  StageErrorPayload,
+} from './ExpoRealtimeIvsBroadcast.types';
+
+export interface StageConnection {
+  connectionState: StageConnectionStatePayload['state'];
+  publishState: PublishStatePayload['state'];
+  /** Media kinds currently live on the stage */
+  publishedMedia: PublishedMedia;
+  /** Most recent error from the stage, cleared once the stage connects again */
+  lastError: StageError | null;
+  isConnected: boolean;
+  isPublished: boolean;
+}
+
+const NOTHING_PUBLISHED: PublishedMedia = { audio: false, video: false };
+
+export const useStageConnection = (): StageConnection => {
+  const [connectionState, setConnectionState] = useState<StageConnectionStatePayload['state']>('disconnected');
+  const [publishState, setPublishState] = useState<PublishStatePayload['state']>('not_published');
+  const [publishedMedia, setPublishedMedia] = useState<PublishedMedia>(NOTHING_PUBLISHED);
+  const [lastError, setLastError] = useState<StageError | null>(null);
+
+  useEffect(() => {
+    const onConnectionStateChanged = (p: StageConnectionStatePayload) => {
+      setConnectionState(p.state);
+      if (p.state === 'connected') {
+        setLastError(null);
+      } else if (p.state !== 'connecting') {
+        // Publishing ends with the connection
+        setPublishState('not_published');
+        setPublishedMedia(NOTHING_PUBLISHED);
+      }
+      if (p.error) {
+        setLastError(classifyStageError({ description: p.error, source: 'onStageConnectionStateChanged' }));
+      }
+    };
+
+    const onPublishStateChanged = (p: PublishStatePayload) => {
+      setPublishState(p.state);
+      setPublishedMedia(p.media ?? NOTHING_PUBLISHED);
+      if (p.error) {
+        setLastError(classifyStageError({ description: p.error, source: 'onPublishStateChanged' }));
+      }
+    };
+
+    const onStageError = (p: StageErrorPayload) => {
+      setLastError(classifyStageError(p));
+    };
+
+    // Subscribed per effect run, so StrictMode's mount/unmount/mount leaves exactly one set of listeners
+    const subscriptions = [
+      addOnStageConnectionStateChangedListener(onConnectionStateChanged),
+      addOnPublishStateChangedListener(onPublishStateChanged),
+      addOnStageErrorListener(onStageError),
+    ];
+
+    return () => {
+      subscriptions.forEach((sub) => sub.remove());
+    };
+  }, []);
+
+  return {
+    connectionState,
+    publishState,
+    publishedMedia,
+    lastError,
+    isConnected: connectionState === 'connected',
+    isPublished: publishState === 'published',
+  };
+};
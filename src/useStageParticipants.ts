@@ -1,47 +1,73 @@
 import { useState, useEffect } from 'react';
+import ExpoRealtimeIvsBroadcastModule from './ExpoRealtimeIvsBroadcastModule';
 import {
   addOnParticipantJoinedListener,
   addOnParticipantLeftListener,
   addOnParticipantStreamsAddedListener,
   addOnParticipantStreamsRemovedListener,
+  addOnParticipantStreamsMutedChangedListener,
+  addOnStageConnectionStateChangedListener,
+  getParticipants,
 } from './index';
 import type {
   Participant,
   ParticipantPayload,
   ParticipantStreamsPayload,
   ParticipantStreamsRemovedPayload,
+  ParticipantStreamsMutedChangedPayload,
+  ParticipantInfo,
+  StageConnectionStatePayload,
+  StageStream,
 } from './ExpoRealtimeIvsBroadcast.types';
+import { emitStageError } from './stageErrors';
+
+// Add streams and/or identity fields to a participant,
+// creating the entry if streams arrive before the join event
+function upsertParticipant(
+  prev: Participant[],
+  participantId: string,
+  streams: StageStream[],
+  info?: ParticipantInfo
+): Participant[] {
+  const existing = prev.find((participant) => participant.id === participantId);
+  if (!existing) {
+    const placeholder: ParticipantInfo = { attributes: {}, isLocal: false, joinedAt: Date.now() };
+    return [...prev, { ...(info ?? placeholder), id: participantId, streams }];
+  }
+  const existingUrns = new Set(existing.streams.map((s) => s.deviceUrn));
+  const newStreams = streams.filter((s) => !existingUrns.has(s.deviceUrn));
+  if (newStreams.length === 0 && !info) return prev;
+  return prev.map((participant) =>
+    participant.id === participantId
+      ? { ...participant, ...info, id: participantId, streams: [...participant.streams, ...newStreams] }
+      : participant
+  );
+}
+
+function participantInfo({ userId, attributes, isLocal, joinedAt }: ParticipantInfo): ParticipantInfo {
+  return { userId, attributes: attributes ?? {}, isLocal: isLocal ?? false, joinedAt: joinedAt ?? Date.now() };
+}
 
 export const useStageParticipants = () => {
   const [participants, setParticipants] = useState<Participant[]>([]);
 
   useEffect(() => {
+    let active = true;
+    // Participants that left while the snapshot was in flight must not be brought back by it
+    const leftDuringHydration = new Set<string>();
+
     const onParticipantJoined = (p: ParticipantPayload) => {
-      setParticipants((prev) => [
-        ...prev,
-        { id: p.participantId, streams: [] },
-      ]);
+      leftDuringHydration.delete(p.participantId);
+      setParticipants((prev) => upsertParticipant(prev, p.participantId, [], participantInfo(p)));
     };
 
     const onParticipantLeft = (p: ParticipantPayload) => {
+      leftDuringHydration.add(p.participantId);
       setParticipants((prev) => prev.filter((participant) => participant.id !== p.participantId));
     };
 
     const onParticipantStreamsAdded = (p: ParticipantStreamsPayload) => {
-      setParticipants((prev) =>
-        prev.map((participant) => {
-          if (participant.id === p.participantId) {
-            // Avoid adding duplicate streams
-            const existingUrns = new Set(participant.streams.map(s => s.deviceUrn));
-            const newStreams = p.streams.filter(s => !existingUrns.has(s.deviceUrn));
-            return {
-              ...participant,
-              streams: [...participant.streams, ...newStreams],
-            };
-          }
-          return participant;
-        })
-      );
+      setParticipants((prev) => upsertParticipant(prev, p.participantId, p.streams));
     };
 
     const onParticipantStreamsRemoved = (p: ParticipantStreamsRemovedPayload) => {
@@ -61,17 +87,60 @@ export const useStageParticipants = () => {
       );
     };
 
+    const onParticipantStreamsMutedChanged = (p: ParticipantStreamsMutedChangedPayload) => {
+      const mutedByUrn = new Map(p.streams.map((s) => [s.deviceUrn, s.muted]));
+      setParticipants((prev) =>
+        prev.map((participant) => {
+          if (participant.id !== p.participantId) return participant;
+          return {
+            ...participant,
+            streams: participant.streams.map((stream) =>
+              mutedByUrn.has(stream.deviceUrn) ? { ...stream, muted: mutedByUrn.get(stream.deviceUrn)! } : stream
+            ),
+          };
+        })
+      );
+    };
+
+    const onConnectionStateChanged = (p: StageConnectionStatePayload) => {
+      if (p.state === 'disconnected') {
+        setParticipants([]);
+      }
+    };
+
     const subscriptions = [
       addOnParticipantJoinedListener(onParticipantJoined),
       addOnParticipantLeftListener(onParticipantLeft),
       addOnParticipantStreamsAddedListener(onParticipantStreamsAdded),
       addOnParticipantStreamsRemovedListener(onParticipantStreamsRemoved),
+      addOnParticipantStreamsMutedChangedListener(onParticipantStreamsMutedChanged),
+      addOnStageConnectionStateChangedListener(onConnectionStateChanged),
     ];
 
+    // Subscribe first, then hydrate, so nothing emitted in between is lost
+    getParticipants()
+      .then((snapshot) => {
+        if (!active) return;
+        setParticipants((prev) =>
+          snapshot
+            .filter((participant) => !leftDuringHydration.has(participant.id))
+            .reduce(
+              (acc, participant) =>
+                upsertParticipant(acc, participant.id, participant.streams, participantInfo(participant)),
+              prev
+            )
+        );
+      })
+      .catch((e) => {
+        // Events keep the list current; the error shows up in `useStageConnection().lastError`
+        if (active) emitStageError(ExpoRealtimeIvsBroadcastModule, 'useStageParticipants.getParticipants', e);
+      });
+
     return () => {
+      active = false;
       subscriptions.forEach((sub) => sub.remove());
     };
   }, []);
 
   return { participants };
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import { addOnStatsUpdatedListener, startStatsUpdates } from './index';
+import { DEFAULT_STATS_INTERVAL_MS, rateNetworkQuality } from './streamStats';
+import type { NetworkQuality, StatsUpdatedPayload, StreamStats } from './ExpoRealtimeIvsBroadcast.types';
+
+export interface StreamStatsOptions {
+  /** Only streams of this participant */
+  participantId?: string;
+  /** Only the stream with this device URN */
+  deviceUrn?: string;
+  /** @default 1000 */
+  intervalMs?: number;
+  /**
+   * Number of samples kept for the quality rating
+   * @default 10
+   */
+  windowSize?: number;
+}
+
+export interface StreamStatsState {
+  /** Stats from the most recent sample, one entry per matching stream */
+  stats: StreamStats[];
+  /** The last `windowSize` samples, oldest first */
+  history: StreamStats[][];
+  /** Rating of the worst stream, averaged over the window. `null` until a sample reports loss, RTT or jitter. */
+  quality: NetworkQuality | null;
+}
+
+const AVERAGED_FIELDS = ['packetLossPercent', 'roundTripTimeMs', 'jitterMs'] as const;
+
+// Average each rated field per stream over the window, so one bad sample doesn't flip the rating
+function averagePerStream(history: StreamStats[][]): StreamStats[] {
+  const byUrn = new Map<string, StreamStats[]>();
+  for (const sample of history.flat()) {
+    byUrn.set(sample.deviceUrn, [...(byUrn.get(sample.deviceUrn) ?? []), sample]);
+  }
+  return [...byUrn.values()].map((samples) => {
+    const averaged: StreamStats = { ...samples[samples.length - 1] };
+    for (const field of AVERAGED_FIELDS) {
+      const values = samples.map((sample) => sample[field]).filter((value): value is number => value !== undefined);
+      averaged[field] = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+    }
+    return averaged;
+  });
+}
+
+export const useStreamStats = (options: StreamStatsOptions = {}): StreamStatsState => {
+  const { participantId, deviceUrn, intervalMs = DEFAULT_STATS_INTERVAL_MS, windowSize = 10 } = options;
+  const [history, setHistory] = useState<StreamStats[][]>([]);
+
+  useEffect(() => {
+    setHistory([]);
+    const onStatsUpdated = ({ stats }: StatsUpdatedPayload) => {
+      const matching = stats.filter(
+        (s) =>
+          (participantId === undefined || s.participantId === participantId) &&
+          (deviceUrn === undefined || s.deviceUrn === deviceUrn)
+      );
+      if (matching.length === 0) return;
+      setHistory((prev) => [...prev, matching].slice(-windowSize));
+    };
+
+    const subscriptions = [addOnStatsUpdatedListener(onStatsUpdated), startStatsUpdates(intervalMs)];
+
+    return () => {
+      subscriptions.forEach((sub) => sub.remove());
+    };
+  }, [participantId, deviceUrn, intervalMs, windowSize]);
+
+  return {
+    stats: history[history.length - 1] ?? [],
+    history,
+    quality: rateNetworkQuality(averagePerStream(history)),
+  };
+};
@@ -0,0 +1,144 @@
+// Video tracks the web module shares with the `<video>`-based views, and which remote view shows which stream.
+// Plays the part of the native managers' view registries.
+
+export interface WebRemoteVideo {
+  participantId: string;
+  deviceUrn: string;
+  track: MediaStreamTrack;
+}
+
+/** Which view a `<video>` element belongs to; `PiPOptions.sourceView` picks between them */
+export type WebVideoSource = 'local' | 'remote';
+
+export interface RemoteViewBinding {
+  participantId?: string;
+  deviceUrn?: string;
+}
+
+/** Wrap a track for `srcObject`; `null` where `MediaStream` is missing, e.g. in jsdom */
+export function toMediaStream(track: MediaStreamTrack): MediaStream | null {
+  return typeof MediaStream !== 'undefined' ? new MediaStream([track]) : null;
+}
+
+class WebStageMedia {
+  private localVideo: MediaStreamTrack | null = null;
+  private remoteVideos: WebRemoteVideo[] = [];
+  private targetParticipantId: string | null = null;
+  private views = new Map<number, RemoteViewBinding>();
+  private assignments = new Map<number, WebRemoteVideo>();
+  private listeners = new Set<() => void>();
+  private nextViewId = 1;
+  private videoElements = new Map<HTMLVideoElement, WebVideoSource>();
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getLocalVideo(): MediaStreamTrack | null {
+    return this.localVideo;
+  }
+
+  setLocalVideo(track: MediaStreamTrack | null) {
+    this.localVideo = track;
+    this.notify();
+  }
+
+  /** Views without a binding show this participant's video first, as `joinStage`'s `targetParticipantId` does natively */
+  setTargetParticipant(participantId: string | null) {
+    this.targetParticipantId = participantId;
+    this.reassign();
+  }
+
+  addRemoteVideos(videos: WebRemoteVideo[]) {
+    const known = new Set(this.remoteVideos.map((video) => video.deviceUrn));
+    this.remoteVideos.push(...videos.filter((video) => !known.has(video.deviceUrn)));
+    this.reassign();
+  }
+
+  /** Drop a participant's videos; all of them when `deviceUrns` is omitted */
+  removeRemoteVideos(participantId: string, deviceUrns?: string[]) {
+    this.remoteVideos = this.remoteVideos.filter(
+      (video) => video.participantId !== participantId || (deviceUrns !== undefined && !deviceUrns.includes(video.deviceUrn))
+    );
+    this.reassign();
+  }
+
+  clearRemoteVideos() {
+    this.remoteVideos = [];
+    this.reassign();
+  }
+
+  registerView(binding: RemoteViewBinding): number {
+    const id = this.nextViewId++;
+    this.views.set(id, binding);
+    this.reassign();
+    return id;
+  }
+
+  updateView(id: number, binding: RemoteViewBinding) {
+    if (!this.views.has(id)) return;
+    this.views.set(id, binding);
+    this.reassign();
+  }
+
+  unregisterView(id: number) {
+    this.views.delete(id);
+    this.reassign();
+  }
+
+  getViewVideo(id: number): WebRemoteVideo | null {
+    return this.assignments.get(id) ?? null;
+  }
+
+  /** Called by the views once their `<video>` is mounted; returns the unregister function */
+  registerVideoElement(element: HTMLVideoElement, source: WebVideoSource): () => void {
+    this.videoElements.set(element, source);
+    return () => this.videoElements.delete(element);
+  }
+
+  /** A mounted `<video>` of the given kind, preferring one that is showing a stream */
+  getVideoElement(source: WebVideoSource): HTMLVideoElement | null {
+    const elements = [...this.videoElements].filter(([, kind]) => kind === source).map(([element]) => element);
+    return elements.find((element) => element.srcObject !== null) ?? elements[0] ?? null;
+  }
+
+  // Bound views take their stream first; the rest share out what is left, in the order they mounted
+  private reassign() {
+    const assignments = new Map<number, WebRemoteVideo>();
+    const taken = new Set<string>();
+    const unbound: number[] = [];
+
+    this.views.forEach((binding, id) => {
+      if (binding.participantId === undefined && binding.deviceUrn === undefined) {
+        unbound.push(id);
+        return;
+      }
+      const video = this.remoteVideos.find(
+        (v) =>
+          (binding.participantId === undefined || v.participantId === binding.participantId) &&
+          (binding.deviceUrn === undefined || v.deviceUrn === binding.deviceUrn)
+      );
+      if (video) {
+        assignments.set(id, video);
+        taken.add(video.deviceUrn);
+      }
+    });
+
+    const available = this.remoteVideos
+      .filter((video) => !taken.has(video.deviceUrn))
+      .sort((a, b) => Number(b.participantId === this.targetParticipantId) - Number(a.participantId === this.targetParticipantId));
+    unbound.forEach((id, index) => {
+      if (available[index]) assignments.set(id, available[index]);
+    });
+
+    this.assignments = assignments;
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const webStageMedia = new WebStageMedia();